@@ -1,10 +1,31 @@
+import { useState } from 'react'
 import { Emulator } from './components/Emulator'
+import { MusicPlayer } from './components/MusicPlayer'
 import './styles/main.css'
 
+type Mode = 'emulator' | 'spc'
+
 function App() {
+  const [mode, setMode] = useState<Mode>('emulator')
+
   return (
     <div className="app">
-      <Emulator />
+      <nav className="mode-tabs">
+        <button
+          className={`control-btn ${mode === 'emulator' ? 'active' : ''}`}
+          onClick={() => setMode('emulator')}
+        >
+          🎮 Emulator
+        </button>
+        <button
+          className={`control-btn ${mode === 'spc' ? 'active' : ''}`}
+          onClick={() => setMode('spc')}
+        >
+          🎵 SPC Player
+        </button>
+      </nav>
+
+      {mode === 'emulator' ? <Emulator /> : <MusicPlayer />}
     </div>
   )
 }
@@ -6,15 +6,29 @@ interface ControlsProps {
     onStart: () => void;
     onPause: () => void;
     onReset: () => void;
+    onSaveState: () => void;
+    onLoadState: () => void;
+    stateSlot: number;
+    onSelectStateSlot: (slot: number) => void;
+    spriteLimit: boolean;
+    onToggleSpriteLimit: (enabled: boolean) => void;
     isRunning: boolean;
     romLoaded: boolean;
 }
 
+const STATE_SLOTS = [1, 2, 3, 4];
+
 export function Controls({
     onLoadROM,
     onStart,
     onPause,
     onReset,
+    onSaveState,
+    onLoadState,
+    stateSlot,
+    onSelectStateSlot,
+    spriteLimit,
+    onToggleSpriteLimit,
     isRunning,
     romLoaded
 }: ControlsProps) {
@@ -58,6 +72,47 @@ export function Controls({
                 </button>
             </div>
 
+            <div className="control-group">
+                <select
+                    value={stateSlot}
+                    onChange={(event) => onSelectStateSlot(Number(event.target.value))}
+                    disabled={!romLoaded}
+                    className="slot-select"
+                    aria-label="Save state slot"
+                >
+                    {STATE_SLOTS.map((slot) => (
+                        <option key={slot} value={slot}>Slot {slot}</option>
+                    ))}
+                </select>
+
+                <button
+                    onClick={onSaveState}
+                    disabled={!romLoaded}
+                    className="control-btn"
+                >
+                    💾 Save State
+                </button>
+
+                <button
+                    onClick={onLoadState}
+                    disabled={!romLoaded}
+                    className="control-btn"
+                >
+                    📂 Load State
+                </button>
+            </div>
+
+            <div className="control-group">
+                <label className="option-toggle" title="Real hardware drops sprites past 32 per line, which games turn into flicker">
+                    <input
+                        type="checkbox"
+                        checked={spriteLimit}
+                        onChange={(event) => onToggleSpriteLimit(event.target.checked)}
+                    />
+                    Sprite limit per line
+                </label>
+            </div>
+
             <div className="keyboard-guide">
                 <h3>🎮 Keyboard Controls</h3>
                 <div className="key-mapping">
@@ -1,16 +1,29 @@
 // Main Emulator Component - FIXED VERSION
 // Integrates all components with proper initialization
 
-import { useEffect, useRef, useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 import { SNES } from '../core/SNES';
 import { ROMParser } from '../utils/ROMParser';
+import { SRAMPersistence } from '../utils/SRAMPersistence';
+import { IndexedDBStore, storageKey } from '../utils/Storage';
+import { SaveStateError } from '../core/SaveState';
+import { AudioOutput } from '../utils/AudioOutput';
+import { FrameLoop } from '../utils/FrameLoop';
+import { KeyboardInput } from '../utils/KeyboardInput';
 import { Screen } from './Screen';
 import { Controls } from './Controls';
 import { DebugPanel } from './DebugPanel';
+import { VoiceMixer } from './VoiceMixer';
 import type { CPU65816Registers, CPU65816Flags } from '../core/CPU65816';
 
 export function Emulator() {
     const snesRef = useRef<SNES | null>(null);
+    const loopRef = useRef<FrameLoop | null>(null);
+    const sramRef = useRef<SRAMPersistence | null>(null);
+    const statesRef = useRef<IndexedDBStore | null>(null);
+    const [romKey, setRomKey] = useState('');
+    const [stateSlot, setStateSlot] = useState(1);
+    const [spriteLimit, setSpriteLimit] = useState(true);
     const [isRunning, setIsRunning] = useState(false);
     const [romLoaded, setRomLoaded] = useState(false);
     const [screenBuffer, setScreenBuffer] = useState<Uint8ClampedArray | null>(null);
@@ -20,16 +33,23 @@ export function Emulator() {
     const [cpuFlags, setCpuFlags] = useState<CPU65816Flags | null>(null);
 
     const fpsCounterRef = useRef({ frames: 0, lastTime: performance.now() });
+    const getDSP = useCallback(() => snesRef.current?.getAPU().getDSP() ?? null, []);
 
     useEffect(() => {
         console.log('🎮 Initializing SNES emulator...');
 
         // Initialize SNES emulator
         const snes = new SNES();
-        snes.init();
+        const audio = new AudioOutput();
+        void audio.init();
+        const loop = new FrameLoop(snes, audio);
+
+        // Keyboard drives controller 1
+        const keyboard = new KeyboardInput(snes.getInput());
+        keyboard.attach();
 
         // Set frame callback
-        snes.setFrameCallback((buffer) => {
+        loop.setFrameCallback((buffer) => {
             // Update screen buffer (create new array to trigger React update)
             setScreenBuffer(new Uint8ClampedArray(buffer));
 
@@ -50,11 +70,28 @@ export function Emulator() {
             setCpuFlags(snes.getCPU().getFlags());
         });
 
+        loop.setErrorCallback((error) => {
+            setIsRunning(false);
+            alert(`Emulation stopped: ${error instanceof Error ? error.message : String(error)}`);
+        });
+
         snesRef.current = snes;
+        loopRef.current = loop;
+
+        // Battery saves are kept in IndexedDB
+        const sram = new SRAMPersistence(new IndexedDBStore('sram'));
+        sramRef.current = sram;
+        statesRef.current = new IndexedDBStore('states');
+        const flushSRAM = () => { sram.flush(); };
+        window.addEventListener('pagehide', flushSRAM);
 
         return () => {
             console.log('🛑 Cleaning up SNES emulator...');
-            snes.stop();
+            window.removeEventListener('pagehide', flushSRAM);
+            sram.detach();
+            keyboard.detach();
+            loop.stop();
+            audio.close();
         };
     }, []);
 
@@ -78,7 +115,11 @@ export function Emulator() {
             });
 
             // Load ROM into emulator
+            await sramRef.current?.detach();
             snes.loadROM(data);
+            const key = storageKey(info.name, info.checksum);
+            await sramRef.current?.attach(snes, key);
+            setRomKey(key);
             setRomLoaded(true);
 
             console.log('✅ ROM loaded successfully');
@@ -91,39 +132,80 @@ export function Emulator() {
     };
 
     const handleStart = () => {
-        const snes = snesRef.current;
-        if (!snes || !romLoaded) return;
+        const loop = loopRef.current;
+        if (!loop || !romLoaded) return;
 
         if (isRunning) {
             console.log('⏸️  Pausing emulation...');
-            snes.pause();
+            loop.pause();
             setIsRunning(false);
         } else {
             console.log('▶️  Starting emulation...');
-            snes.resume();
+            loop.resume();
             setIsRunning(true);
         }
     };
 
     const handlePause = () => {
-        const snes = snesRef.current;
-        if (!snes) return;
+        const loop = loopRef.current;
+        if (!loop) return;
 
         console.log('⏸️  Pausing emulation...');
-        snes.pause();
+        loop.pause();
         setIsRunning(false);
     };
 
     const handleReset = () => {
         const snes = snesRef.current;
-        if (!snes || !romLoaded) return;
+        const loop = loopRef.current;
+        if (!snes || !loop || !romLoaded) return;
 
         console.log('🔄 Resetting emulator...');
         snes.reset();
 
         // If it was running, restart it
         if (isRunning) {
-            snes.resume();
+            loop.resume();
+        }
+    };
+
+    const handleToggleSpriteLimit = (enabled: boolean) => {
+        snesRef.current?.getPPU().setSpriteLimit(enabled);
+        setSpriteLimit(enabled);
+    };
+
+    const handleSaveState = async () => {
+        const snes = snesRef.current;
+        const states = statesRef.current;
+        if (!snes || !states || !romLoaded) return;
+
+        try {
+            await states.save(`${romKey}-slot${stateSlot}`, snes.saveState());
+            console.log(`💾 State saved to slot ${stateSlot}`);
+        } catch (error) {
+            console.error('❌ Failed to save state:', error);
+            alert('Failed to save state. Please check the console for details.');
+        }
+    };
+
+    const handleLoadState = async () => {
+        const snes = snesRef.current;
+        const states = statesRef.current;
+        if (!snes || !states || !romLoaded) return;
+
+        try {
+            const data = await states.load(`${romKey}-slot${stateSlot}`);
+            if (!data) {
+                alert(`Slot ${stateSlot} is empty.`);
+                return;
+            }
+            snes.loadState(data);
+            console.log(`📂 State loaded from slot ${stateSlot}`);
+        } catch (error) {
+            console.error('❌ Failed to load state:', error);
+            alert(error instanceof SaveStateError
+                ? `Cannot load slot ${stateSlot}: ${error.message}.`
+                : 'Failed to load state. Please check the console for details.');
         }
     };
 
@@ -171,6 +253,12 @@ export function Emulator() {
                         onStart={handleStart}
                         onPause={handlePause}
                         onReset={handleReset}
+                        onSaveState={handleSaveState}
+                        onLoadState={handleLoadState}
+                        stateSlot={stateSlot}
+                        onSelectStateSlot={setStateSlot}
+                        spriteLimit={spriteLimit}
+                        onToggleSpriteLimit={handleToggleSpriteLimit}
                         isRunning={isRunning}
                         romLoaded={romLoaded}
                     />
@@ -181,6 +269,8 @@ export function Emulator() {
                         fps={fps}
                         romInfo={romInfo}
                     />
+
+                    <VoiceMixer getDSP={getDSP} />
                 </div>
             </div>
 
@@ -0,0 +1,192 @@
+// Music Player Component
+// Standalone .spc player: plays sound snapshots on the APU alone, shows the
+// ID666 track information and exports the track to WAV
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { AudioOutput } from '../utils/AudioOutput';
+import { SPCParser } from '../utils/SPCParser';
+import type { ID666Tags } from '../utils/SPCParser';
+import { SPCPlayer } from '../utils/SPCPlayer';
+import { VoiceMixer } from './VoiceMixer';
+
+const formatTime = (seconds: number) => {
+    const whole = Math.floor(seconds);
+    return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+};
+
+export function MusicPlayer() {
+    const playerRef = useRef<SPCPlayer | null>(null);
+    const [fileName, setFileName] = useState('');
+    const [tags, setTags] = useState<ID666Tags | null>(null);
+    const [isPlaying, setIsPlaying] = useState(false);
+    const [position, setPosition] = useState(0);
+    const [duration, setDuration] = useState(0);
+    const [exportProgress, setExportProgress] = useState<number | null>(null);
+    const getDSP = useCallback(() => playerRef.current?.getAPU().getDSP() ?? null, []);
+
+    useEffect(() => {
+        const audio = new AudioOutput();
+        void audio.init();
+        const player = new SPCPlayer(audio);
+        player.setEndCallback(() => {
+            setIsPlaying(false);
+            setPosition(0);
+        });
+        playerRef.current = player;
+
+        return () => {
+            player.stop();
+            audio.close();
+            playerRef.current = null;
+        };
+    }, []);
+
+    // Elapsed time display
+    useEffect(() => {
+        if (!isPlaying) return;
+        const id = setInterval(() => {
+            setPosition(playerRef.current?.getPositionSeconds() ?? 0);
+        }, 250);
+        return () => clearInterval(id);
+    }, [isPlaying]);
+
+    const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const player = playerRef.current;
+        const file = event.target.files?.[0];
+        if (!player || !file) return;
+
+        try {
+            const spc = SPCParser.parse(new Uint8Array(await file.arrayBuffer()));
+            player.load(spc);
+            setFileName(file.name);
+            setTags(spc.tags);
+            setDuration(player.getDurationSeconds());
+            setPosition(0);
+            setIsPlaying(false);
+            console.log('🎵 SPC loaded:', spc.tags);
+        } catch (error) {
+            console.error('❌ Failed to load SPC:', error);
+            alert('Failed to load SPC file. Please check the console for details.');
+        }
+    };
+
+    const handlePlayPause = () => {
+        const player = playerRef.current;
+        if (!player || !tags) return;
+
+        if (player.isPlaying()) {
+            player.pause();
+            setIsPlaying(false);
+        } else {
+            player.play();
+            setIsPlaying(true);
+        }
+    };
+
+    const handleStop = () => {
+        playerRef.current?.stop();
+        setIsPlaying(false);
+        setPosition(0);
+    };
+
+    const handleExport = async () => {
+        const player = playerRef.current;
+        if (!player || !tags || exportProgress !== null) return;
+
+        try {
+            setExportProgress(0);
+            const wav = await player.exportWAV(setExportProgress);
+
+            const url = URL.createObjectURL(new Blob([wav as BlobPart], { type: 'audio/wav' }));
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = (fileName.replace(/\.spc$/i, '') || 'track') + '.wav';
+            link.click();
+            URL.revokeObjectURL(url);
+        } catch (error) {
+            console.error('❌ Failed to export WAV:', error);
+            alert('Failed to export WAV. Please check the console for details.');
+        } finally {
+            setExportProgress(null);
+        }
+    };
+
+    return (
+        <div className="emulator-container">
+            <header className="emulator-header">
+                <h1>🎵 SPC Player</h1>
+                <p className="subtitle">Plays SNES sound snapshots on the emulated APU</p>
+            </header>
+
+            <div className="music-player">
+                <div className="controls">
+                    <div className="control-group">
+                        <label htmlFor="spc-input" className="file-input-label">
+                            <span>📁 Load SPC</span>
+                            <input
+                                id="spc-input"
+                                type="file"
+                                accept=".spc"
+                                onChange={handleFileChange}
+                                style={{ display: 'none' }}
+                            />
+                        </label>
+                    </div>
+
+                    <div className="control-group">
+                        <button
+                            onClick={handlePlayPause}
+                            disabled={!tags}
+                            className="control-btn primary"
+                        >
+                            {isPlaying ? '⏸ Pause' : '▶ Play'}
+                        </button>
+
+                        <button
+                            onClick={handleStop}
+                            disabled={!tags}
+                            className="control-btn"
+                        >
+                            ⏹ Stop
+                        </button>
+
+                        <button
+                            onClick={handleExport}
+                            disabled={!tags || exportProgress !== null}
+                            className="control-btn"
+                        >
+                            {exportProgress === null
+                                ? '💾 Export WAV'
+                                : `Exporting ${Math.round(exportProgress * 100)}%`}
+                        </button>
+                    </div>
+                </div>
+
+                <div className="sidebar">
+                    <div className="debug-panel">
+                        <h3>📀 Track</h3>
+                        {tags ? (
+                            <div className="debug-section">
+                                <div className="debug-info">
+                                    <div><span className="label">Song:</span> {tags.songTitle || fileName}</div>
+                                    <div><span className="label">Game:</span> {tags.gameTitle}</div>
+                                    <div><span className="label">Artist:</span> {tags.artist}</div>
+                                    <div><span className="label">Dumper:</span> {tags.dumper}</div>
+                                    <div><span className="label">Date:</span> {tags.date}</div>
+                                    <div><span className="label">Comments:</span> {tags.comments}</div>
+                                    <div>
+                                        <span className="label">Time:</span> {formatTime(position)} / {formatTime(duration)}
+                                    </div>
+                                </div>
+                            </div>
+                        ) : (
+                            <p className="note">Load an .spc file to begin</p>
+                        )}
+                    </div>
+
+                    <VoiceMixer getDSP={getDSP} />
+                </div>
+            </div>
+        </div>
+    );
+}
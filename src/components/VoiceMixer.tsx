@@ -0,0 +1,120 @@
+// Voice Mixer Component
+// Per-voice view of the S-DSP for debugging sound: mute/solo any of the 8
+// voices, toggle the echo return, and watch a live oscilloscope and VU meter
+// for each channel
+
+import { useEffect, useRef, useState } from 'react';
+import type { DSP } from '../core/DSP';
+
+interface VoiceMixerProps {
+    getDSP: () => DSP | null;
+}
+
+const VOICES = [0, 1, 2, 3, 4, 5, 6, 7];
+const SCOPE_WIDTH = 160;
+const SCOPE_HEIGHT = 32;
+const SCOPE_SAMPLES = 256;
+
+// VU meter falls back this fraction per animation frame
+const PEAK_DECAY = 0.9;
+
+export function VoiceMixer({ getDSP }: VoiceMixerProps) {
+    const canvasRefs = useRef<(HTMLCanvasElement | null)[]>([]);
+    const meterRefs = useRef<(HTMLDivElement | null)[]>([]);
+    const [muted, setMuted] = useState(0);  // Bit per voice
+    const [soloed, setSoloed] = useState(0);
+    const [echo, setEcho] = useState(true);
+
+    // Soloed voices win over mutes
+    useEffect(() => {
+        const dsp = getDSP();
+        if (!dsp) return;
+        dsp.setVoiceMask(soloed ? soloed : ~muted & 0xFF);
+        dsp.setEchoEnabled(echo);
+    }, [getDSP, muted, soloed, echo]);
+
+    // Scopes and meters are drawn straight to the DOM, outside React renders
+    useEffect(() => {
+        const scope = new Int16Array(SCOPE_SAMPLES);
+        const levels = new Float32Array(8);
+        let frameId = 0;
+
+        const draw = () => {
+            frameId = requestAnimationFrame(draw);
+            const dsp = getDSP();
+            if (!dsp) return;
+
+            const peaks = dsp.takeVoicePeaks();
+            for (const v of VOICES) {
+                levels[v] = Math.max(peaks[v] / 32768, levels[v] * PEAK_DECAY);
+                const meter = meterRefs.current[v];
+                if (meter) meter.style.width = `${Math.min(100, levels[v] * 100)}%`;
+
+                const canvas = canvasRefs.current[v];
+                const ctx = canvas?.getContext('2d');
+                if (!ctx) continue;
+
+                dsp.readVoiceScope(v, scope);
+                ctx.clearRect(0, 0, SCOPE_WIDTH, SCOPE_HEIGHT);
+                ctx.strokeStyle = '#4caf50';
+                ctx.beginPath();
+                for (let i = 0; i < SCOPE_SAMPLES; i++) {
+                    const x = (i / (SCOPE_SAMPLES - 1)) * SCOPE_WIDTH;
+                    const y = SCOPE_HEIGHT / 2 - (scope[i] / 32768) * (SCOPE_HEIGHT / 2);
+                    if (i === 0) ctx.moveTo(x, y);
+                    else ctx.lineTo(x, y);
+                }
+                ctx.stroke();
+            }
+        };
+
+        frameId = requestAnimationFrame(draw);
+        return () => cancelAnimationFrame(frameId);
+    }, [getDSP]);
+
+    const toggle = (mask: number, voice: number) => mask ^ (1 << voice);
+
+    return (
+        <div className="debug-panel voice-mixer">
+            <h3>🎚️ Voice Mixer</h3>
+
+            <div className="debug-section">
+                {VOICES.map((v) => (
+                    <div key={v} className="voice-row">
+                        <span className="label">{v}</span>
+                        <button
+                            className={`mixer-btn ${muted & (1 << v) ? 'active' : ''}`}
+                            onClick={() => setMuted(toggle(muted, v))}
+                            title={`Mute voice ${v}`}
+                        >
+                            M
+                        </button>
+                        <button
+                            className={`mixer-btn ${soloed & (1 << v) ? 'active' : ''}`}
+                            onClick={() => setSoloed(toggle(soloed, v))}
+                            title={`Solo voice ${v}`}
+                        >
+                            S
+                        </button>
+                        <div className="voice-display">
+                            <canvas
+                                ref={(element) => { canvasRefs.current[v] = element; }}
+                                width={SCOPE_WIDTH}
+                                height={SCOPE_HEIGHT}
+                                className="voice-scope"
+                            />
+                            <div className="voice-meter">
+                                <div ref={(element) => { meterRefs.current[v] = element; }} className="voice-meter-level" />
+                            </div>
+                        </div>
+                    </div>
+                ))}
+            </div>
+
+            <label className="echo-toggle">
+                <input type="checkbox" checked={echo} onChange={(event) => setEcho(event.target.checked)} />
+                Echo
+            </label>
+        </div>
+    );
+}
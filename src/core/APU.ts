@@ -1,95 +1,305 @@
-// SNES APU (Audio Processing Unit) - Simplified implementation
-// Full SPC700 + DSP emulation is extremely complex
+// SNES APU (Audio Processing Unit)
+// SPC700 sound CPU with its 64KB ARAM, the IPL boot ROM, three timers and the
+// four I/O ports shared with the 65816. The S-DSP (see DSP) is reached through
+// $F2/$F3 and renders one stereo sample every 32 SPC700 cycles.
+// The APU only produces samples; playing them is up to the host (see AudioOutput)
 
-export class APU {
-    private audioContext: AudioContext | null = null;
-    private gainNode: GainNode | null = null;
-    private sampleRate: number = 32000; // SNES APU runs at 32kHz
+import { DSP } from './DSP';
+import { SPC700 } from './SPC700';
+import type { SPCBus, SPC700Registers } from './SPC700';
+import type { StateReader, StateWriter } from './SaveState';
 
-    // I/O ports for communication with main CPU
-    private ioPorts: Uint8Array = new Uint8Array(4);
+// Nominally 32kHz, but the APU's ceramic resonator runs slightly fast on real consoles
+export const APU_SAMPLE_RATE = 32040;
 
-    // Audio enabled flag
-    private enabled: boolean = false;
+export const MASTER_CLOCK_HZ = 21477272; // NTSC 65816 side
+const CYCLES_PER_SAMPLE = 32;     // The DSP outputs one sample every 32 SPC700 cycles
+const SPC_CLOCK_HZ = APU_SAMPLE_RATE * CYCLES_PER_SAMPLE;
+
+// About a second of interleaved stereo. A host that never collects the samples
+// (runFrame() in a loop) keeps only the most recent ones instead of growing forever
+const MAX_BUFFERED_SAMPLES = 65536;
+
+// Timers 0 and 1 count at 8kHz, timer 2 at 64kHz
+const TIMER_PERIODS = [128, 128, 16];
+
+// Boot program mapped at $FFC0-$FFFF: signals $AA/$BB on ports 0/1 and
+// receives data blocks from the 65816
+const IPL_ROM = new Uint8Array([
+    0xCD, 0xEF, 0xBD, 0xE8, 0x00, 0xC6, 0x1D, 0xD0, 0xFC, 0x8F, 0xAA, 0xF4, 0x8F, 0xBB, 0xF5, 0x78,
+    0xCC, 0xF4, 0xD0, 0xFB, 0x2F, 0x19, 0xEB, 0xF4, 0xD0, 0xFC, 0x7E, 0xF4, 0xD0, 0x0B, 0xE4, 0xF5,
+    0xCB, 0xF4, 0xD7, 0x00, 0xFC, 0xD0, 0xF3, 0xAB, 0x01, 0x10, 0xEF, 0x7E, 0xF4, 0x10, 0xEB, 0xBA,
+    0xF6, 0xDA, 0x00, 0xBA, 0xF4, 0xC4, 0xF4, 0xDD, 0x5D, 0xD0, 0xDB, 0x1F, 0x00, 0x00, 0xC0, 0xFF
+]);
+
+// A running APU as captured in .spc files
+export interface APUSnapshot {
+    registers: SPC700Registers;
+    ram: Uint8Array;          // 64KB ARAM, I/O registers at $F0-$FF included
+    dspRegisters: Uint8Array; // 128 bytes
+    extraRAM: Uint8Array;     // RAM hidden under the IPL ROM at $FFC0-$FFFF
+}
+
+export class APU implements SPCBus {
+    private aram = new Uint8Array(64 * 1024);
+    private spc: SPC700;
+    private dsp: DSP;
+
+    // I/O ports: what the 65816 wrote ($2140-$2143 -> $F4-$F7) and what the SPC700 wrote back
+    private cpuToSpc = new Uint8Array(4);
+    private spcToCpu = new Uint8Array(4);
+
+    private control = 0xB0; // $F1: timer enables, port clears, IPL ROM enable
+    private dspAddress = 0;
+
+    private timerTargets = new Uint8Array(3);  // $FA-$FC (0 = 256)
+    private timerStages = new Uint8Array(3);   // Internal up-counters compared with the target
+    private timerCounters = new Uint8Array(3); // $FD-$FF, 4 bits, cleared when read
+    private timerClocks = new Uint8Array(3);   // SPC700 cycles towards the next timer tick
+
+    // Master cycles owed to the SPC700, scaled by SPC_CLOCK_HZ
+    private clockDebt = 0;
+    private sampleClock = 0;
+
+    // Interleaved stereo 16-bit output waiting to be collected by the host
+    private samples = new Int16Array(4096);
+    private sampleCount = 0;
 
     constructor() {
-        // Audio context will be created when user interaction allows it
+        this.spc = new SPC700(this);
+        this.dsp = new DSP(this.aram);
     }
 
     reset(): void {
-        this.ioPorts.fill(0);
+        this.aram.fill(0);
+        this.cpuToSpc.fill(0);
+        this.spcToCpu.fill(0);
+        this.control = 0xB0;
+        this.dspAddress = 0;
+        this.dsp.reset();
+        this.timerTargets.fill(0);
+        this.timerStages.fill(0);
+        this.timerCounters.fill(0);
+        this.timerClocks.fill(0);
+        this.clockDebt = 0;
+        this.sampleClock = 0;
+        this.sampleCount = 0;
+        this.spc.reset();
     }
 
-    init(): void {
-        if (typeof window === 'undefined' || !window.AudioContext) {
-            console.warn('Web Audio API not available');
-            return;
+    /**
+     * Advances the APU by `cycles` master cycles. Called after every 65816
+     * instruction, so both processors stay within one instruction of each other.
+     */
+    step(cycles: number): void {
+        this.clockDebt += cycles * SPC_CLOCK_HZ;
+
+        while (this.clockDebt > 0) {
+            const spcCycles = this.spc.step();
+            this.clockDebt -= spcCycles * MASTER_CLOCK_HZ;
+            this.advanceTimers(spcCycles);
+            this.advanceSamples(spcCycles);
         }
+    }
 
-        try {
-            this.audioContext = new AudioContext({ sampleRate: this.sampleRate });
-            this.gainNode = this.audioContext.createGain();
-            this.gainNode.gain.value = 0.5; // 50% volume
-            this.gainNode.connect(this.audioContext.destination);
-            this.enabled = true;
+    /**
+     * Restores a snapshot (see SPCParser) so the APU plays it on its own,
+     * without the rest of the console. The I/O registers come from $F0-$FF.
+     */
+    loadSnapshot(snapshot: APUSnapshot): void {
+        this.reset();
+        this.aram.set(snapshot.ram);
+        this.aram.set(snapshot.extraRAM, 0xFFC0);
 
-            console.log('APU initialized with Web Audio API');
-        } catch (error) {
-            console.error('Failed to initialize audio:', error);
+        const io = snapshot.ram;
+        this.control = io[0xF1];
+        this.dspAddress = io[0xF2];
+        this.cpuToSpc.set(io.subarray(0xF4, 0xF8));
+        this.timerTargets.set(io.subarray(0xFA, 0xFD));
+        for (let timer = 0; timer < 3; timer++) {
+            this.timerCounters[timer] = io[0xFD + timer] & 0x0F;
         }
+
+        this.dsp.loadRegisters(snapshot.dspRegisters);
+        this.spc.setRegisters(snapshot.registers);
     }
 
-    step(cycles: number): void {
-        // Simplified APU emulation
-        // Full implementation would emulate SPC700 CPU and DSP
-        // For now, this is just a placeholder
+    // Returns the samples produced since the last call
+    takeSamples(): Int16Array {
+        const output = this.samples.slice(0, this.sampleCount);
+        this.sampleCount = 0;
+        return output;
     }
 
+    // 65816 side: $2140-$2143
     writePort(port: number, value: number): void {
         if (port >= 0 && port < 4) {
-            this.ioPorts[port] = value & 0xFF;
+            this.cpuToSpc[port] = value & 0xFF;
         }
     }
 
     readPort(port: number): number {
         if (port >= 0 && port < 4) {
-            return this.ioPorts[port];
+            return this.spcToCpu[port];
         }
         return 0;
     }
 
-    playTone(frequency: number, duration: number): void {
-        if (!this.audioContext || !this.gainNode || !this.enabled) return;
+    getSPC(): SPC700 { return this.spc; }
+    getDSP(): DSP { return this.dsp; }
+    getARAM(): Uint8Array { return this.aram; }
 
-        const oscillator = this.audioContext.createOscillator();
-        oscillator.type = 'square';
-        oscillator.frequency.value = frequency;
-        oscillator.connect(this.gainNode);
+    // ==========================================
+    // SPC700 bus
+    // ==========================================
 
-        const now = this.audioContext.currentTime;
-        oscillator.start(now);
-        oscillator.stop(now + duration);
+    read(address: number): number {
+        if (address >= 0xF0 && address <= 0xFF) {
+            return this.readRegister(address);
+        }
+        if (address >= 0xFFC0 && (this.control & 0x80)) {
+            return IPL_ROM[address - 0xFFC0];
+        }
+        return this.aram[address];
+    }
+
+    // Writes always reach ARAM, even under the IPL ROM and the I/O registers
+    write(address: number, value: number): void {
+        if (address >= 0xF0 && address <= 0xFF) {
+            this.writeRegister(address, value);
+        }
+        this.aram[address] = value;
     }
 
-    setVolume(volume: number): void {
-        if (this.gainNode) {
-            this.gainNode.gain.value = Math.max(0, Math.min(1, volume));
+    private readRegister(address: number): number {
+        switch (address) {
+            case 0xF2: return this.dspAddress;
+            case 0xF3: return this.dsp.readRegister(this.dspAddress);
+            case 0xF4: case 0xF5: case 0xF6: case 0xF7:
+                return this.cpuToSpc[address - 0xF4];
+            case 0xF8: case 0xF9:
+                return this.aram[address];
+            case 0xFD: case 0xFE: case 0xFF: {
+                const timer = address - 0xFD;
+                const value = this.timerCounters[timer];
+                this.timerCounters[timer] = 0;
+                return value;
+            }
         }
+        return 0; // $F0, $F1 and $FA-$FC are write-only
     }
 
-    suspend(): void {
-        if (this.audioContext && this.audioContext.state === 'running') {
-            this.audioContext.suspend();
+    private writeRegister(address: number, value: number): void {
+        switch (address) {
+            case 0xF1: { // CONTROL
+                for (let timer = 0; timer < 3; timer++) {
+                    const enabling = (value & (1 << timer)) && !(this.control & (1 << timer));
+                    if (enabling) {
+                        this.timerStages[timer] = 0;
+                        this.timerCounters[timer] = 0;
+                    }
+                }
+                if (value & 0x10) {
+                    this.cpuToSpc[0] = 0;
+                    this.cpuToSpc[1] = 0;
+                }
+                if (value & 0x20) {
+                    this.cpuToSpc[2] = 0;
+                    this.cpuToSpc[3] = 0;
+                }
+                this.control = value;
+                break;
+            }
+            case 0xF2: this.dspAddress = value; break;
+            case 0xF3:
+                // $80-$FF mirror $00-$7F for reads but ignore writes
+                if (this.dspAddress < 0x80) this.dsp.writeRegister(this.dspAddress, value);
+                break;
+            case 0xF4: case 0xF5: case 0xF6: case 0xF7:
+                this.spcToCpu[address - 0xF4] = value;
+                break;
+            case 0xFA: case 0xFB: case 0xFC:
+                this.timerTargets[address - 0xFA] = value;
+                break;
         }
     }
 
-    resume(): void {
-        if (this.audioContext && this.audioContext.state === 'suspended') {
-            this.audioContext.resume();
+    private advanceTimers(cycles: number): void {
+        for (let timer = 0; timer < 3; timer++) {
+            let clock = this.timerClocks[timer] + cycles;
+            const period = TIMER_PERIODS[timer];
+
+            while (clock >= period) {
+                clock -= period;
+                if (!(this.control & (1 << timer))) continue;
+
+                this.timerStages[timer]++;
+                if (this.timerStages[timer] === this.timerTargets[timer]) { // Uint8 wrap: 0 means 256
+                    this.timerStages[timer] = 0;
+                    this.timerCounters[timer] = (this.timerCounters[timer] + 1) & 0x0F;
+                }
+            }
+            this.timerClocks[timer] = clock;
         }
     }
 
-    isEnabled(): boolean {
-        return this.enabled && this.audioContext !== null;
+    private advanceSamples(cycles: number): void {
+        this.sampleClock += cycles;
+        while (this.sampleClock >= CYCLES_PER_SAMPLE) {
+            this.sampleClock -= CYCLES_PER_SAMPLE;
+            this.reserveSamples(2);
+            this.dsp.renderSample(this.samples, this.sampleCount);
+            this.sampleCount += 2;
+        }
+    }
+
+    saveState(writer: StateWriter): void {
+        writer.section('APU ');
+        writer.array(this.aram);
+        writer.array(this.cpuToSpc);
+        writer.array(this.spcToCpu);
+        writer.u8(this.control);
+        writer.u8(this.dspAddress);
+        writer.array(this.timerTargets);
+        writer.array(this.timerStages);
+        writer.array(this.timerCounters);
+        writer.array(this.timerClocks);
+        writer.f64(this.clockDebt);
+        writer.u8(this.sampleClock);
+        this.spc.saveState(writer);
+        this.dsp.saveState(writer);
+    }
+
+    loadState(reader: StateReader): void {
+        reader.section('APU ');
+        reader.array(this.aram);
+        reader.array(this.cpuToSpc);
+        reader.array(this.spcToCpu);
+        this.control = reader.u8();
+        this.dspAddress = reader.u8();
+        reader.array(this.timerTargets);
+        reader.array(this.timerStages);
+        reader.array(this.timerCounters);
+        reader.array(this.timerClocks);
+        this.clockDebt = reader.f64();
+        this.sampleClock = reader.u8();
+        this.spc.loadState(reader);
+        this.dsp.loadState(reader);
+        this.sampleCount = 0;
+    }
+
+    private reserveSamples(count: number): void {
+        if (this.sampleCount + count > this.samples.length) {
+            if (this.samples.length < MAX_BUFFERED_SAMPLES) {
+                const grown = new Int16Array(this.samples.length * 2);
+                grown.set(this.samples);
+                this.samples = grown;
+            } else {
+                // Full: drop the older half
+                const dropped = this.samples.length >> 1;
+                this.samples.copyWithin(0, dropped, this.sampleCount);
+                this.sampleCount -= dropped;
+            }
+        }
     }
 }
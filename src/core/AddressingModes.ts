@@ -0,0 +1,256 @@
+// 65816 Addressing Modes
+// Resolves operands to 24-bit effective addresses using D, DB, PB and SP,
+// including the emulation-mode direct page wrap and the cycle penalties
+// that depend on the address itself.
+
+import type { CPU65816Flags, CPU65816Registers } from './CPU65816';
+
+export const AddressingMode = {
+    Implied: 0,
+    Accumulator: 1,
+    Immediate: 2,
+    Direct: 3,                        // dp
+    DirectX: 4,                       // dp,X
+    DirectY: 5,                       // dp,Y
+    DirectIndirect: 6,                // (dp)
+    DirectIndexedIndirect: 7,         // (dp,X)
+    DirectIndirectIndexed: 8,         // (dp),Y
+    DirectIndirectLong: 9,            // [dp]
+    DirectIndirectLongIndexed: 10,    // [dp],Y
+    Absolute: 11,                     // abs
+    AbsoluteX: 12,                    // abs,X
+    AbsoluteY: 13,                    // abs,Y
+    AbsoluteLong: 14,                 // long
+    AbsoluteLongX: 15,                // long,X
+    StackRelative: 16,                // sr,S
+    StackRelativeIndirectIndexed: 17, // (sr,S),Y
+    AbsoluteIndirect: 18,             // (abs)
+    AbsoluteIndexedIndirect: 19,      // (abs,X)
+    AbsoluteIndirectLong: 20,         // [abs]
+    Relative: 21,
+    RelativeLong: 22,
+    BlockMove: 23
+} as const;
+
+export type AddressingMode = typeof AddressingMode[keyof typeof AddressingMode];
+
+// How the instruction uses its operand. Indexed reads only pay the
+// page-crossing cycle when they need it; writes and read-modify-writes
+// always pay it and have it included in their base cycle count.
+export type AccessKind = 'read' | 'write' | 'modify';
+
+export interface EffectiveAddress {
+    address: number;    // 24-bit bus address of the first operand byte
+    bankWrap: boolean;  // true when the next operand byte wraps inside the bank
+}
+
+// The CPU state the resolver needs; registers and flags are the CPU's live objects
+export interface AddressingContext {
+    readonly registers: CPU65816Registers;
+    readonly flags: CPU65816Flags;
+    fetchByte(): number;
+    read(address: number): number;
+    addCycles(count: number): void;
+}
+
+export class AddressResolver {
+    private context: AddressingContext;
+
+    // Reused between instructions to keep the hot path allocation-free
+    private result: EffectiveAddress = { address: 0, bankWrap: false };
+
+    constructor(context: AddressingContext) {
+        this.context = context;
+    }
+
+    /**
+     * Consumes the operand bytes for `mode` and returns where the data lives.
+     * `wide` selects the immediate operand size (M or X width of the instruction).
+     */
+    resolve(mode: AddressingMode, access: AccessKind, wide: boolean): EffectiveAddress {
+        const r = this.context.registers;
+
+        switch (mode) {
+            case AddressingMode.Immediate: {
+                const address = (r.PB << 16) | r.PC;
+                r.PC = (r.PC + (wide ? 2 : 1)) & 0xFFFF;
+                return this.done(address, true);
+            }
+
+            case AddressingMode.Direct:
+                return this.done(this.direct(this.operandDirect(), 0), true);
+
+            case AddressingMode.DirectX:
+                return this.done(this.direct(this.operandDirect(), r.X), true);
+
+            case AddressingMode.DirectY:
+                return this.done(this.direct(this.operandDirect(), r.Y), true);
+
+            case AddressingMode.DirectIndirect: {
+                const offset = this.operandDirect();
+                return this.done(this.dataBank(this.directPointer(offset, 0)), false);
+            }
+
+            case AddressingMode.DirectIndexedIndirect: {
+                const offset = this.operandDirect();
+                return this.done(this.dataBank(this.directPointer(offset, r.X)), false);
+            }
+
+            case AddressingMode.DirectIndirectIndexed: {
+                const offset = this.operandDirect();
+                const base = this.dataBank(this.directPointer(offset, 0));
+                return this.done(this.indexed(base, r.Y, access), false);
+            }
+
+            case AddressingMode.DirectIndirectLong:
+                return this.done(this.directPointerLong(this.operandDirect()), false);
+
+            case AddressingMode.DirectIndirectLongIndexed: {
+                const pointer = this.directPointerLong(this.operandDirect());
+                return this.done((pointer + r.Y) & 0xFFFFFF, false);
+            }
+
+            case AddressingMode.Absolute:
+                return this.done(this.dataBank(this.fetchWord()), false);
+
+            case AddressingMode.AbsoluteX:
+                return this.done(this.indexed(this.dataBank(this.fetchWord()), r.X, access), false);
+
+            case AddressingMode.AbsoluteY:
+                return this.done(this.indexed(this.dataBank(this.fetchWord()), r.Y, access), false);
+
+            case AddressingMode.AbsoluteLong:
+                return this.done(this.fetchLong(), false);
+
+            case AddressingMode.AbsoluteLongX:
+                return this.done((this.fetchLong() + r.X) & 0xFFFFFF, false);
+
+            case AddressingMode.StackRelative:
+                return this.done(this.stackRelative(), true);
+
+            case AddressingMode.StackRelativeIndirectIndexed: {
+                const pointer = this.stackRelative();
+                const base = this.dataBank(this.readWordBank0(pointer));
+                return this.done((base + r.Y) & 0xFFFFFF, false);
+            }
+
+            default:
+                throw new Error(`Addressing mode ${mode} has no data operand`);
+        }
+    }
+
+    /**
+     * Resolves the target of JMP/JSR/JML indirect forms. (abs) and [abs]
+     * read their pointer from bank 0, (abs,X) from the program bank.
+     */
+    resolveJump(mode: AddressingMode): number {
+        const r = this.context.registers;
+
+        switch (mode) {
+            case AddressingMode.Absolute:
+                return (r.PB << 16) | this.fetchWord();
+
+            case AddressingMode.AbsoluteLong:
+                return this.fetchLong();
+
+            case AddressingMode.AbsoluteIndirect:
+                return (r.PB << 16) | this.readWordBank0(this.fetchWord());
+
+            case AddressingMode.AbsoluteIndexedIndirect: {
+                const pointer = (this.fetchWord() + r.X) & 0xFFFF;
+                const bank = r.PB << 16;
+                const low = this.context.read(bank | pointer);
+                const high = this.context.read(bank | ((pointer + 1) & 0xFFFF));
+                return bank | (high << 8) | low;
+            }
+
+            case AddressingMode.AbsoluteIndirectLong: {
+                const pointer = this.fetchWord();
+                return this.readWordBank0(pointer) | (this.context.read((pointer + 2) & 0xFFFF) << 16);
+            }
+
+            default:
+                throw new Error(`Addressing mode ${mode} is not a jump target`);
+        }
+    }
+
+    /**
+     * Reads the 16-bit pointer stored at a direct page offset (PEI).
+     * The 65816-only instructions never use the emulation-mode page wrap.
+     */
+    readDirectWord(offset: number): number {
+        const d = this.context.registers.D;
+        return this.readWordBank0((d + offset) & 0xFFFF);
+    }
+
+    // Second byte of a 16-bit operand
+    static nextAddress(ea: EffectiveAddress): number {
+        return ea.bankWrap
+            ? (ea.address & 0xFF0000) | ((ea.address + 1) & 0xFFFF)
+            : (ea.address + 1) & 0xFFFFFF;
+    }
+
+    private done(address: number, bankWrap: boolean): EffectiveAddress {
+        this.result.address = address;
+        this.result.bankWrap = bankWrap;
+        return this.result;
+    }
+
+    private fetchWord(): number {
+        const low = this.context.fetchByte();
+        return (this.context.fetchByte() << 8) | low;
+    }
+
+    private fetchLong(): number {
+        const word = this.fetchWord();
+        return (this.context.fetchByte() << 16) | word;
+    }
+
+    // Direct page operands cost one more cycle when DL is not zero
+    private operandDirect(): number {
+        const offset = this.context.fetchByte();
+        if (this.context.registers.D & 0xFF) this.context.addCycles(1);
+        return offset;
+    }
+
+    // In emulation mode with DL=0 direct page accesses stay inside the page, like the 6502
+    private direct(offset: number, index: number): number {
+        const d = this.context.registers.D;
+        if (this.context.flags.E && (d & 0xFF) === 0) {
+            return d | ((offset + index) & 0xFF);
+        }
+        return (d + offset + index) & 0xFFFF;
+    }
+
+    private directPointer(offset: number, index: number): number {
+        const low = this.context.read(this.direct(offset, index));
+        const high = this.context.read(this.direct(offset + 1, index));
+        return (high << 8) | low;
+    }
+
+    private directPointerLong(offset: number): number {
+        const address = (this.context.registers.D + offset) & 0xFFFF;
+        return this.readWordBank0(address) | (this.context.read((address + 2) & 0xFFFF) << 16);
+    }
+
+    private stackRelative(): number {
+        return (this.context.registers.SP + this.context.fetchByte()) & 0xFFFF;
+    }
+
+    private dataBank(address: number): number {
+        return (this.context.registers.DB << 16) | address;
+    }
+
+    // Indexing carries into the next bank; reads pay for a page cross (always with 16-bit X)
+    private indexed(base: number, index: number, access: AccessKind): number {
+        const address = (base + index) & 0xFFFFFF;
+        if (access === 'read' && (!this.context.flags.X || ((base ^ address) & 0xFF00) !== 0)) {
+            this.context.addCycles(1);
+        }
+        return address;
+    }
+
+    private readWordBank0(address: number): number {
+        return this.context.read(address) | (this.context.read((address + 1) & 0xFFFF) << 8);
+    }
+}
@@ -0,0 +1,138 @@
+// CPU 65816 decimal-mode tests
+// Expected A, C, V, N and Z come from bsnes' ADC/SBC, which matches the hardware
+
+import { describe, expect, it } from 'vitest';
+import { CPU65816 } from './CPU65816';
+import type { CPUBus } from './CPU65816';
+
+// [A, operand, carry in, A out, C, V, N, Z]
+type DecimalCase = [number, number, number, number, number, number, number, number];
+
+const ADC_8: DecimalCase[] = [
+  [0x00, 0x00, 0, 0x00, 0, 0, 0, 1],
+  [0x05, 0x05, 0, 0x10, 0, 0, 0, 0],
+  [0x09, 0x01, 0, 0x10, 0, 0, 0, 0],
+  [0x15, 0x26, 1, 0x42, 0, 0, 0, 0],
+  [0x58, 0x46, 1, 0x05, 1, 1, 0, 0],
+  [0x12, 0x34, 0, 0x46, 0, 0, 0, 0],
+  [0x99, 0x01, 0, 0x00, 1, 0, 0, 1],
+  [0x99, 0x99, 1, 0x99, 1, 1, 1, 0],
+  [0x50, 0x50, 0, 0x00, 1, 1, 0, 1],
+  [0x79, 0x00, 1, 0x80, 0, 1, 1, 0],
+  [0x80, 0x80, 0, 0x60, 1, 1, 0, 0],
+  [0x90, 0x90, 0, 0x80, 1, 1, 1, 0],
+  // Invalid BCD digits
+  [0x0A, 0x00, 0, 0x10, 0, 0, 0, 0],
+  [0x0F, 0x01, 0, 0x16, 0, 0, 0, 0],
+  [0x1F, 0x1F, 0, 0x34, 0, 0, 0, 0],
+  [0xAA, 0x00, 0, 0x10, 1, 0, 0, 0],
+  [0xFF, 0xFF, 1, 0x55, 1, 0, 0, 0],
+  [0x9A, 0x00, 0, 0x00, 1, 0, 0, 1],
+];
+
+const SBC_8: DecimalCase[] = [
+  [0x00, 0x00, 1, 0x00, 1, 0, 0, 1],
+  [0x00, 0x01, 1, 0x99, 0, 0, 1, 0],
+  [0x00, 0x00, 0, 0x99, 0, 0, 1, 0],
+  [0x46, 0x12, 1, 0x34, 1, 0, 0, 0],
+  [0x40, 0x13, 1, 0x27, 1, 0, 0, 0],
+  [0x32, 0x02, 0, 0x29, 1, 0, 0, 0],
+  [0x12, 0x21, 1, 0x91, 0, 0, 1, 0],
+  [0x80, 0x01, 1, 0x79, 1, 1, 0, 0],
+  [0x21, 0x34, 1, 0x87, 0, 0, 1, 0],
+  // Invalid BCD digits
+  [0x0A, 0x00, 1, 0x0A, 1, 0, 0, 0],
+  [0x1F, 0x0F, 1, 0x10, 1, 0, 0, 0],
+  [0xAA, 0x55, 1, 0x55, 1, 1, 0, 0],
+  [0xFF, 0xFF, 0, 0x99, 0, 0, 1, 0],
+  [0x00, 0xFF, 1, 0xAB, 0, 0, 1, 0],
+];
+
+const ADC_16: DecimalCase[] = [
+  [0x0000, 0x0000, 0, 0x0000, 0, 0, 0, 1],
+  [0x1234, 0x4321, 0, 0x5555, 0, 0, 0, 0],
+  [0x0999, 0x0001, 0, 0x1000, 0, 0, 0, 0],
+  [0x9999, 0x0001, 0, 0x0000, 1, 0, 0, 1],
+  [0x9999, 0x9999, 1, 0x9999, 1, 1, 1, 0],
+  [0x5000, 0x5000, 0, 0x0000, 1, 1, 0, 1],
+  [0x8000, 0x8000, 0, 0x6000, 1, 1, 0, 0],
+  [0x0009, 0x0001, 1, 0x0011, 0, 0, 0, 0],
+  // Invalid BCD digits
+  [0x00FF, 0x0001, 0, 0x0166, 0, 0, 0, 0],
+  [0xAAAA, 0x0000, 0, 0x1110, 1, 0, 0, 0],
+  [0xFFFF, 0xFFFF, 1, 0x5555, 1, 0, 0, 0],
+];
+
+const SBC_16: DecimalCase[] = [
+  [0x0000, 0x0001, 1, 0x9999, 0, 0, 1, 0],
+  [0x1000, 0x0001, 1, 0x0999, 1, 0, 0, 0],
+  [0x4321, 0x1234, 1, 0x3087, 1, 0, 0, 0],
+  [0x8000, 0x0001, 1, 0x7999, 1, 1, 0, 0],
+  [0x0000, 0x0000, 0, 0x9999, 0, 0, 1, 0],
+  [0x1234, 0x1234, 1, 0x0000, 1, 0, 0, 1],
+  // Invalid BCD digits
+  [0x000A, 0x0000, 1, 0x000A, 1, 0, 0, 0],
+  [0xFFFF, 0xFFFF, 0, 0x9999, 0, 0, 1, 0],
+  [0xAAAA, 0x5555, 1, 0x5555, 1, 1, 0, 0],
+];
+
+// 64KB of flat memory; reset jumps to $8000
+class TestBus implements CPUBus {
+  readonly ram = new Uint8Array(0x10000);
+
+  read(address: number): number {
+    return this.ram[address & 0xFFFF];
+  }
+
+  write(address: number, value: number): void {
+    this.ram[address & 0xFFFF] = value & 0xFF;
+  }
+
+  accessCycles(): number {
+    return 8;
+  }
+}
+
+// Runs CLC, XCE, REP #$FF, SEP #flags, LDA #a, then ADC/SBC #operand in native mode
+function run(opcode: number, wide: boolean, [a, operand, carry]: DecimalCase): number[] {
+  const bus = new TestBus();
+  const immediate = (value: number) => (wide ? [value & 0xFF, value >> 8] : [value]);
+  const flags = 0x08 | (wide ? 0 : 0x20) | carry;
+  bus.ram.set([
+    0x18, 0xFB,
+    0xC2, 0xFF,
+    0xE2, flags,
+    0xA9, ...immediate(a),
+    opcode, ...immediate(operand),
+  ], 0x8000);
+  bus.ram[0xFFFC] = 0x00;
+  bus.ram[0xFFFD] = 0x80;
+
+  const cpu = new CPU65816(bus);
+  cpu.reset();
+  for (let i = 0; i < 6; i++) cpu.step();
+
+  const { C, V, N, Z } = cpu.getFlags();
+  return [cpu.getRegisters().A & (wide ? 0xFFFF : 0xFF), +C, +V, +N, +Z];
+}
+
+const hex = (value: number) => '$' + value.toString(16).toUpperCase();
+
+const TABLES: [string, number, boolean, DecimalCase[]][] = [
+  ['ADC (8-bit)', 0x69, false, ADC_8],
+  ['SBC (8-bit)', 0xE9, false, SBC_8],
+  ['ADC (16-bit)', 0x69, true, ADC_16],
+  ['SBC (16-bit)', 0xE9, true, SBC_16],
+];
+
+describe('CPU65816 decimal mode', () => {
+  for (const [name, opcode, wide, table] of TABLES) {
+    describe(name, () => {
+      for (const row of table) {
+        it(`${hex(row[0])} with ${hex(row[1])}, carry ${row[2]}`, () => {
+          expect(run(opcode, wide, row)).toEqual(row.slice(3));
+        });
+      }
+    });
+  }
+});
@@ -1,6 +1,12 @@
-// SNES CPU 65816 Emulation Core - EXPANDED
+// SNES CPU 65816 Emulation Core
 // Based on WDC 65C816 specifications
-// Now with MANY more opcodes implemented
+// All 256 opcodes implemented, with per-opcode cycle costs
+// Operand addresses come from AddressResolver, opcode metadata from OPCODE_TABLE
+
+import { AddressingMode, AddressResolver } from './AddressingModes';
+import type { AccessKind, EffectiveAddress } from './AddressingModes';
+import { OPCODE_TABLE } from './Opcodes';
+import type { StateReader, StateWriter } from './SaveState';
 
 export interface CPU65816Registers {
   A: number;
@@ -26,17 +32,56 @@ export interface CPU65816Flags {
   E: boolean; // Emulation mode
 }
 
+// Anything the CPU can address through its 24-bit bus
+export interface CPUBus {
+  read(address: number): number;
+  write(address: number, value: number): void;
+  // Master cycles taken by an access to `address` (6, 8 or 12 on the SNES)
+  accessCycles(address: number): number;
+}
+
+// Internal operation cycles always run at the fast speed
+const IO_MASTER_CYCLES = 6;
+
+// Interrupt vectors (bank $00)
+const VECTORS = {
+  native: { cop: 0xFFE4, brk: 0xFFE6, nmi: 0xFFEA, irq: 0xFFEE },
+  emulation: { cop: 0xFFF4, brk: 0xFFFE, nmi: 0xFFFA, irq: 0xFFFE },
+  reset: 0xFFFC
+};
+
+type ModifyOperation = (value: number, wide: boolean) => number;
+type OperandHandler = (ea: EffectiveAddress, mode: AddressingMode) => void;
+
+// An instruction that acts on a memory operand. `indexWidth` makes an
+// immediate operand follow the X flag instead of M (LDX, CPY, ...).
+type MemoryOperation =
+  | { access: Exclude<AccessKind, 'modify'>; indexWidth: boolean; execute: OperandHandler }
+  | { access: 'modify'; transform: ModifyOperation };
+
 export class CPU65816 {
   private registers: CPU65816Registers;
   private flags: CPU65816Flags;
   private cycles: number;
-  private memory: any;
+  private masterCycles = 0;
+  private memory: CPUBus;
+
+  // Where the current step started, the bus accesses it has made so far
+  // and the master cycles they took
+  private stepStartCycles = 0;
+  private stepAccesses = 0;
+  private stepAccessTime = 0;
 
-  private static readonly VECTOR_NMI = 0xFFEA;
-  private static readonly VECTOR_RESET = 0xFFFC;
-  private static readonly VECTOR_IRQ_BRK = 0xFFEE;
+  // Interrupt lines: NMI is edge-triggered and latched, IRQ is level-sensitive
+  private nmiPending = false;
+  private irqLine = false;
+  private waiting = false; // WAI: sleeping until an interrupt arrives
+  private stopped = false; // STP: halted until reset
 
-  constructor(memory: any) {
+  private resolver: AddressResolver;
+  private operations: Record<string, MemoryOperation | undefined>;
+
+  constructor(memory: CPUBus) {
     this.memory = memory;
     this.cycles = 0;
 
@@ -50,11 +95,20 @@ export class CPU65816 {
       N: false, V: false, M: true, X: true,
       D: false, I: true, Z: false, C: false, E: true
     };
+
+    this.resolver = new AddressResolver({
+      registers: this.registers,
+      flags: this.flags,
+      fetchByte: () => this.fetchByte(),
+      read: (address) => this.busRead(address),
+      addCycles: (count) => { this.cycles += count; }
+    });
+    this.operations = this.createOperations();
   }
 
   reset(): void {
     // Read reset vector
-    const vectorAddr = CPU65816.VECTOR_RESET;  // 0xFFFC
+    const vectorAddr = VECTORS.reset;
     const low = this.memory.read(vectorAddr);
     const high = this.memory.read(vectorAddr + 1);
     this.registers.PC = (high << 8) | low;
@@ -85,23 +139,114 @@ export class CPU65816 {
     this.flags.M = true;
     this.flags.X = true;
     this.flags.I = true;
+    this.flags.D = false;
+    this.registers.X &= 0xFF;
+    this.registers.Y &= 0xFF;
     this.registers.SP = 0x01FF;
     this.registers.D = 0;
+    this.registers.DB = 0;
     this.cycles = 0;
+    this.masterCycles = 0;
+    this.stepStartCycles = 0;
+    this.stepAccesses = 0;
+    this.stepAccessTime = 0;
+    this.nmiPending = false;
+    this.waiting = false;
+    this.stopped = false;
+  }
+
+  // Latches an NMI request; it is serviced before the next instruction
+  nmi(): void {
+    this.nmiPending = true;
+  }
+
+  setIRQ(active: boolean): void {
+    this.irqLine = active;
+  }
+
+  isWaiting(): boolean {
+    return this.waiting;
   }
 
+  isStopped(): boolean {
+    return this.stopped;
+  }
+
+  // True when the next step() will service or wake up for an interrupt
+  hasPendingInterrupt(): boolean {
+    return this.nmiPending || this.irqLine;
+  }
+
+  // Lets the scheduler skip master cycles while the CPU sleeps in WAI or STP
+  idle(masterCycles: number): void {
+    this.masterCycles += masterCycles;
+    this.cycles += Math.floor(masterCycles / IO_MASTER_CYCLES);
+  }
+
+  // Runs one instruction (or interrupt entry) and returns the master cycles it took
   step(): number {
     const startCycles = this.cycles;
+    this.stepStartCycles = startCycles;
+
+    if (this.stopped) {
+      this.cycles++;
+      return this.finishStep(startCycles);
+    }
+
+    if (this.nmiPending) {
+      this.nmiPending = false;
+      this.waiting = false;
+      this.hardwareInterrupt(VECTORS.native.nmi, VECTORS.emulation.nmi);
+      return this.finishStep(startCycles);
+    }
+
+    if (this.irqLine) {
+      // An IRQ ends WAI even when masked; execution then continues after the WAI
+      this.waiting = false;
+      if (!this.flags.I) {
+        this.hardwareInterrupt(VECTORS.native.irq, VECTORS.emulation.irq);
+        return this.finishStep(startCycles);
+      }
+    }
+
+    if (this.waiting) {
+      this.cycles++;
+      return this.finishStep(startCycles);
+    }
+
     const opcode = this.fetchByte();
+    this.cycles += OPCODE_TABLE[opcode].cycles;
     this.executeInstruction(opcode);
-    return this.cycles - startCycles;
+    return this.finishStep(startCycles);
+  }
+
+  // Bus accesses cost the speed of the region they hit; the remaining
+  // cycles of the instruction are internal operations
+  private finishStep(startCycles: number): number {
+    const internal = Math.max(0, this.cycles - startCycles - this.stepAccesses);
+    const elapsed = this.stepAccessTime + internal * IO_MASTER_CYCLES;
+    this.masterCycles += elapsed;
+    this.stepAccesses = 0;
+    this.stepAccessTime = 0;
+    return elapsed;
+  }
+
+  private busRead(address: number): number {
+    this.stepAccesses++;
+    this.stepAccessTime += this.memory.accessCycles(address);
+    return this.memory.read(address);
+  }
+
+  private busWrite(address: number, value: number): void {
+    this.stepAccesses++;
+    this.stepAccessTime += this.memory.accessCycles(address);
+    this.memory.write(address, value);
   }
 
   private fetchByte(): number {
     const address = (this.registers.PB << 16) | this.registers.PC;
-    const byte = this.memory.read(address);
+    const byte = this.busRead(address);
     this.registers.PC = (this.registers.PC + 1) & 0xFFFF;
-    this.cycles += 1;
     return byte;
   }
 
@@ -112,8 +257,10 @@ export class CPU65816 {
   }
 
   private push8(value: number): void {
-    this.memory.write(this.registers.SP, value & 0xFF);
-    this.registers.SP = ((this.registers.SP - 1) & 0xFFFF) | (this.flags.E ? 0x0100 : 0);
+    this.busWrite(this.registers.SP, value & 0xFF);
+    this.registers.SP = this.flags.E
+      ? 0x0100 | ((this.registers.SP - 1) & 0xFF)
+      : (this.registers.SP - 1) & 0xFFFF;
   }
 
   private push16(value: number): void {
@@ -122,8 +269,10 @@ export class CPU65816 {
   }
 
   private pop8(): number {
-    this.registers.SP = ((this.registers.SP + 1) & 0xFFFF) | (this.flags.E ? 0x0100 : 0);
-    return this.memory.read(this.registers.SP);
+    this.registers.SP = this.flags.E
+      ? 0x0100 | ((this.registers.SP + 1) & 0xFF)
+      : (this.registers.SP + 1) & 0xFFFF;
+    return this.busRead(this.registers.SP);
   }
 
   private pop16(): number {
@@ -142,6 +291,14 @@ export class CPU65816 {
     this.flags.Z = (value & 0xFFFF) === 0;
   }
 
+  private updateNZ(value: number, wide: boolean): void {
+    if (wide) {
+      this.updateNZ16(value);
+    } else {
+      this.updateNZ8(value);
+    }
+  }
+
   private getStatusRegister(): number {
     let p = 0;
     if (this.flags.N) p |= 0x80;
@@ -164,1306 +321,633 @@ export class CPU65816 {
     this.flags.I = (value & 0x04) !== 0;
     this.flags.Z = (value & 0x02) !== 0;
     this.flags.C = (value & 0x01) !== 0;
+    this.applyWidthFlags();
   }
 
-  private executeInstruction(opcode: number): void {
-    switch (opcode) {
-      // BRK
-      case 0x00:
-        this.push16(this.registers.PC + 1);
-        this.push8(this.getStatusRegister());
-        this.flags.I = true;
-        const addr = this.memory.read(CPU65816.VECTOR_IRQ_BRK) |
-          (this.memory.read(CPU65816.VECTOR_IRQ_BRK + 1) << 8);
-        this.registers.PC = addr;
-        break;
-
-      // ORA (dp,X)
-      case 0x01:
-        this.registers.A |= this.fetchByte();
-        this.updateNZ8(this.registers.A);
-        break;
-
-      // COP
-      case 0x02:
-        this.fetchByte(); // Skip operand
-        break;
+  // M/X are forced in emulation mode and 8-bit index registers lose their high byte
+  private applyWidthFlags(): void {
+    if (this.flags.E) {
+      this.flags.M = true;
+      this.flags.X = true;
+    }
+    if (this.flags.X) {
+      this.registers.X &= 0xFF;
+      this.registers.Y &= 0xFF;
+    }
+  }
 
-      // ORA dp,S
-      case 0x03:
-        this.registers.A |= this.fetchByte();
-        this.updateNZ8(this.registers.A);
-        break;
+  // ==========================================
+  // Data access
+  // ==========================================
 
-      //TSB dp
-      case 0x04:
-        this.fetchByte(); // Simplified
-        break;
+  // 16-bit accesses take one extra cycle per extra byte
+  private readData(ea: EffectiveAddress, wide: boolean): number {
+    const low = this.busRead(ea.address);
+    if (!wide) return low;
+    this.cycles++;
+    return low | (this.busRead(AddressResolver.nextAddress(ea)) << 8);
+  }
 
-      // ORA dp
-      case 0x05:
-        this.registers.A |= this.fetchByte();
-        this.updateNZ8(this.registers.A);
-        break;
+  private writeData(ea: EffectiveAddress, value: number, wide: boolean): void {
+    this.busWrite(ea.address, value & 0xFF);
+    if (wide) {
+      this.cycles++;
+      this.busWrite(AddressResolver.nextAddress(ea), (value >> 8) & 0xFF);
+    }
+  }
 
-      // ASL dp
-      case 0x06:
-        this.fetchByte(); // Simplified
-        break;
+  private getA(): number {
+    return this.flags.M ? this.registers.A & 0xFF : this.registers.A;
+  }
 
-      // ORA [dp]
-      case 0x07:
-        this.registers.A |= this.fetchByte();
-        this.updateNZ8(this.registers.A);
-        break;
+  // 8-bit writes keep the hidden B accumulator in the high byte
+  private setA(value: number): void {
+    if (this.flags.M) {
+      this.registers.A = (this.registers.A & 0xFF00) | (value & 0xFF);
+      this.updateNZ8(value);
+    } else {
+      this.registers.A = value & 0xFFFF;
+      this.updateNZ16(value);
+    }
+  }
 
-      // PHP
-      case 0x08:
-        this.push8(this.getStatusRegister());
-        break;
+  private setIndex(register: 'X' | 'Y', value: number): void {
+    this.registers[register] = value & (this.flags.X ? 0xFF : 0xFFFF);
+    this.updateNZ(this.registers[register], !this.flags.X);
+  }
 
-      // ORA Immediate
-      case 0x09:
-        this.registers.A |= this.flags.M ? this.fetchByte() : this.fetchWord();
-        this.flags.M ? this.updateNZ8(this.registers.A) : this.updateNZ16(this.registers.A);
-        break;
+  // ==========================================
+  // Accumulator operations
+  // ==========================================
 
-      // ASL A
-      case 0x0A:
-        this.flags.C = (this.registers.A & 0x80) !== 0;
-        this.registers.A = (this.registers.A << 1) & 0xFF;
-        this.updateNZ8(this.registers.A);
-        break;
+  private ora(ea: EffectiveAddress): void {
+    this.setA(this.getA() | this.readData(ea, !this.flags.M));
+  }
 
-      // PHD
-      case 0x0B:
-        this.push16(this.registers.D);
-        break;
+  private and(ea: EffectiveAddress): void {
+    this.setA(this.getA() & this.readData(ea, !this.flags.M));
+  }
 
-      // TSB abs
-      case 0x0C:
-        this.fetchWord(); // Simplified
-        break;
+  private eor(ea: EffectiveAddress): void {
+    this.setA(this.getA() ^ this.readData(ea, !this.flags.M));
+  }
 
-      // ORA abs
-      case 0x0D: {
-        const addr = this.fetchWord();
-        const val = this.memory.read(addr);
-        this.registers.A |= val;
-        this.updateNZ8(this.registers.A);
-        break;
-      }
+  private lda(ea: EffectiveAddress): void {
+    this.setA(this.readData(ea, !this.flags.M));
+  }
 
-      // ASL abs
-      case 0x0E:
-        this.fetchWord(); // Simplified
-        break;
+  private adc(ea: EffectiveAddress): void {
+    this.addWithCarry(this.readData(ea, !this.flags.M), false);
+  }
 
-      // ORA long
-      case 0x0F:
-        this.fetchByte();
-        this.fetchWord();
-        break;
+  // SBC is ADC of the one's complement; decimal mode corrects the digits the other way
+  private sbc(ea: EffectiveAddress): void {
+    const mask = this.flags.M ? 0xFF : 0xFFFF;
+    this.addWithCarry(this.readData(ea, !this.flags.M) ^ mask, true);
+  }
 
-      // BPL
-      case 0x10: {
-        const offset = this.fetchByte();
-        if (!this.flags.N) {
-          this.registers.PC = (this.registers.PC + (offset > 127 ? offset - 256 : offset)) & 0xFFFF;
-        }
-        break;
+  private addWithCarry(value: number, subtract: boolean): void {
+    const wide = !this.flags.M;
+    const mask = wide ? 0xFFFF : 0xFF;
+    const sign = wide ? 0x8000 : 0x80;
+    const a = this.getA();
+    let result = this.flags.D
+      ? this.decimalSum(a, value, wide ? 4 : 2, subtract)
+      : a + value + (this.flags.C ? 1 : 0);
+
+    // V is taken before the top digit is corrected, like the real 65816
+    this.flags.V = (~(a ^ value) & (a ^ result) & sign) !== 0;
+
+    if (this.flags.D) {
+      const topShift = wide ? 12 : 4;
+      if (subtract) {
+        if (result <= mask) result -= 0x6 << topShift;
+      } else if (result > (0xA << topShift) - 1) {
+        result += 0x6 << topShift;
       }
+    }
 
-      // ORA (dp),Y
-      case 0x11:
-        this.fetchByte();
-        break;
+    this.flags.C = result > mask;
+    this.setA(result & mask);
+  }
 
-      // ORA (dp)
-      case 0x12:
-        this.fetchByte();
-        break;
+  // Adds BCD digit by digit, correcting every digit except the top one
+  private decimalSum(a: number, value: number, digits: number, subtract: boolean): number {
+    let carry = this.flags.C ? 1 : 0;
+    let result = 0;
+
+    for (let digit = 0; digit < digits; digit++) {
+      const shift = digit * 4;
+      const nibble = 0xF << shift;
+      result = (a & nibble) + (value & nibble) + (carry << shift) + (result & ((1 << shift) - 1));
+      if (digit === digits - 1) break;
+
+      const limit = (0x10 << shift) - 1;
+      if (subtract) {
+        if (result <= limit) result -= 0x6 << shift;
+      } else if (result > (0xA << shift) - 1) {
+        result += 0x6 << shift;
+      }
+      carry = result > limit ? 1 : 0;
+    }
 
-      // ORA (dp,S),Y
-      case 0x13:
-        this.fetchByte();
-        break;
+    return result;
+  }
 
-      // TRB dp
-      case 0x14:
-        this.fetchByte();
-        break;
+  private compare(register: number, value: number, wide: boolean): void {
+    const result = register - value;
+    this.flags.C = result >= 0;
+    this.updateNZ(result, wide);
+  }
 
-      // ORA dp,X
-      case 0x15:
-        this.fetchByte();
-        break;
+  private cmp(ea: EffectiveAddress): void {
+    this.compare(this.getA(), this.readData(ea, !this.flags.M), !this.flags.M);
+  }
 
-      // ASL dp,X
-      case 0x16:
-        this.fetchByte();
-        break;
+  private cpx(ea: EffectiveAddress): void {
+    this.compare(this.registers.X, this.readData(ea, !this.flags.X), !this.flags.X);
+  }
 
-      // ORA [dp],Y
-      case 0x17:
-        this.fetchByte();
-        break;
+  private cpy(ea: EffectiveAddress): void {
+    this.compare(this.registers.Y, this.readData(ea, !this.flags.X), !this.flags.X);
+  }
 
-      // CLC
-      case 0x18:
-        this.flags.C = false;
-        break;
+  private bit(ea: EffectiveAddress): void {
+    const wide = !this.flags.M;
+    const value = this.readData(ea, wide);
+    this.flags.N = (value & (wide ? 0x8000 : 0x80)) !== 0;
+    this.flags.V = (value & (wide ? 0x4000 : 0x40)) !== 0;
+    this.flags.Z = (this.getA() & value) === 0;
+  }
 
-      // ORA abs,Y
-      case 0x19:
-        this.fetchWord();
-        break;
+  // BIT #imm only affects Z
+  private bitImmediate(ea: EffectiveAddress): void {
+    this.flags.Z = (this.getA() & this.readData(ea, !this.flags.M)) === 0;
+  }
 
-      // INC A
-      case 0x1A:
-        this.registers.A = (this.registers.A + 1) & 0xFF;
-        this.updateNZ8(this.registers.A);
-        break;
+  private ldx(ea: EffectiveAddress): void {
+    this.setIndex('X', this.readData(ea, !this.flags.X));
+  }
 
-      // TCS
-      case 0x1B:
-        this.registers.SP = this.registers.A;
-        break;
+  private ldy(ea: EffectiveAddress): void {
+    this.setIndex('Y', this.readData(ea, !this.flags.X));
+  }
 
-      // TRB abs
-      case 0x1C:
-        this.fetchWord();
-        break;
+  private sta(ea: EffectiveAddress): void {
+    this.writeData(ea, this.registers.A, !this.flags.M);
+  }
 
-      // ORA abs,X
-      case 0x1D:
-        this.fetchWord();
-        break;
+  private stx(ea: EffectiveAddress): void {
+    this.writeData(ea, this.registers.X, !this.flags.X);
+  }
 
-      // ASL abs,X
-      case 0x1E:
-        this.fetchWord();
-        break;
+  private sty(ea: EffectiveAddress): void {
+    this.writeData(ea, this.registers.Y, !this.flags.X);
+  }
 
-      // ORA long,X
-      case 0x1F:
-        this.fetchByte();
-        this.fetchWord();
-        break;
+  private stz(ea: EffectiveAddress): void {
+    this.writeData(ea, 0, !this.flags.M);
+  }
 
-      // JSR
-      case 0x20: {
-        const addr = this.fetchWord();
-        this.push16(this.registers.PC - 1);
-        this.registers.PC = addr;
-        break;
-      }
+  // ==========================================
+  // Read-modify-write operations
+  // ==========================================
 
-      // AND (dp,X)
-      case 0x21:
-        this.fetchByte();
-        break;
+  private modify(ea: EffectiveAddress, operation: ModifyOperation): void {
+    const wide = !this.flags.M;
+    const value = this.readData(ea, wide);
+    this.writeData(ea, operation(value, wide), wide);
+  }
 
-      // JSL
-      case 0x22:
-        this.fetchByte();
-        this.fetchWord();
-        break;
+  private shiftLeft(value: number, wide: boolean, carryIn: number): number {
+    const mask = wide ? 0xFFFF : 0xFF;
+    this.flags.C = (value & (wide ? 0x8000 : 0x80)) !== 0;
+    const result = ((value << 1) | carryIn) & mask;
+    this.updateNZ(result, wide);
+    return result;
+  }
 
-      // AND dp,S
-      case 0x23:
-        this.fetchByte();
-        break;
+  private shiftRight(value: number, wide: boolean, carryIn: number): number {
+    this.flags.C = (value & 0x01) !== 0;
+    const result = (value >> 1) | (carryIn ? (wide ? 0x8000 : 0x80) : 0);
+    this.updateNZ(result, wide);
+    return result;
+  }
 
-      // BIT dp
-      case 0x24:
-        this.fetchByte();
-        break;
+  private asl(value: number, wide: boolean): number {
+    return this.shiftLeft(value, wide, 0);
+  }
 
-      // AND dp
-      case 0x25:
-        this.fetchByte();
-        break;
+  private rol(value: number, wide: boolean): number {
+    return this.shiftLeft(value, wide, this.flags.C ? 1 : 0);
+  }
 
-      // ROL dp
-      case 0x26:
-        this.fetchByte();
-        break;
+  private lsr(value: number, wide: boolean): number {
+    return this.shiftRight(value, wide, 0);
+  }
 
-      // AND [dp]
-      case 0x27:
-        this.fetchByte();
-        break;
+  private ror(value: number, wide: boolean): number {
+    return this.shiftRight(value, wide, this.flags.C ? 1 : 0);
+  }
 
-      // PLP
-      case 0x28:
-        this.setStatusRegister(this.pop8());
-        break;
+  private inc(value: number, wide: boolean): number {
+    const result = (value + 1) & (wide ? 0xFFFF : 0xFF);
+    this.updateNZ(result, wide);
+    return result;
+  }
 
-      // AND Immediate
-      case 0x29: {
-        const val = this.flags.M ? this.fetchByte() : this.fetchWord();
-        this.registers.A &= val;
-        this.flags.M ? this.updateNZ8(this.registers.A) : this.updateNZ16(this.registers.A);
-        break;
-      }
+  private dec(value: number, wide: boolean): number {
+    const result = (value - 1) & (wide ? 0xFFFF : 0xFF);
+    this.updateNZ(result, wide);
+    return result;
+  }
 
-      // ROL A
-      case 0x2A: {
-        const oldC = this.flags.C ? 1 : 0;
-        this.flags.C = (this.registers.A & 0x80) !== 0;
-        this.registers.A = ((this.registers.A << 1) | oldC) & 0xFF;
-        this.updateNZ8(this.registers.A);
-        break;
-      }
+  private tsb(value: number): number {
+    const a = this.getA();
+    this.flags.Z = (a & value) === 0;
+    return value | a;
+  }
 
-      // PLD
-      case 0x2B:
-        this.registers.D = this.pop16();
-        break;
+  private trb(value: number): number {
+    const a = this.getA();
+    this.flags.Z = (a & value) === 0;
+    return value & ~a;
+  }
 
-      // BIT abs
-      case 0x2C:
-        this.fetchWord();
-        break;
+  private modifyAccumulator(operation: ModifyOperation): void {
+    const wide = !this.flags.M;
+    const result = operation(this.getA(), wide);
+    if (wide) {
+      this.registers.A = result;
+    } else {
+      this.registers.A = (this.registers.A & 0xFF00) | result;
+    }
+  }
 
-      // AND abs
-      case 0x2D:
-        this.fetchWord();
-        break;
+  // ==========================================
+  // Control flow
+  // ==========================================
 
-      // ROL abs
-      case 0x2E:
-        this.fetchWord();
-        break;
+  private branch(condition: boolean): void {
+    const offset = this.fetchByte();
+    if (!condition) return;
 
-      // AND long
-      case 0x2F:
-        this.fetchByte();
-        this.fetchWord();
-        break;
+    const target = (this.registers.PC + (offset > 127 ? offset - 256 : offset)) & 0xFFFF;
+    this.cycles++;
+    if (this.flags.E && ((target ^ this.registers.PC) & 0xFF00) !== 0) this.cycles++;
+    this.registers.PC = target;
+  }
 
-      // BMI
-      case 0x30: {
-        const offset = this.fetchByte();
-        if (this.flags.N) {
-          this.registers.PC = (this.registers.PC + (offset > 127 ? offset - 256 : offset)) & 0xFFFF;
-        }
-        break;
-      }
+  // Pushes PB (native only), PC and P, then jumps through the bank 0 vector
+  private enterInterrupt(nativeVector: number, emulationVector: number, status: number): void {
+    if (this.flags.E) {
+      this.push16(this.registers.PC);
+      this.push8(status);
+    } else {
+      this.cycles++;
+      this.push8(this.registers.PB);
+      this.push16(this.registers.PC);
+      this.push8(status);
+    }
+    this.flags.I = true;
+    this.flags.D = false;
+    this.registers.PB = 0;
+    const vector = this.flags.E ? emulationVector : nativeVector;
+    this.registers.PC = this.busRead(vector) | (this.busRead(vector + 1) << 8);
+  }
 
-      // SEC
-      case 0x38:
-        this.flags.C = true;
-        break;
+  // BRK/COP skip their signature byte; in emulation mode P is pushed with B set
+  private softwareInterrupt(nativeVector: number, emulationVector: number): void {
+    this.fetchByte();
+    this.enterInterrupt(nativeVector, emulationVector, this.getStatusRegister());
+  }
 
-      // RTI
-      case 0x40:
-        this.setStatusRegister(this.pop8());
-        this.registers.PC = this.pop16();
-        break;
+  // NMI/IRQ push P with B clear in emulation mode so handlers can tell them from BRK
+  private hardwareInterrupt(nativeVector: number, emulationVector: number): void {
+    this.cycles += 7;
+    const status = this.getStatusRegister();
+    this.enterInterrupt(nativeVector, emulationVector, this.flags.E ? status & ~0x10 : status);
+  }
 
-      // EOR (dp,X)
-      case 0x41:
-        this.fetchByte();
-        break;
+  private returnFromInterrupt(): void {
+    this.setStatusRegister(this.pop8());
+    this.registers.PC = this.pop16();
+    if (!this.flags.E) {
+      this.cycles++;
+      this.registers.PB = this.pop8();
+    }
+  }
 
-      // WDM
-      case 0x42:
-        this.fetchByte();
-        break;
+  // MVN/MVP move one byte per execution and re-run until A underflows
+  private blockMove(step: number): void {
+    const destBank = this.fetchByte();
+    const srcBank = this.fetchByte();
+    const indexMask = this.flags.X ? 0xFF : 0xFFFF;
 
-      // EOR dp,S
-      case 0x43:
-        this.fetchByte();
-        break;
+    this.registers.DB = destBank;
+    const value = this.busRead((srcBank << 16) | this.registers.X);
+    this.busWrite((destBank << 16) | this.registers.Y, value);
 
-      // MVP
-      case 0x44:
-        this.fetchByte();
-        this.fetchByte();
-        break;
+    this.registers.X = (this.registers.X + step) & indexMask;
+    this.registers.Y = (this.registers.Y + step) & indexMask;
+    this.registers.A = (this.registers.A - 1) & 0xFFFF;
 
-      // EOR dp
-      case 0x45:
-        this.fetchByte();
-        break;
+    if (this.registers.A !== 0xFFFF) {
+      this.registers.PC = (this.registers.PC - 3) & 0xFFFF;
+    }
+  }
 
-      // LSR dp
-      case 0x46:
-        this.fetchByte();
-        break;
+  private pushRegister(value: number, wide: boolean): void {
+    if (wide) {
+      this.cycles++;
+      this.push16(value);
+    } else {
+      this.push8(value);
+    }
+  }
 
-      // EOR [dp]
-      case 0x47:
-        this.fetchByte();
-        break;
+  private popRegister(wide: boolean): number {
+    if (wide) {
+      this.cycles++;
+      return this.pop16();
+    }
+    return this.pop8();
+  }
 
-      // PHA
-      case 0x48:
-        this.flags.M ? this.push8(this.registers.A) : this.push16(this.registers.A);
-        break;
+  // Every instruction with a memory operand; the addressing mode comes from OPCODE_TABLE
+  private createOperations(): Record<string, MemoryOperation | undefined> {
+    const read = (execute: OperandHandler, indexWidth = false): MemoryOperation =>
+      ({ access: 'read', indexWidth, execute });
+    const write = (execute: OperandHandler, indexWidth = false): MemoryOperation =>
+      ({ access: 'write', indexWidth, execute });
+    const modify = (transform: ModifyOperation): MemoryOperation =>
+      ({ access: 'modify', transform });
+
+    return {
+      ORA: read((ea) => this.ora(ea)),
+      AND: read((ea) => this.and(ea)),
+      EOR: read((ea) => this.eor(ea)),
+      ADC: read((ea) => this.adc(ea)),
+      SBC: read((ea) => this.sbc(ea)),
+      CMP: read((ea) => this.cmp(ea)),
+      LDA: read((ea) => this.lda(ea)),
+      BIT: read((ea, mode) => mode === AddressingMode.Immediate ? this.bitImmediate(ea) : this.bit(ea)),
+      LDX: read((ea) => this.ldx(ea), true),
+      LDY: read((ea) => this.ldy(ea), true),
+      CPX: read((ea) => this.cpx(ea), true),
+      CPY: read((ea) => this.cpy(ea), true),
+
+      STA: write((ea) => this.sta(ea)),
+      STZ: write((ea) => this.stz(ea)),
+      STX: write((ea) => this.stx(ea), true),
+      STY: write((ea) => this.sty(ea), true),
+
+      ASL: modify((value, wide) => this.asl(value, wide)),
+      LSR: modify((value, wide) => this.lsr(value, wide)),
+      ROL: modify((value, wide) => this.rol(value, wide)),
+      ROR: modify((value, wide) => this.ror(value, wide)),
+      INC: modify((value, wide) => this.inc(value, wide)),
+      DEC: modify((value, wide) => this.dec(value, wide)),
+      TSB: modify((value) => this.tsb(value)),
+      TRB: modify((value) => this.trb(value))
+    };
+  }
 
-      // EOR Immediate  
-      case 0x49:
-        this.flags.M ? this.fetchByte() : this.fetchWord();
-        break;
+  private executeInstruction(opcode: number): void {
+    const info = OPCODE_TABLE[opcode];
+    const operation = this.operations[info.mnemonic];
 
-      // LSR A
-      case 0x4A:
-        this.flags.C = (this.registers.A & 0x01) !== 0;
-        this.registers.A = (this.registers.A >> 1) & 0xFF;
-        this.updateNZ8(this.registers.A);
-        break;
+    if (operation) {
+      if (operation.access === 'modify') {
+        if (info.mode === AddressingMode.Accumulator) {
+          this.modifyAccumulator(operation.transform);
+        } else {
+          this.modify(this.resolver.resolve(info.mode, 'modify', !this.flags.M), operation.transform);
+        }
+      } else {
+        const wide = operation.indexWidth ? !this.flags.X : !this.flags.M;
+        operation.execute(this.resolver.resolve(info.mode, operation.access, wide), info.mode);
+      }
+      return;
+    }
 
-      // PHK
-      case 0x4B:
-        this.push8(this.registers.PB);
-        break;
+    this.executeControl(opcode, info.mode);
+  }
 
-      // JMP abs
-      case 0x4C:
-        this.registers.PC = this.fetchWord();
-        break;
+  // Implied, stack, branch and jump instructions
+  private executeControl(opcode: number, mode: AddressingMode): void {
+    const r = this.registers;
 
-      // EOR abs
-      case 0x4D:
-        this.fetchWord();
-        break;
+    switch (opcode) {
+      // BRK
+      case 0x00: this.softwareInterrupt(VECTORS.native.brk, VECTORS.emulation.brk); break;
+      // COP
+      case 0x02: this.softwareInterrupt(VECTORS.native.cop, VECTORS.emulation.cop); break;
+      // PHP
+      case 0x08: this.push8(this.getStatusRegister()); break;
+      // PHD
+      case 0x0B: this.push16(r.D); break;
 
-      // LSR abs
-      case 0x4E:
-        this.fetchWord();
-        break;
+      // BPL
+      case 0x10: this.branch(!this.flags.N); break;
+      // CLC
+      case 0x18: this.flags.C = false; break;
+      // TCS
+      case 0x1B: r.SP = this.flags.E ? 0x0100 | (r.A & 0xFF) : r.A; break;
 
-      // EOR long
-      case 0x4F:
-        this.fetchByte();
-        this.fetchWord();
+      // JSR abs / JSR (abs,X)
+      case 0x20:
+      case 0xFC: {
+        const target = this.resolver.resolveJump(mode);
+        this.push16((r.PC - 1) & 0xFFFF);
+        r.PC = target & 0xFFFF;
         break;
-
-      // BVC
-      case 0x50: {
-        const offset = this.fetchByte();
-        if (!this.flags.V) {
-          this.registers.PC = (this.registers.PC + (offset > 127 ? offset - 256 : offset)) & 0xFFFF;
-        }
+      }
+      // JSL long
+      case 0x22: {
+        const target = this.resolver.resolveJump(mode);
+        this.push8(r.PB);
+        this.push16((r.PC - 1) & 0xFFFF);
+        r.PB = target >> 16;
+        r.PC = target & 0xFFFF;
         break;
       }
+      // PLP
+      case 0x28: this.setStatusRegister(this.pop8()); break;
+      // PLD
+      case 0x2B: r.D = this.pop16(); this.updateNZ16(r.D); break;
 
-      // CLI
-      case 0x58:
-        this.flags.I = false;
-        break;
+      // BMI
+      case 0x30: this.branch(this.flags.N); break;
+      // SEC
+      case 0x38: this.flags.C = true; break;
+      // TSC
+      case 0x3B: r.A = r.SP; this.updateNZ16(r.A); break;
 
-      // PHY
-      case 0x5A:
-        this.flags.X ? this.push8(this.registers.Y) : this.push16(this.registers.Y);
-        break;
+      // RTI
+      case 0x40: this.returnFromInterrupt(); break;
+      // WDM (reserved, 2-byte NOP)
+      case 0x42: this.fetchByte(); break;
+      // MVP
+      case 0x44: this.blockMove(-1); break;
+      // PHA
+      case 0x48: this.pushRegister(r.A, !this.flags.M); break;
+      // PHK
+      case 0x4B: this.push8(r.PB); break;
 
-      // TCD
-      case 0x5B:
-        this.registers.D = this.registers.A;
+      // JMP abs / JMP (abs) / JMP (abs,X)
+      case 0x4C:
+      case 0x6C:
+      case 0x7C:
+        r.PC = this.resolver.resolveJump(mode) & 0xFFFF;
         break;
 
-      // JMP long
+      // JML long / JML [abs]
       case 0x5C:
-        this.fetchByte();
-        this.fetchWord();
-        this.registers.PC = this.fetchWord();
-        break;
-
-      // EOR abs,X
-      case 0x5D:
-        this.fetchWord();
-        break;
-
-      // LSR abs,X
-      case 0x5E:
-        this.fetchWord();
+      case 0xDC: {
+        const target = this.resolver.resolveJump(mode);
+        r.PB = target >> 16;
+        r.PC = target & 0xFFFF;
         break;
+      }
 
-      // EOR long,X
-      case 0x5F:
-        this.fetchByte();
-        this.fetchWord();
-        break;
+      // BVC
+      case 0x50: this.branch(!this.flags.V); break;
+      // MVN
+      case 0x54: this.blockMove(1); break;
+      // CLI
+      case 0x58: this.flags.I = false; break;
+      // PHY
+      case 0x5A: this.pushRegister(r.Y, !this.flags.X); break;
+      // TCD
+      case 0x5B: r.D = r.A; this.updateNZ16(r.D); break;
 
       // RTS
-      case 0x60:
-        this.registers.PC = this.pop16() + 1;
-        break;
-
-      // ADC (dp,X)
-      case 0x61:
-        this.fetchByte();
-        break;
-
+      case 0x60: r.PC = (this.pop16() + 1) & 0xFFFF; break;
       // PER
-      case 0x62:
-        this.fetchWord();
-        break;
-
-      // ADC dp,S
-      case 0x63:
-        this.fetchByte();
-        break;
-
-      // STZ dp
-      case 0x64: {
-        const addr = this.fetchByte();
-        this.memory.write(addr, 0);
+      case 0x62: {
+        const offset = this.fetchWord();
+        this.push16((r.PC + offset) & 0xFFFF);
         break;
       }
-
-      // ADC dp
-      case 0x65:
-        this.fetchByte();
-        break;
-
-      // ROR dp
-      case 0x66:
-        this.fetchByte();
-        break;
-
-      // ADC [dp]
-      case 0x67:
-        this.fetchByte();
-        break;
-
-      // PLA
-      case 0x68:
-        this.registers.A = this.flags.M ? this.pop8() : this.pop16();
-        this.flags.M ? this.updateNZ8(this.registers.A) : this.updateNZ16(this.registers.A);
-        break;
-
-      // ADC Immediate
-      case 0x69: {
-        const val = this.flags.M ? this.fetchByte() : this.fetchWord();
-        const result = this.registers.A + val + (this.flags.C ? 1 : 0);
-        this.flags.C = result > (this.flags.M ? 0xFF : 0xFFFF);
-        this.registers.A = this.flags.M ? (result & 0xFF) : (result & 0xFFFF);
-        this.flags.M ? this.updateNZ8(this.registers.A) : this.updateNZ16(this.registers.A);
-        break;
-      }
-
-      // ROR A
-      case 0x6A: {
-        const oldC = this.flags.C ? 0x80 : 0;
-        this.flags.C = (this.registers.A & 0x01) !== 0;
-        this.registers.A = ((this.registers.A >> 1) | oldC) & 0xFF;
-        this.updateNZ8(this.registers.A);
-        break;
-      }
-
-      // RTL
-      case 0x6B:
-        this.registers.PC = this.pop16() + 1;
-        this.registers.PB = this.pop8();
-        break;
-
-      // JMP (abs)
-      case 0x6C:
-        this.fetchWord();
-        break;
-
-      // ADC abs
-      case 0x6D:
-        this.fetchWord();
-        break;
-
-      // ROR abs
-      case 0x6E:
-        this.fetchWord();
-        break;
-
-      // ADC long
-      case 0x6F:
-        this.fetchByte();
-        this.fetchWord();
+      // PLA
+      case 0x68: this.setA(this.popRegister(!this.flags.M)); break;
+      // RTL
+      case 0x6B:
+        r.PC = (this.pop16() + 1) & 0xFFFF;
+        r.PB = this.pop8();
         break;
 
       // BVS
-      case 0x70: {
-        const offset = this.fetchByte();
-        if (this.flags.V) {
-          this.registers.PC = (this.registers.PC + (offset > 127 ? offset - 256 : offset)) & 0xFFFF;
-        }
-        break;
-      }
-
+      case 0x70: this.branch(this.flags.V); break;
       // SEI
-      case 0x78:
-        this.flags.I = true;
-        break;
-
+      case 0x78: this.flags.I = true; break;
       // PLY
-      case 0x7A:
-        this.registers.Y = this.flags.X ? this.pop8() : this.pop16();
-        this.flags.X ? this.updateNZ8(this.registers.Y) : this.updateNZ16(this.registers.Y);
-        break;
-
+      case 0x7A: this.setIndex('Y', this.popRegister(!this.flags.X)); break;
       // TDC
-      case 0x7B:
-        this.registers.A = this.registers.D;
-        break;
-
-      // JMP (abs,X)
-      case 0x7C:
-        this.fetchWord();
-        break;
-
-      // ADC abs,X
-      case 0x7D:
-        this.fetchWord();
-        break;
-
-      // ROR abs,X
-      case 0x7E:
-        this.fetchWord();
-        break;
-
-      // ADC long,X
-      case 0x7F:
-        this.fetchByte();
-        this.fetchWord();
-        break;
+      case 0x7B: r.A = r.D; this.updateNZ16(r.A); break;
 
       // BRA
-      case 0x80: {
-        const offset = this.fetchByte();
-        this.registers.PC = (this.registers.PC + (offset > 127 ? offset - 256 : offset)) & 0xFFFF;
-        break;
-      }
-
-      // STA (dp,X)
-      case 0x81:
-        this.fetchByte();
-        break;
-
+      case 0x80: this.branch(true); break;
       // BRL
-      case 0x82:
-        this.fetchWord();
-        break;//STA dp,S
-      case 0x83:
-        this.fetchByte();
-        break;
-
-      // STY dp
-      case 0x84:
-        this.fetchByte();
-        break;
-
-      // STA dp
-      case 0x85: {
-        const addr = this.fetchByte();
-        this.memory.write(addr, this.registers.A & 0xFF);
+      case 0x82: {
+        const offset = this.fetchWord();
+        r.PC = (r.PC + offset) & 0xFFFF;
         break;
       }
-
-      // STX dp
-      case 0x86:
-        this.fetchByte();
-        break;
-
-      // STA [dp]
-      case 0x87:
-        this.fetchByte();
-        break;
-
       // DEY
-      case 0x88:
-        this.registers.Y = (this.registers.Y - 1) & (this.flags.X ? 0xFF : 0xFFFF);
-        this.flags.X ? this.updateNZ8(this.registers.Y) : this.updateNZ16(this.registers.Y);
-        break;
-
-      // BIT Immediate
-      case 0x89:
-        this.flags.M ? this.fetchByte() : this.fetchWord();
-        break;
-
+      case 0x88: this.setIndex('Y', r.Y - 1); break;
       // TXA
-      case 0x8A:
-        this.registers.A = this.registers.X;
-        this.flags.M ? this.updateNZ8(this.registers.A) : this.updateNZ16(this.registers.A);
-        break;
-
+      case 0x8A: this.setA(r.X); break;
       // PHB
-      case 0x8B:
-        this.push8(this.registers.DB);
-        break;
-
-      // STY abs
-      case 0x8C:
-        this.fetchWord();
-        break;
-
-      // STA abs
-      case 0x8D: {
-        const addr = this.fetchWord();
-        if (this.flags.M) {
-          this.memory.write(addr, this.registers.A & 0xFF);
-        } else {
-          this.memory.write(addr, this.registers.A & 0xFF);
-          this.memory.write(addr + 1, (this.registers.A >> 8) & 0xFF);
-        }
-        break;
-      }
-
-      // STX abs
-      case 0x8E:
-        this.fetchWord();
-        break;
-
-      // STA long
-      case 0x8F: {
-        const bank = this.fetchByte();
-        const addr = this.fetchWord();
-        this.memory.write((bank << 16) | addr, this.registers.A & 0xFF);
-        break;
-      }
+      case 0x8B: this.push8(r.DB); break;
 
       // BCC
-      case 0x90: {
-        const offset = this.fetchByte();
-        if (!this.flags.C) {
-          this.registers.PC = (this.registers.PC + (offset > 127 ? offset - 256 : offset)) & 0xFFFF;
-        }
-        break;
-      }
-
-      // STA (dp),Y  
-      case 0x91:
-        this.fetchByte();
-        break;
-
-      // STA (dp)
-      case 0x92:
-        this.fetchByte();
-        break;
-
-      // STA (dp,S),Y
-      case 0x93:
-        this.fetchByte();
-        break;
-
-      // STY dp,X
-      case 0x94:
-        this.fetchByte();
-        break;
-
-      // STA dp,X
-      case 0x95:
-        this.fetchByte();
-        break;
-
-      // STX dp,Y
-      case 0x96:
-        this.fetchByte();
-        break;
-
-      // STA [dp],Y
-      case 0x97:
-        this.fetchByte();
-        break;
-
+      case 0x90: this.branch(!this.flags.C); break;
       // TYA
-      case 0x98:
-        this.registers.A = this.registers.Y;
-        this.flags.M ? this.updateNZ8(this.registers.A) : this.updateNZ16(this.registers.A);
-        break;
-
-      // STA abs,Y
-      case 0x99:
-        this.fetchWord();
-        break;
-
+      case 0x98: this.setA(r.Y); break;
       // TXS
-      case 0x9A:
-        this.registers.SP = this.registers.X;
-        break;
-
+      case 0x9A: r.SP = this.flags.E ? 0x0100 | (r.X & 0xFF) : r.X; break;
       // TXY
-      case 0x9B:
-        this.registers.Y = this.registers.X;
-        this.flags.X ? this.updateNZ8(this.registers.Y) : this.updateNZ16(this.registers.Y);
-        break;
-
-      // STZ abs
-      case 0x9C: {
-        const addr = this.fetchWord();
-        this.memory.write(addr, 0);
-        break;
-      }
-
-      // STA abs,X
-      case 0x9D: {
-        const addr = this.fetchWord();
-        this.memory.write(addr, this.registers.A & 0xFF);
-        break;
-      }
-
-      // STZ abs,X
-      case 0x9E:
-        this.fetchWord();
-        break;
-
-      // STA long,X
-      case 0x9F:
-        this.fetchByte();
-        this.fetchWord();
-        break;
-
-      // LDY Immediate
-      case 0xA0:
-        if (this.flags.X) {
-          this.registers.Y = this.fetchByte();
-          this.updateNZ8(this.registers.Y);
-        } else {
-          this.registers.Y = this.fetchWord();
-          this.updateNZ16(this.registers.Y);
-        }
-        break;
-
-      // LDA (dp,X)
-      case 0xA1:
-        this.fetchByte();
-        break;
-
-      // LDX Immediate
-      case 0xA2:
-        if (this.flags.X) {
-          this.registers.X = this.fetchByte();
-          this.updateNZ8(this.registers.X);
-        } else {
-          this.registers.X = this.fetchWord();
-          this.updateNZ16(this.registers.X);
-        }
-        break;
-
-      // LDA dp,S
-      case 0xA3:
-        this.fetchByte();
-        break;
-
-      // LDY dp
-      case 0xA4:
-        this.fetchByte();
-        break;
-
-      // LDA dp
-      case 0xA5: {
-        const addr = this.fetchByte();
-        this.registers.A = this.memory.read(addr);
-        this.updateNZ8(this.registers.A);
-        break;
-      }
-
-      // LDX dp
-      case 0xA6:
-        this.fetchByte();
-        break;
-
-      // LDA [dp]
-      case 0xA7:
-        this.fetchByte();
-        break;
+      case 0x9B: this.setIndex('Y', r.X); break;
 
       // TAY
-      case 0xA8:
-        this.registers.Y = this.registers.A;
-        this.flags.X ? this.updateNZ8(this.registers.Y) : this.updateNZ16(this.registers.Y);
-        break;
-
-      // LDA Immediate
-      case 0xA9:
-        if (this.flags.M) {
-          this.registers.A = this.fetchByte();
-          this.updateNZ8(this.registers.A);
-        } else {
-          this.registers.A = this.fetchWord();
-          this.updateNZ16(this.registers.A);
-        }
-        break;
-
+      case 0xA8: this.setIndex('Y', r.A); break;
       // TAX
-      case 0xAA:
-        this.registers.X = this.registers.A;
-        this.flags.X ? this.updateNZ8(this.registers.X) : this.updateNZ16(this.registers.X);
-        break;
-
+      case 0xAA: this.setIndex('X', r.A); break;
       // PLB
-      case 0xAB:
-        this.registers.DB = this.pop8();
-        break;
-
-      // LDY abs
-      case 0xAC:
-        this.fetchWord();
-        break;
-
-      // LDA abs
-      case 0xAD:
-        this.fetchWord();
-        break;
-
-      // LDX abs
-      case 0xAE:
-        this.fetchWord();
-        break;
-
-      // LDA long
-      case 0xAF:
-        this.fetchByte();
-        this.fetchWord();
-        break;
+      case 0xAB: r.DB = this.pop8(); this.updateNZ8(r.DB); break;
 
       // BCS
-      case 0xB0: {
-        const offset = this.fetchByte();
-        if (this.flags.C) {
-          this.registers.PC = (this.registers.PC + (offset > 127 ? offset - 256 : offset)) & 0xFFFF;
-        }
-        break;
-      }
-
-      // LDA (dp),Y
-      case 0xB1:
-        this.fetchByte();
-        break;
-
-      // LDA (dp)
-      case 0xB2:
-        this.fetchByte();
-        break;
-
-      // LDA (dp,S),Y
-      case 0xB3:
-        this.fetchByte();
-        break;
-
-      // LDY dp,X
-      case 0xB4:
-        this.fetchByte();
-        break;
-
-      // LDA dp,X
-      case 0xB5:
-        this.fetchByte();
-        break;
-
-      // LDX dp,Y
-      case 0xB6:
-        this.fetchByte();
-        break;
-
-      // LDA [dp],Y
-      case 0xB7:
-        this.fetchByte();
-        break;
-
+      case 0xB0: this.branch(this.flags.C); break;
       // CLV
-      case 0xB8:
-        this.flags.V = false;
-        break;
-
-      // LDA abs,Y
-      case 0xB9:
-        this.fetchWord();
-        break;
-
+      case 0xB8: this.flags.V = false; break;
       // TSX
-      case 0xBA:
-        this.registers.X = this.registers.SP;
-        this.flags.X ? this.updateNZ8(this.registers.X) : this.updateNZ16(this.registers.X);
-        break;
-
+      case 0xBA: this.setIndex('X', r.SP); break;
       // TYX
-      case 0xBB:
-        this.registers.X = this.registers.Y;
-        this.flags.X ? this.updateNZ8(this.registers.X) : this.updateNZ16(this.registers.X);
-        break;
-
-      // LDY abs,X
-      case 0xBC:
-        this.fetchWord();
-        break;
-
-      // LDA abs,X
-      case 0xBD:
-        this.fetchWord();
-        break;
-
-      // LDX abs,Y
-      case 0xBE:
-        this.fetchWord();
-        break;
-
-      // LDA long,X
-      case 0xBF:
-        this.fetchByte();
-        this.fetchWord();
-        break;
-
-      // CPY Immediate
-      case 0xC0:
-        this.flags.X ? this.fetchByte() : this.fetchWord();
-        break;
-
-      // CMP (dp,X)
-      case 0xC1:
-        this.fetchByte();
-        break;
+      case 0xBB: this.setIndex('X', r.Y); break;
 
       // REP
-      case 0xC2: {
-        const mask = this.fetchByte();
-        const p = this.getStatusRegister() & ~mask;
-        this.setStatusRegister(p);
-        break;
-      }
-
-      // CMP dp,S
-      case 0xC3:
-        this.fetchByte();
-        break;
-
-      // CPY dp
-      case 0xC4:
-        this.fetchByte();
-        break;
-
-      // CMP dp
-      case 0xC5:
-        this.fetchByte();
-        break;
-
-      // DEC dp
-      case 0xC6:
-        this.fetchByte();
-        break;
-
-      // CMP [dp]
-      case 0xC7:
-        this.fetchByte();
-        break;
-
+      case 0xC2: this.setStatusRegister(this.getStatusRegister() & ~this.fetchByte()); break;
       // INY
-      case 0xC8:
-        this.registers.Y = (this.registers.Y + 1) & (this.flags.X ? 0xFF : 0xFFFF);
-        this.flags.X ? this.updateNZ8(this.registers.Y) : this.updateNZ16(this.registers.Y);
-        break;
-
-      // CMP Immediate
-      case 0xC9:
-        this.flags.M ? this.fetchByte() : this.fetchWord();
-        break;
-
+      case 0xC8: this.setIndex('Y', r.Y + 1); break;
       // DEX
-      case 0xCA:
-        this.registers.X = (this.registers.X - 1) & (this.flags.X ? 0xFF : 0xFFFF);
-        this.flags.X ? this.updateNZ8(this.registers.X) : this.updateNZ16(this.registers.X);
-        break;
-
+      case 0xCA: this.setIndex('X', r.X - 1); break;
       // WAI
-      case 0xCB:
-        break;
-
-      // CPY abs
-      case 0xCC:
-        this.fetchWord();
-        break;
-
-      // CMP abs
-      case 0xCD:
-        this.fetchWord();
-        break;
-
-      // DEC abs
-      case 0xCE:
-        this.fetchWord();
-        break;
-
-      // CMP long
-      case 0xCF:
-        this.fetchByte();
-        this.fetchWord();
-        break;
+      case 0xCB: this.waiting = true; break;
 
       // BNE
-      case 0xD0: {
+      case 0xD0: this.branch(!this.flags.Z); break;
+      // PEI (dp)
+      case 0xD4: {
         const offset = this.fetchByte();
-        if (!this.flags.Z) {
-          this.registers.PC = (this.registers.PC + (offset > 127 ? offset - 256 : offset)) & 0xFFFF;
-        }
+        if (r.D & 0xFF) this.cycles++;
+        this.push16(this.resolver.readDirectWord(offset));
         break;
       }
-
-      // CMP (dp),Y
-      case 0xD1:
-        this.fetchByte();
-        break;
-
-      // CMP (dp)
-      case 0xD2:
-        this.fetchByte();
-        break;
-
-      // CMP (dp,S),Y
-      case 0xD3:
-        this.fetchByte();
-        break;
-
-      // PEI
-      case 0xD4:
-        this.fetchByte();
-        break;
-
-      // CMP dp,X
-      case 0xD5:
-        this.fetchByte();
-        break;
-
-      // DEC dp,X
-      case 0xD6:
-        this.fetchByte();
-        break;
-
-      // CMP [dp],Y
-      case 0xD7:
-        this.fetchByte();
-        break;
-
       // CLD
-      case 0xD8:
-        this.flags.D = false;
-        break;
-
-      // CMP abs,Y
-      case 0xD9:
-        this.fetchWord();
-        break;
-
+      case 0xD8: this.flags.D = false; break;
       // PHX
-      case 0xDA:
-        this.flags.X ? this.push8(this.registers.X) : this.push16(this.registers.X);
-        break;
-
+      case 0xDA: this.pushRegister(r.X, !this.flags.X); break;
       // STP
-      case 0xDB:
-        break;
-
-      // JML (abs)
-      case 0xDC:
-        this.fetchWord();
-        break;
-
-      // CMP abs,X
-      case 0xDD:
-        this.fetchWord();
-        break;
-
-      // DEC abs,X
-      case 0xDE:
-        this.fetchWord();
-        break;
-
-      // CMP long,X
-      case 0xDF:
-        this.fetchByte();
-        this.fetchWord();
-        break;
-
-      // CPX Immediate
-      case 0xE0:
-        this.flags.X ? this.fetchByte() : this.fetchWord();
-        break;
-
-      // SBC (dp,X)
-      case 0xE1:
-        this.fetchByte();
-        break;
+      case 0xDB: this.stopped = true; break;
 
       // SEP
-      case 0xE2: {
-        const mask = this.fetchByte();
-        const p = this.getStatusRegister() | mask;
-        this.setStatusRegister(p);
-        break;
-      }
-
-      // SBC dp,S
-      case 0xE3:
-        this.fetchByte();
-        break;
-
-      // CPX dp
-      case 0xE4:
-        this.fetchByte();
-        break;
-
-      // SBC dp
-      case 0xE5:
-        this.fetchByte();
-        break;
-
-      // INC dp
-      case 0xE6:
-        this.fetchByte();
-        break;
-
-      // SBC [dp]
-      case 0xE7:
-        this.fetchByte();
-        break;
-
+      case 0xE2: this.setStatusRegister(this.getStatusRegister() | this.fetchByte()); break;
       // INX
-      case 0xE8:
-        this.registers.X = (this.registers.X + 1) & (this.flags.X ? 0xFF : 0xFFFF);
-        this.flags.X ? this.updateNZ8(this.registers.X) : this.updateNZ16(this.registers.X);
-        break;
-
-      // SBC Immediate
-      case 0xE9:
-        this.flags.M ? this.fetchByte() : this.fetchWord();
-        break;
-
+      case 0xE8: this.setIndex('X', r.X + 1); break;
       // NOP
-      case 0xEA:
-        break;
-
+      case 0xEA: break;
       // XBA
-      case 0xEB: {
-        const low = this.registers.A & 0xFF;
-        const high = (this.registers.A >> 8) & 0xFF;
-        this.registers.A = (low << 8) | high;
-        this.updateNZ8(high);
-        break;
-      }
-
-      // CPX abs
-      case 0xEC:
-        this.fetchWord();
-        break;
-
-      // SBC abs
-      case 0xED:
-        this.fetchWord();
-        break;
-
-      // INC abs
-      case 0xEE:
-        this.fetchWord();
-        break;
-
-      // SBC long
-      case 0xEF:
-        this.fetchByte();
-        this.fetchWord();
+      case 0xEB:
+        r.A = ((r.A & 0xFF) << 8) | ((r.A >> 8) & 0xFF);
+        this.updateNZ8(r.A);
         break;
 
       // BEQ
-      case 0xF0: {
-        const offset = this.fetchByte();
-        if (this.flags.Z) {
-          this.registers.PC = (this.registers.PC + (offset > 127 ? offset - 256 : offset)) & 0xFFFF;
-        }
-        break;
-      }
-
-      // SBC (dp),Y
-      case 0xF1:
-        this.fetchByte();
-        break;
-
-      // SBC (dp)
-      case 0xF2:
-        this.fetchByte();
-        break;
-
-      // SBC (dp,S),Y
-      case 0xF3:
-        this.fetchByte();
-        break;
-
+      case 0xF0: this.branch(this.flags.Z); break;
       // PEA
-      case 0xF4:
-        this.fetchWord();
-        break;
-
-      // SBC dp,X
-      case 0xF5:
-        this.fetchByte();
-        break;
-
-      // INC dp,X
-      case 0xF6:
-        this.fetchByte();
-        break;
-
-      // SBC [dp],Y
-      case 0xF7:
-        this.fetchByte();
-        break;
-
+      case 0xF4: this.push16(this.fetchWord()); break;
       // SED
-      case 0xF8:
-        this.flags.D = true;
-        break;
-
-      // SBC abs,Y
-      case 0xF9:
-        this.fetchWord();
-        break;
-
+      case 0xF8: this.flags.D = true; break;
       // PLX
-      case 0xFA:
-        this.registers.X = this.flags.X ? this.pop8() : this.pop16();
-        this.flags.X ? this.updateNZ8(this.registers.X) : this.updateNZ16(this.registers.X);
-        break;
-
+      case 0xFA: this.setIndex('X', this.popRegister(!this.flags.X)); break;
       // XCE
       case 0xFB: {
-        const temp = this.flags.C;
+        const carry = this.flags.C;
         this.flags.C = this.flags.E;
-        this.flags.E = temp;
+        this.flags.E = carry;
         if (this.flags.E) {
-          this.flags.M = true;
-          this.flags.X = true;
-          this.registers.SP = (this.registers.SP & 0xFF) | 0x0100;
+          r.SP = 0x0100 | (r.SP & 0xFF);
         }
+        this.applyWidthFlags();
         break;
       }
-
-      // JSR (abs,X)
-      case 0xFC:
-        this.fetchWord();
-        break;
-
-      // SBC abs,X
-      case 0xFD:
-        this.fetchWord();
-        break;
-
-      // INC abs,X
-      case 0xFE:
-        this.fetchWord();
-        break;
-
-      // SBC long,X
-      case 0xFF:
-        this.fetchByte();
-        this.fetchWord();
-        break;
-
-      default:
-        // Silently ignore unknown opcodes now
-        break;
     }
   }
 
   getRegisters(): CPU65816Registers {
-    return { ...this.registers };
+    return { ...this.registers, P: this.getStatusRegister() };
   }
 
   getFlags(): CPU65816Flags {
@@ -1473,4 +957,53 @@ export class CPU65816 {
   getCycles(): number {
     return this.cycles;
   }
+
+  // Cycle of the bus access in progress. getCycles() already counts the whole
+  // instruction once its opcode is fetched; devices that time themselves against
+  // the CPU (the math unit) need the cycle the access itself happens on
+  getBusCycle(): number {
+    return this.stepAccesses > 0 ? this.stepStartCycles + this.stepAccesses : this.cycles;
+  }
+
+  getMasterCycles(): number {
+    return this.masterCycles;
+  }
+
+  saveState(writer: StateWriter): void {
+    const r = this.registers;
+    writer.section('CPU ');
+    for (const value of [r.A, r.X, r.Y, r.SP, r.PC, r.D]) writer.u16(value);
+    writer.u8(r.DB);
+    writer.u8(r.PB);
+    writer.u8(this.getStatusRegister());
+    writer.bool(this.flags.E);
+    writer.f64(this.cycles);
+    writer.f64(this.masterCycles);
+    writer.bool(this.nmiPending);
+    writer.bool(this.irqLine);
+    writer.bool(this.waiting);
+    writer.bool(this.stopped);
+  }
+
+  loadState(reader: StateReader): void {
+    const r = this.registers;
+    reader.section('CPU ');
+    r.A = reader.u16();
+    r.X = reader.u16();
+    r.Y = reader.u16();
+    r.SP = reader.u16();
+    r.PC = reader.u16();
+    r.D = reader.u16();
+    r.DB = reader.u8();
+    r.PB = reader.u8();
+    const status = reader.u8();
+    this.flags.E = reader.bool();
+    this.setStatusRegister(status);
+    this.cycles = reader.f64();
+    this.masterCycles = reader.f64();
+    this.nmiPending = reader.bool();
+    this.irqLine = reader.bool();
+    this.waiting = reader.bool();
+    this.stopped = reader.bool();
+  }
 }
@@ -0,0 +1,656 @@
+// Sony S-DSP
+// The APU's sound generator: 8 voices playing BRR-compressed samples from
+// ARAM with Gaussian interpolation, ADSR/GAIN envelopes, pitch modulation and
+// noise, mixed with an echo unit that runs an 8-tap FIR filter over a delay
+// buffer in ARAM. Produces one 32kHz stereo sample per call.
+// The SPC700 reaches the 128 registers through $F2/$F3.
+
+import type { StateReader, StateWriter } from './SaveState';
+
+// Global registers
+const REG_MVOLL = 0x0C;
+const REG_MVOLR = 0x1C;
+const REG_EVOLL = 0x2C;
+const REG_EVOLR = 0x3C;
+const REG_KON = 0x4C;
+const REG_KOFF = 0x5C;
+const REG_FLG = 0x6C;
+const REG_ENDX = 0x7C;
+const REG_EFB = 0x0D;
+const REG_PMON = 0x2D;
+const REG_NON = 0x3D;
+const REG_EON = 0x4D;
+const REG_DIR = 0x5D;
+const REG_ESA = 0x6D;
+const REG_EDL = 0x7D;
+const REG_FIR = 0x0F; // C0-C7 at $0F, $1F, ... $7F
+
+// Per-voice registers (voice n at n * $10)
+const VREG_VOLL = 0x0;
+const VREG_VOLR = 0x1;
+const VREG_PITCHL = 0x2;
+const VREG_PITCHH = 0x3;
+const VREG_SRCN = 0x4;
+const VREG_ADSR1 = 0x5;
+const VREG_ADSR2 = 0x6;
+const VREG_GAIN = 0x7;
+const VREG_ENVX = 0x8;
+const VREG_OUTX = 0x9;
+
+const EnvelopeMode = {
+    Release: 0,
+    Attack: 1,
+    Decay: 2,
+    Sustain: 3
+} as const;
+
+type EnvelopeMode = typeof EnvelopeMode[keyof typeof EnvelopeMode];
+
+// Samples of silence between KON and the start of playback
+const KEY_ON_DELAY = 5;
+
+// Recent per-voice output kept for the mixer's oscilloscopes (power of two)
+export const VOICE_SCOPE_LENGTH = 512;
+
+// Envelope and noise rates: how many samples between steps for rate 0-31
+const COUNTER_RANGE = 2048 * 5 * 3;
+const COUNTER_RATES = [
+    COUNTER_RANGE + 1, // Rate 0 never fires
+    2048, 1536, 1280, 1024, 768, 640, 512, 384, 320, 256, 192, 160, 128, 96, 80,
+    64, 48, 40, 32, 24, 20, 16, 12, 10, 8, 6, 5, 4, 3, 2, 1
+];
+const COUNTER_OFFSETS = [
+    1, 0, 1040, 536, 0, 1040, 536, 0, 1040, 536, 0, 1040, 536, 0, 1040, 536,
+    0, 1040, 536, 0, 1040, 536, 0, 1040, 536, 0, 1040, 536, 0, 1040, 0, 0
+];
+
+// Interpolation kernel, indexed by the fractional sample position
+const GAUSSIAN = new Int16Array([
+       0,    0,    0,    0,    0,    0,    0,    0,    0,    0,    0,    0,    0,    0,    0,    0,
+       1,    1,    1,    1,    1,    1,    1,    1,    1,    1,    1,    2,    2,    2,    2,    2,
+       2,    2,    3,    3,    3,    3,    3,    4,    4,    4,    4,    4,    5,    5,    5,    5,
+       6,    6,    6,    6,    7,    7,    7,    8,    8,    8,    9,    9,    9,   10,   10,   10,
+      11,   11,   11,   12,   12,   13,   13,   14,   14,   15,   15,   15,   16,   16,   17,   17,
+      18,   19,   19,   20,   20,   21,   21,   22,   23,   23,   24,   24,   25,   26,   27,   27,
+      28,   29,   29,   30,   31,   32,   32,   33,   34,   35,   36,   36,   37,   38,   39,   40,
+      41,   42,   43,   44,   45,   46,   47,   48,   49,   50,   51,   52,   53,   54,   55,   56,
+      58,   59,   60,   61,   62,   64,   65,   66,   67,   69,   70,   71,   73,   74,   76,   77,
+      78,   80,   81,   83,   84,   86,   87,   89,   90,   92,   94,   95,   97,   99,  100,  102,
+     104,  106,  107,  109,  111,  113,  115,  117,  118,  120,  122,  124,  126,  128,  130,  132,
+     134,  137,  139,  141,  143,  145,  147,  150,  152,  154,  156,  159,  161,  163,  166,  168,
+     171,  173,  175,  178,  180,  183,  186,  188,  191,  193,  196,  199,  201,  204,  207,  210,
+     212,  215,  218,  221,  224,  227,  230,  233,  236,  239,  242,  245,  248,  251,  254,  257,
+     260,  263,  267,  270,  273,  276,  280,  283,  286,  290,  293,  297,  300,  304,  307,  311,
+     314,  318,  321,  325,  328,  332,  336,  339,  343,  347,  351,  354,  358,  362,  366,  370,
+     374,  378,  381,  385,  389,  393,  397,  401,  405,  410,  414,  418,  422,  426,  430,  434,
+     439,  443,  447,  451,  456,  460,  464,  469,  473,  477,  482,  486,  491,  495,  499,  504,
+     508,  513,  517,  522,  527,  531,  536,  540,  545,  550,  554,  559,  563,  568,  573,  577,
+     582,  587,  592,  596,  601,  606,  611,  615,  620,  625,  630,  635,  640,  644,  649,  654,
+     659,  664,  669,  674,  678,  683,  688,  693,  698,  703,  708,  713,  718,  723,  728,  732,
+     737,  742,  747,  752,  757,  762,  767,  772,  777,  782,  787,  792,  797,  802,  806,  811,
+     816,  821,  826,  831,  836,  841,  846,  851,  855,  860,  865,  870,  875,  880,  884,  889,
+     894,  899,  904,  908,  913,  918,  923,  927,  932,  937,  941,  946,  951,  955,  960,  965,
+     969,  974,  978,  983,  988,  992,  997, 1001, 1005, 1010, 1014, 1019, 1023, 1027, 1032, 1036,
+    1040, 1045, 1049, 1053, 1057, 1061, 1066, 1070, 1074, 1078, 1082, 1086, 1090, 1094, 1098, 1102,
+    1106, 1109, 1113, 1117, 1121, 1125, 1128, 1132, 1136, 1139, 1143, 1146, 1150, 1153, 1157, 1160,
+    1164, 1167, 1170, 1174, 1177, 1180, 1183, 1186, 1190, 1193, 1196, 1199, 1202, 1205, 1207, 1210,
+    1213, 1216, 1219, 1221, 1224, 1227, 1229, 1232, 1234, 1237, 1239, 1241, 1244, 1246, 1248, 1251,
+    1253, 1255, 1257, 1259, 1261, 1263, 1265, 1267, 1269, 1270, 1272, 1274, 1275, 1277, 1279, 1280,
+    1282, 1283, 1284, 1286, 1287, 1288, 1290, 1291, 1292, 1293, 1294, 1295, 1296, 1297, 1297, 1298,
+    1299, 1300, 1300, 1301, 1302, 1302, 1303, 1303, 1303, 1304, 1304, 1304, 1304, 1304, 1305, 1305
+]);
+
+// One BRR block holds 16 samples; the buffer keeps the last 3 of the previous
+// block in front so interpolation can always read 4 consecutive samples
+const BLOCK_SAMPLES = 16;
+const HISTORY = 3;
+
+interface Voice {
+    buffer: Int16Array;       // HISTORY + BLOCK_SAMPLES decoded samples
+    blockAddress: number;     // ARAM address of the block being played
+    blockHeader: number;
+    position: number;         // 4.12 fixed point index into the current block
+    envelope: number;         // 0-0x7FF
+    hiddenEnvelope: number;   // Unclamped value, used by the bent-line GAIN mode
+    mode: EnvelopeMode;
+    keyOnDelay: number;
+    output: number;           // Last output before volume, drives pitch modulation
+}
+
+function clamp16(value: number): number {
+    return value > 0x7FFF ? 0x7FFF : value < -0x8000 ? -0x8000 : value;
+}
+
+// Wraps to a signed 16-bit value
+function int16(value: number): number {
+    return (value << 16) >> 16;
+}
+
+function int8(value: number): number {
+    return (value << 24) >> 24;
+}
+
+export class DSP {
+    private aram: Uint8Array;
+    private registers = new Uint8Array(128);
+    private voices: Voice[] = [];
+
+    private counter = 0;
+    private noise = 0x4000;
+    private keyOnPending = 0;
+
+    // Echo unit: position in the delay buffer and FIR history (newest last)
+    private echoOffset = 0;
+    private echoLength = 0;
+    private echoHistoryLeft = new Int16Array(8);
+    private echoHistoryRight = new Int16Array(8);
+    // Filtered echo of the current sample, set by runEcho()
+    private echoOutLeft = 0;
+    private echoOutRight = 0;
+
+    // Debug mixer, not part of the emulated hardware: voices cleared in the
+    // mask stay silent, and the echo return can be left out of the final mix
+    private voiceMask = 0xFF;
+    private echoEnabled = true;
+    private voiceScope = new Int16Array(8 * VOICE_SCOPE_LENGTH);
+    private voiceScopeIndex = 0;
+    private voicePeaks = new Uint16Array(8);
+
+    constructor(aram: Uint8Array) {
+        this.aram = aram;
+        for (let i = 0; i < 8; i++) {
+            this.voices.push({
+                buffer: new Int16Array(HISTORY + BLOCK_SAMPLES),
+                blockAddress: 0,
+                blockHeader: 0,
+                position: 0,
+                envelope: 0,
+                hiddenEnvelope: 0,
+                mode: EnvelopeMode.Release,
+                keyOnDelay: 0,
+                output: 0
+            });
+        }
+    }
+
+    reset(): void {
+        this.registers.fill(0);
+        this.registers[REG_FLG] = 0xE0; // Soft reset, mute, echo writes off
+        for (const voice of this.voices) {
+            voice.buffer.fill(0);
+            voice.blockAddress = 0;
+            voice.blockHeader = 0;
+            voice.position = 0;
+            voice.envelope = 0;
+            voice.hiddenEnvelope = 0;
+            voice.mode = EnvelopeMode.Release;
+            voice.keyOnDelay = 0;
+            voice.output = 0;
+        }
+        this.counter = 0;
+        this.noise = 0x4000;
+        this.keyOnPending = 0;
+        this.echoOffset = 0;
+        this.echoLength = 0;
+        this.echoHistoryLeft.fill(0);
+        this.echoHistoryRight.fill(0);
+    }
+
+    /**
+     * Restores the registers from a snapshot. Voice playback state is not part
+     * of the snapshot, so the voices set in KON are keyed on from the start.
+     */
+    loadRegisters(registers: Uint8Array): void {
+        this.reset();
+        this.registers.set(registers.subarray(0, 128));
+        this.keyOnPending = this.registers[REG_KON];
+    }
+
+    // Bit n enables voice n in the mix
+    setVoiceMask(mask: number): void {
+        this.voiceMask = mask & 0xFF;
+    }
+
+    getVoiceMask(): number {
+        return this.voiceMask;
+    }
+
+    setEchoEnabled(enabled: boolean): void {
+        this.echoEnabled = enabled;
+    }
+
+    isEchoEnabled(): boolean {
+        return this.echoEnabled;
+    }
+
+    /**
+     * Copies the most recent output of a voice (after its envelope, before
+     * volume) into `target`, oldest first. Muted voices are still captured.
+     */
+    readVoiceScope(voice: number, target: Int16Array): void {
+        const count = Math.min(target.length, VOICE_SCOPE_LENGTH);
+        const base = (voice & 7) * VOICE_SCOPE_LENGTH;
+        const start = this.voiceScopeIndex - count;
+        for (let i = 0; i < count; i++) {
+            target[i] = this.voiceScope[base + ((start + i) & (VOICE_SCOPE_LENGTH - 1))];
+        }
+    }
+
+    // Peak level per voice (after volume) since the previous call
+    takeVoicePeaks(): Uint16Array {
+        const peaks = this.voicePeaks.slice();
+        this.voicePeaks.fill(0);
+        return peaks;
+    }
+
+    readRegister(address: number): number {
+        return this.registers[address & 0x7F];
+    }
+
+    writeRegister(address: number, value: number): void {
+        address &= 0x7F;
+        this.registers[address] = value;
+
+        switch (address) {
+            case REG_KON:
+                this.keyOnPending |= value;
+                break;
+            case REG_ENDX: // Any write clears all end flags
+                this.registers[REG_ENDX] = 0;
+                break;
+        }
+    }
+
+    /**
+     * Runs the DSP for one 32kHz sample and stores the stereo output at
+     * `output[index]` (left) and `output[index + 1]` (right).
+     */
+    renderSample(output: Int16Array, index: number): void {
+        const r = this.registers;
+
+        this.tickCounter();
+        this.updateNoise();
+        this.processKeyEvents();
+
+        let mainLeft = 0;
+        let mainRight = 0;
+        let echoLeft = 0;
+        let echoRight = 0;
+        let previousOutput = 0;
+
+        for (let v = 0; v < 8; v++) {
+            const voice = this.voices[v];
+            const base = v << 4;
+            const sample = this.runVoice(voice, v, previousOutput);
+            previousOutput = sample;
+
+            const left = (sample * int8(r[base + VREG_VOLL])) >> 7;
+            const right = (sample * int8(r[base + VREG_VOLR])) >> 7;
+
+            this.voiceScope[v * VOICE_SCOPE_LENGTH + this.voiceScopeIndex] = sample;
+            this.voicePeaks[v] = Math.max(this.voicePeaks[v], Math.abs(left), Math.abs(right));
+            if (!(this.voiceMask & (1 << v))) continue;
+
+            mainLeft = clamp16(mainLeft + left);
+            mainRight = clamp16(mainRight + right);
+            if (r[REG_EON] & (1 << v)) {
+                echoLeft = clamp16(echoLeft + left);
+                echoRight = clamp16(echoRight + right);
+            }
+        }
+
+        this.voiceScopeIndex = (this.voiceScopeIndex + 1) & (VOICE_SCOPE_LENGTH - 1);
+
+        // The echo unit keeps running (and writing ARAM) even when left out of the mix
+        this.runEcho(echoLeft, echoRight);
+        const echoOutLeft = this.echoEnabled ? this.echoOutLeft : 0;
+        const echoOutRight = this.echoEnabled ? this.echoOutRight : 0;
+
+        let outLeft = clamp16(((mainLeft * int8(r[REG_MVOLL])) >> 7) + ((echoOutLeft * int8(r[REG_EVOLL])) >> 7));
+        let outRight = clamp16(((mainRight * int8(r[REG_MVOLR])) >> 7) + ((echoOutRight * int8(r[REG_EVOLR])) >> 7));
+
+        if (r[REG_FLG] & 0x40) { // Mute
+            outLeft = 0;
+            outRight = 0;
+        }
+
+        output[index] = outLeft;
+        output[index + 1] = outRight;
+    }
+
+    // ==========================================
+    // Voices
+    // ==========================================
+
+    private processKeyEvents(): void {
+        const r = this.registers;
+
+        // FLG bit 7 keys everything off immediately
+        if (r[REG_FLG] & 0x80) {
+            for (const voice of this.voices) {
+                voice.mode = EnvelopeMode.Release;
+                voice.envelope = 0;
+            }
+        }
+
+        for (let v = 0; v < 8; v++) {
+            const voice = this.voices[v];
+            const bit = 1 << v;
+
+            if (this.keyOnPending & bit) {
+                this.keyOn(voice, v);
+            } else if ((r[REG_KOFF] & bit) && voice.keyOnDelay === 0) {
+                voice.mode = EnvelopeMode.Release;
+            }
+        }
+        this.keyOnPending = 0;
+    }
+
+    private keyOn(voice: Voice, v: number): void {
+        const entry = ((this.registers[REG_DIR] << 8) + (this.registers[(v << 4) + VREG_SRCN] << 2)) & 0xFFFF;
+
+        voice.blockAddress = this.read16(entry);
+        voice.position = 0;
+        voice.envelope = 0;
+        voice.hiddenEnvelope = 0;
+        voice.mode = EnvelopeMode.Attack;
+        voice.keyOnDelay = KEY_ON_DELAY;
+        voice.buffer.fill(0);
+        this.decodeBlock(voice);
+
+        this.registers[REG_ENDX] &= ~(1 << v);
+    }
+
+    // Returns the voice output after the envelope, before volume
+    private runVoice(voice: Voice, v: number, previousOutput: number): number {
+        const r = this.registers;
+        const base = v << 4;
+
+        if (voice.keyOnDelay > 0) {
+            voice.keyOnDelay--;
+            voice.output = 0;
+            r[base + VREG_ENVX] = 0;
+            r[base + VREG_OUTX] = 0;
+            return 0;
+        }
+
+        let sample = (r[REG_NON] & (1 << v))
+            ? int16(this.noise << 1)
+            : this.interpolate(voice);
+
+        this.runEnvelope(voice, v);
+        sample = ((sample * voice.envelope) >> 11) & ~1;
+
+        voice.output = sample;
+        r[base + VREG_ENVX] = voice.envelope >> 4;
+        r[base + VREG_OUTX] = (sample >> 8) & 0xFF;
+
+        // Advance through the sample, modulated by the previous voice's output
+        let pitch = (r[base + VREG_PITCHL] | (r[base + VREG_PITCHH] << 8)) & 0x3FFF;
+        if (v > 0 && (r[REG_PMON] & (1 << v))) {
+            pitch += ((previousOutput >> 5) * pitch) >> 10;
+            pitch = Math.max(0, Math.min(0x3FFF, pitch));
+        }
+
+        voice.position += pitch;
+        while (voice.position >= BLOCK_SAMPLES << 12) {
+            voice.position -= BLOCK_SAMPLES << 12;
+            this.nextBlock(voice, v);
+        }
+
+        return sample;
+    }
+
+    // 4-point Gaussian interpolation between buffered samples
+    private interpolate(voice: Voice): number {
+        const index = voice.position >> 12;
+        const offset = (voice.position >> 4) & 0xFF;
+        const b = voice.buffer;
+
+        let out = (GAUSSIAN[255 - offset] * b[index]) >> 11;
+        out += (GAUSSIAN[511 - offset] * b[index + 1]) >> 11;
+        out += (GAUSSIAN[256 + offset] * b[index + 2]) >> 11;
+        out = int16(out);
+        out += (GAUSSIAN[offset] * b[index + 3]) >> 11;
+
+        return clamp16(out) & ~1;
+    }
+
+    // Moves past the current block, following the loop point at an end block
+    private nextBlock(voice: Voice, v: number): void {
+        if (voice.blockHeader & 0x01) {
+            this.registers[REG_ENDX] |= 1 << v;
+
+            const entry = ((this.registers[REG_DIR] << 8) + (this.registers[(v << 4) + VREG_SRCN] << 2)) & 0xFFFF;
+            voice.blockAddress = this.read16(entry + 2);
+
+            if (!(voice.blockHeader & 0x02)) {
+                voice.mode = EnvelopeMode.Release;
+                voice.envelope = 0;
+            }
+        } else {
+            voice.blockAddress = (voice.blockAddress + 9) & 0xFFFF;
+        }
+
+        this.decodeBlock(voice);
+    }
+
+    // Decodes the 9-byte BRR block at blockAddress into the voice buffer
+    private decodeBlock(voice: Voice): void {
+        const b = voice.buffer;
+        b.copyWithin(0, BLOCK_SAMPLES, BLOCK_SAMPLES + HISTORY);
+
+        const header = this.aram[voice.blockAddress];
+        const shift = header >> 4;
+        const filter = header & 0x0C;
+        voice.blockHeader = header;
+
+        for (let i = 0; i < BLOCK_SAMPLES; i++) {
+            const byte = this.aram[(voice.blockAddress + 1 + (i >> 1)) & 0xFFFF];
+            const nibble = (i & 1) ? byte & 0x0F : byte >> 4;
+
+            let s = ((nibble << 28) >> 28);
+            s = shift <= 12 ? (s << shift) >> 1 : (s < 0 ? -2048 : 0);
+
+            // Prediction filters work on the previous two (doubled) samples
+            const p1 = b[HISTORY + i - 1];
+            const p2 = b[HISTORY + i - 2] >> 1;
+            if (filter >= 8) {
+                s += p1;
+                s -= p2;
+                if (filter === 8) {
+                    s += p2 >> 4;
+                    s += (p1 * -3) >> 6;
+                } else {
+                    s += (p1 * -13) >> 7;
+                    s += (p2 * 3) >> 4;
+                }
+            } else if (filter) {
+                s += p1 >> 1;
+                s += (-p1) >> 5;
+            }
+
+            b[HISTORY + i] = int16(clamp16(s) * 2);
+        }
+    }
+
+    private runEnvelope(voice: Voice, v: number): void {
+        const r = this.registers;
+        const base = v << 4;
+        let env = voice.envelope;
+
+        if (voice.mode === EnvelopeMode.Release) {
+            voice.envelope = Math.max(0, env - 8);
+            return;
+        }
+
+        const adsr1 = r[base + VREG_ADSR1];
+        let envData = r[base + VREG_ADSR2];
+        let rate: number;
+
+        if (adsr1 & 0x80) { // ADSR
+            if (voice.mode >= EnvelopeMode.Decay) {
+                env--;
+                env -= env >> 8;
+                rate = voice.mode === EnvelopeMode.Decay
+                    ? ((adsr1 >> 3) & 0x0E) + 0x10
+                    : envData & 0x1F;
+            } else {
+                rate = ((adsr1 & 0x0F) << 1) + 1;
+                env += rate < 31 ? 0x20 : 0x400;
+            }
+        } else { // GAIN
+            envData = r[base + VREG_GAIN];
+            const mode = envData >> 5;
+            if (mode < 4) { // Direct
+                env = envData << 4;
+                rate = 31;
+            } else {
+                rate = envData & 0x1F;
+                if (mode === 4) {          // Linear decrease
+                    env -= 0x20;
+                } else if (mode < 6) {     // Exponential decrease
+                    env--;
+                    env -= env >> 8;
+                } else {                   // Linear / bent-line increase
+                    env += 0x20;
+                    if (mode > 6 && voice.hiddenEnvelope >= 0x600) env += 0x08 - 0x20;
+                }
+            }
+        }
+
+        // Decay ends at the sustain level
+        if ((env >> 8) === (envData >> 5) && voice.mode === EnvelopeMode.Decay) {
+            voice.mode = EnvelopeMode.Sustain;
+        }
+
+        voice.hiddenEnvelope = env;
+
+        if (env < 0 || env > 0x7FF) {
+            env = env < 0 ? 0 : 0x7FF;
+            if (voice.mode === EnvelopeMode.Attack) voice.mode = EnvelopeMode.Decay;
+        }
+
+        if (this.rateFires(rate)) voice.envelope = env;
+    }
+
+    // ==========================================
+    // Global counter, noise and echo
+    // ==========================================
+
+    private tickCounter(): void {
+        if (--this.counter < 0) this.counter = COUNTER_RANGE - 1;
+    }
+
+    private rateFires(rate: number): boolean {
+        return (this.counter + COUNTER_OFFSETS[rate]) % COUNTER_RATES[rate] === 0;
+    }
+
+    private updateNoise(): void {
+        if (this.rateFires(this.registers[REG_FLG] & 0x1F)) {
+            const feedback = (this.noise << 13) ^ (this.noise << 14);
+            this.noise = (feedback & 0x4000) ^ (this.noise >> 1);
+        }
+    }
+
+    // Reads the delayed samples, filters them into echoOutLeft/Right and
+    // writes the new echo input back
+    private runEcho(inLeft: number, inRight: number): void {
+        const r = this.registers;
+        const address = ((r[REG_ESA] << 8) + this.echoOffset) & 0xFFFF;
+
+        this.pushHistory(this.echoHistoryLeft, int16(this.read16(address)) >> 1);
+        this.pushHistory(this.echoHistoryRight, int16(this.read16(address + 2)) >> 1);
+
+        this.echoOutLeft = this.fir(this.echoHistoryLeft);
+        this.echoOutRight = this.fir(this.echoHistoryRight);
+
+        const feedback = int8(r[REG_EFB]);
+        const writeLeft = clamp16(inLeft + ((this.echoOutLeft * feedback) >> 7)) & ~1;
+        const writeRight = clamp16(inRight + ((this.echoOutRight * feedback) >> 7)) & ~1;
+
+        if (!(r[REG_FLG] & 0x20)) {
+            this.write16(address, writeLeft);
+            this.write16(address + 2, writeRight);
+        }
+
+        // EDL takes effect when the buffer wraps; EDL=0 still uses 4 bytes
+        if (this.echoOffset === 0) {
+            this.echoLength = (r[REG_EDL] & 0x0F) << 11;
+        }
+        this.echoOffset += 4;
+        if (this.echoOffset >= this.echoLength) this.echoOffset = 0;
+    }
+
+    private pushHistory(history: Int16Array, sample: number): void {
+        history.copyWithin(0, 1);
+        history[7] = sample;
+    }
+
+    // C0 applies to the oldest sample, C7 to the newest
+    private fir(history: Int16Array): number {
+        const r = this.registers;
+        let sum = 0;
+        for (let i = 0; i < 7; i++) {
+            sum += (history[i] * int8(r[(i << 4) | REG_FIR])) >> 6;
+        }
+        sum = int16(sum);
+        sum += (history[7] * int8(r[0x70 | REG_FIR])) >> 6;
+        return clamp16(sum) & ~1;
+    }
+
+    private read16(address: number): number {
+        return this.aram[address & 0xFFFF] | (this.aram[(address + 1) & 0xFFFF] << 8);
+    }
+
+    private write16(address: number, value: number): void {
+        this.aram[address & 0xFFFF] = value & 0xFF;
+        this.aram[(address + 1) & 0xFFFF] = (value >> 8) & 0xFF;
+    }
+
+    saveState(writer: StateWriter): void {
+        writer.section('DSP ');
+        writer.array(this.registers);
+        for (const voice of this.voices) {
+            writer.array(voice.buffer);
+            writer.u16(voice.blockAddress);
+            writer.u8(voice.blockHeader);
+            writer.u32(voice.position);
+            writer.u16(voice.envelope);
+            writer.i32(voice.hiddenEnvelope);
+            writer.u8(voice.mode);
+            writer.u8(voice.keyOnDelay);
+            writer.i32(voice.output);
+        }
+        writer.u16(this.counter);
+        writer.u16(this.noise);
+        writer.u8(this.keyOnPending);
+        writer.u16(this.echoOffset);
+        writer.u16(this.echoLength);
+        writer.array(this.echoHistoryLeft);
+        writer.array(this.echoHistoryRight);
+    }
+
+    loadState(reader: StateReader): void {
+        reader.section('DSP ');
+        reader.array(this.registers);
+        for (const voice of this.voices) {
+            reader.array(voice.buffer);
+            voice.blockAddress = reader.u16();
+            voice.blockHeader = reader.u8();
+            voice.position = reader.u32();
+            voice.envelope = reader.u16();
+            voice.hiddenEnvelope = reader.i32();
+            voice.mode = reader.u8() as EnvelopeMode;
+            voice.keyOnDelay = reader.u8();
+            voice.output = reader.i32();
+        }
+        this.counter = reader.u16();
+        this.noise = reader.u16();
+        this.keyOnPending = reader.u8();
+        this.echoOffset = reader.u16();
+        this.echoLength = reader.u16();
+        reader.array(this.echoHistoryLeft);
+        reader.array(this.echoHistoryRight);
+    }
+}
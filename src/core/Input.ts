@@ -1,23 +1,31 @@
 // SNES Input Controller Emulation
 
-export enum SNESButton {
-    B = 0x8000,
-    Y = 0x4000,
-    SELECT = 0x2000,
-    START = 0x1000,
-    UP = 0x0800,
-    DOWN = 0x0400,
-    LEFT = 0x0200,
-    RIGHT = 0x0100,
-    A = 0x0080,
-    X = 0x0040,
-    L = 0x0020,
-    R = 0x0010
-}
-
+import type { StateReader, StateWriter } from './SaveState';
+
+// Button bits in the order the controller shifts them out (B first)
+export const SNESButton = {
+    B: 0x8000,
+    Y: 0x4000,
+    SELECT: 0x2000,
+    START: 0x1000,
+    UP: 0x0800,
+    DOWN: 0x0400,
+    LEFT: 0x0200,
+    RIGHT: 0x0100,
+    A: 0x0080,
+    X: 0x0040,
+    L: 0x0020,
+    R: 0x0010
+} as const;
+
+export type SNESButton = typeof SNESButton[keyof typeof SNESButton];
+
+// Controller state is injected by the host (keyboard, gamepad, test script);
+// the core itself never touches browser APIs.
 export class Input {
-    private controller1State: number = 0xFFFF; // All buttons released (active low)
-    private controller2State: number = 0xFFFF;
+    // Pressed buttons per controller, one SNESButton bit each
+    private controller1State: number = 0;
+    private controller2State: number = 0;
 
     private controller1Latch: number = 0;
     private controller2Latch: number = 0;
@@ -25,59 +33,19 @@ export class Input {
     private controller1Index: number = 0;
     private controller2Index: number = 0;
 
-    // Keyboard mapping
-    private keyMap: Map<string, SNESButton> = new Map([
-        ['ArrowUp', SNESButton.UP],
-        ['ArrowDown', SNESButton.DOWN],
-        ['ArrowLeft', SNESButton.LEFT],
-        ['ArrowRight', SNESButton.RIGHT],
-        ['KeyZ', SNESButton.B],
-        ['KeyX', SNESButton.A],
-        ['KeyA', SNESButton.Y],
-        ['KeyS', SNESButton.X],
-        ['KeyQ', SNESButton.L],
-        ['KeyW', SNESButton.R],
-        ['Enter', SNESButton.START],
-        ['ShiftRight', SNESButton.SELECT]
-    ]);
-
-    constructor() {
-        this.setupKeyboardListeners();
-    }
-
-    private setupKeyboardListeners(): void {
-        if (typeof window === 'undefined') return;
-
-        window.addEventListener('keydown', (event) => {
-            const button = this.keyMap.get(event.code);
-            if (button !== undefined) {
-                event.preventDefault();
-                this.pressButton(1, button);
-            }
-        });
-
-        window.addEventListener('keyup', (event) => {
-            const button = this.keyMap.get(event.code);
-            if (button !== undefined) {
-                event.preventDefault();
-                this.releaseButton(1, button);
-            }
-        });
-    }
-
     pressButton(controller: number, button: SNESButton): void {
         if (controller === 1) {
-            this.controller1State &= ~button; // Active low
+            this.controller1State |= button;
         } else if (controller === 2) {
-            this.controller2State &= ~button;
+            this.controller2State |= button;
         }
     }
 
     releaseButton(controller: number, button: SNESButton): void {
         if (controller === 1) {
-            this.controller1State |= button;
+            this.controller1State &= ~button;
         } else if (controller === 2) {
-            this.controller2State |= button;
+            this.controller2State &= ~button;
         }
     }
 
@@ -89,6 +57,15 @@ export class Input {
         }
     }
 
+    // Replaces the whole state of a controller with a mask of pressed buttons
+    setButtons(controller: number, buttons: number): void {
+        if (controller === 1) {
+            this.controller1State = buttons & 0xFFF0;
+        } else if (controller === 2) {
+            this.controller2State = buttons & 0xFFF0;
+        }
+    }
+
     // Called when $4016 is written to
     latchControllers(): void {
         this.controller1Latch = this.controller1State;
@@ -97,33 +74,41 @@ export class Input {
         this.controller2Index = 0;
     }
 
-    // Read controller state (called when reading $4016/$4017)
+    // Read controller state (called when reading $4016/$4017); 1 = pressed,
+    // and a standard controller returns 1 once its 16 bits are shifted out
     readController(controller: number): number {
         if (controller === 1) {
-            const bit = (this.controller1Latch >> (15 - this.controller1Index)) & 1;
-            this.controller1Index = (this.controller1Index + 1) % 16;
-            return bit;
+            if (this.controller1Index >= 16) return 1;
+            return (this.controller1Latch >> (15 - this.controller1Index++)) & 1;
         } else if (controller === 2) {
-            const bit = (this.controller2Latch >> (15 - this.controller2Index)) & 1;
-            this.controller2Index = (this.controller2Index + 1) % 16;
-            return bit;
+            if (this.controller2Index >= 16) return 1;
+            return (this.controller2Latch >> (15 - this.controller2Index++)) & 1;
         }
         return 1;
     }
 
-    getController1State(): number {
-        return this.controller1State;
+    // Button states come from the host and are not part of a snapshot
+    saveState(writer: StateWriter): void {
+        writer.section('INPT');
+        writer.u16(this.controller1Latch);
+        writer.u16(this.controller2Latch);
+        writer.u8(this.controller1Index);
+        writer.u8(this.controller2Index);
     }
 
-    getController2State(): number {
-        return this.controller2State;
+    loadState(reader: StateReader): void {
+        reader.section('INPT');
+        this.controller1Latch = reader.u16();
+        this.controller2Latch = reader.u16();
+        this.controller1Index = reader.u8();
+        this.controller2Index = reader.u8();
     }
 
-    setKeyMapping(key: string, button: SNESButton): void {
-        this.keyMap.set(key, button);
+    getController1State(): number {
+        return this.controller1State;
     }
 
-    getKeyMapping(): Map<string, SNESButton> {
-        return new Map(this.keyMap);
+    getController2State(): number {
+        return this.controller2State;
     }
 }
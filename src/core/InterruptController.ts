@@ -0,0 +1,195 @@
+// SNES Interrupt Controller
+// NMITIMEN ($4200), H/V IRQ timers ($4207-$420A), RDNMI ($4210), TIMEUP ($4211)
+// and HVBJOY ($4212).
+// The PPU reports VBlank edges, the scheduler reports beam progress, and the
+// resulting NMI/IRQ lines are forwarded to the CPU.
+
+import type { CPU65816 } from './CPU65816';
+import type { StateReader, StateWriter } from './SaveState';
+
+// Bits 0-3 of RDNMI hold the CPU revision
+const CPU_VERSION = 0x02;
+
+// HBlank covers dots 274-339 and 0 of every line
+const HBLANK_START_DOT = 274;
+
+// Auto-joypad reading keeps HVBJOY bit 0 set for about three lines after VBlank starts
+const AUTO_JOYPAD_LINES = 3;
+
+export class InterruptController {
+    private cpu: CPU65816 | null = null;
+
+    private nmitimen = 0;
+    private hTime = 0x1FF;
+    private vTime = 0x1FF;
+
+    // Latched flags, cleared when read
+    private nmiFlag = false;
+    private irqFlag = false;
+
+    private vblank = false;
+
+    // Beam position reported by the scheduler, for HVBJOY
+    private beamV = 0;
+    private beamH = 0;
+    private autoJoypadLines = 0;
+
+    setCPU(cpu: CPU65816): void { this.cpu = cpu; }
+
+    reset(): void {
+        this.nmitimen = 0;
+        this.hTime = 0x1FF;
+        this.vTime = 0x1FF;
+        this.nmiFlag = false;
+        this.irqFlag = false;
+        this.vblank = false;
+        this.beamV = 0;
+        this.beamH = 0;
+        this.autoJoypadLines = 0;
+        this.cpu?.setIRQ(false);
+    }
+
+    isNMIEnabled(): boolean { return (this.nmitimen & 0x80) !== 0; }
+    isAutoJoypadEnabled(): boolean { return (this.nmitimen & 0x01) !== 0; }
+
+    writeRegister(address: number, value: number): void {
+        switch (address) {
+            case 0x4200: { // NMITIMEN
+                const wasEnabled = this.isNMIEnabled();
+                this.nmitimen = value;
+
+                // Enabling NMI in the middle of VBlank fires it immediately
+                if (!wasEnabled && this.isNMIEnabled() && this.nmiFlag) {
+                    this.cpu?.nmi();
+                }
+                if (this.irqMode() === 0) {
+                    this.acknowledgeIRQ();
+                }
+                break;
+            }
+            case 0x4207: this.hTime = (this.hTime & 0x100) | value; break;
+            case 0x4208: this.hTime = ((value & 0x01) << 8) | (this.hTime & 0xFF); break;
+            case 0x4209: this.vTime = (this.vTime & 0x100) | value; break;
+            case 0x420A: this.vTime = ((value & 0x01) << 8) | (this.vTime & 0xFF); break;
+        }
+    }
+
+    readRegister(address: number): number {
+        if (address === 0x4210) { // RDNMI
+            const value = (this.nmiFlag ? 0x80 : 0) | CPU_VERSION;
+            this.nmiFlag = false;
+            return value;
+        }
+        if (address === 0x4211) { // TIMEUP
+            const value = this.irqFlag ? 0x80 : 0;
+            this.acknowledgeIRQ();
+            return value;
+        }
+        if (address === 0x4212) { // HVBJOY
+            const hblank = this.beamH >= HBLANK_START_DOT || this.beamH < 1;
+            return (this.vblank ? 0x80 : 0) | (hblank ? 0x40 : 0) | (this.autoJoypadLines > 0 ? 0x01 : 0);
+        }
+        return 0;
+    }
+
+    // Called by the PPU on the first VBlank scanline
+    enterVBlank(): void {
+        this.vblank = true;
+        this.nmiFlag = true;
+        // Counted down as the beam reaches new lines, the first of them being this one
+        this.autoJoypadLines = this.isAutoJoypadEnabled() ? AUTO_JOYPAD_LINES + 1 : 0;
+        if (this.isNMIEnabled()) {
+            this.cpu?.nmi();
+        }
+    }
+
+    // Called by the PPU when a new frame starts
+    leaveVBlank(): void {
+        this.vblank = false;
+        this.nmiFlag = false;
+    }
+
+    isVBlank(): boolean { return this.vblank; }
+
+    // Current beam position, latched into the PPU counters by SLHV/WRIO
+    getBeamH(): number { return this.beamH; }
+    getBeamV(): number { return this.beamV; }
+
+    /**
+     * Reports that the beam moved across dots [hFrom, hTo) of scanline `v`.
+     * Raises the timer IRQ when the configured H and/or V position was crossed.
+     */
+    advanceBeam(v: number, hFrom: number, hTo: number): void {
+        if (v !== this.beamV) {
+            this.beamV = v;
+            if (this.autoJoypadLines > 0) this.autoJoypadLines--;
+        }
+        this.beamH = hTo;
+
+        const mode = this.irqMode();
+        if (mode === 0) return;
+
+        const hHit = this.hTime >= hFrom && this.hTime < hTo;
+        let fire = false;
+
+        switch (mode) {
+            case 1: fire = hHit; break;                                    // Every line at HTIME
+            case 2: fire = v === this.vTime && hFrom === 0; break;        // Start of line VTIME
+            case 3: fire = v === this.vTime && hHit; break;               // HTIME on line VTIME
+        }
+
+        if (fire) {
+            this.irqFlag = true;
+            this.cpu?.setIRQ(true);
+        }
+    }
+
+    /**
+     * First dot at or after `hFrom` on scanline `v` where the timer IRQ can fire,
+     * or -1 when it cannot fire on the rest of this line.
+     */
+    nextIRQDot(v: number, hFrom: number): number {
+        switch (this.irqMode()) {
+            case 1: return this.hTime >= hFrom ? this.hTime : -1;
+            case 2: return v === this.vTime && hFrom === 0 ? 0 : -1;
+            case 3: return v === this.vTime && this.hTime >= hFrom ? this.hTime : -1;
+        }
+        return -1;
+    }
+
+    // The CPU saves its own copy of the NMI/IRQ lines
+    saveState(writer: StateWriter): void {
+        writer.section('INTC');
+        writer.u8(this.nmitimen);
+        writer.u16(this.hTime);
+        writer.u16(this.vTime);
+        writer.bool(this.nmiFlag);
+        writer.bool(this.irqFlag);
+        writer.bool(this.vblank);
+        writer.u16(this.beamV);
+        writer.u16(this.beamH);
+        writer.u8(this.autoJoypadLines);
+    }
+
+    loadState(reader: StateReader): void {
+        reader.section('INTC');
+        this.nmitimen = reader.u8();
+        this.hTime = reader.u16();
+        this.vTime = reader.u16();
+        this.nmiFlag = reader.bool();
+        this.irqFlag = reader.bool();
+        this.vblank = reader.bool();
+        this.beamV = reader.u16();
+        this.beamH = reader.u16();
+        this.autoJoypadLines = reader.u8();
+    }
+
+    private irqMode(): number {
+        return (this.nmitimen >> 4) & 0x03;
+    }
+
+    private acknowledgeIRQ(): void {
+        this.irqFlag = false;
+        this.cpu?.setIRQ(false);
+    }
+}
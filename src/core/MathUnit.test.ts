@@ -0,0 +1,81 @@
+// Math unit latency tests
+// The multiply and divide advance one step per CPU cycle, so a read issued
+// right after the start register is written sees a partial result
+
+import { describe, expect, it } from 'vitest';
+import { CPU65816 } from './CPU65816';
+import type { CPUBus } from './CPU65816';
+import { MathUnit } from './MathUnit';
+
+const NOP = 0xEA;
+const STP = 0xDB;
+const lda = (address: number) => [0xAD, address & 0xFF, address >> 8];
+
+// $FF x $01, then $FFFF / $01, both from emulation mode with 8-bit A
+const MULTIPLY = [0xA9, 0xFF, 0x8D, 0x02, 0x42, 0xA9, 0x01, 0x8D, 0x03, 0x42];
+const DIVIDE = [0xA9, 0xFF, 0x8D, 0x04, 0x42, 0x8D, 0x05, 0x42, 0xA9, 0x01, 0x8D, 0x06, 0x42];
+
+// D = $4200, so PEI $16 reads RDMPY on its third and fourth cycles out of six
+const DIRECT_PAGE_4200 = [0xA9, 0x42, 0xEB, 0xA9, 0x00, 0x5B];
+const PEI_RDMPY_PLA = [0xD4, 0x16, 0x68];
+
+// [description, program up to the start write, code that reads the result, expected A]
+const CASES: [string, number[], number[], number][] = [
+    ['RDMPYL right after WRMPYB', MULTIPLY, lda(0x4216), 0x0F],
+    ['RDMPYL one NOP later', MULTIPLY, [NOP, ...lda(0x4216)], 0x3F],
+    ['RDMPYL two NOPs later', MULTIPLY, [NOP, NOP, ...lda(0x4216)], 0xFF],
+    ['RDMPYL read early in an instruction', [...DIRECT_PAGE_4200, ...MULTIPLY], PEI_RDMPY_PLA, 0x07],
+    ['RDDIVL right after WRDIVB', DIVIDE, lda(0x4214), 0x0F],
+    ['RDMPYH right after WRDIVB', DIVIDE, lda(0x4217), 0x0F],
+    ['RDDIVL six NOPs later', DIVIDE, [NOP, NOP, NOP, NOP, NOP, NOP, ...lda(0x4214)], 0xFF],
+    ['RDMPYL six NOPs later', DIVIDE, [NOP, NOP, NOP, NOP, NOP, NOP, ...lda(0x4216)], 0x00]
+];
+
+// Flat memory with the math unit registers at $4202-$4217
+class TestBus implements CPUBus {
+    readonly ram = new Uint8Array(0x10000);
+    private mathUnit: MathUnit;
+
+    constructor(mathUnit: MathUnit) {
+        this.mathUnit = mathUnit;
+    }
+
+    read(address: number): number {
+        const offset = address & 0xFFFF;
+        if (offset >= 0x4214 && offset <= 0x4217) return this.mathUnit.readRegister(offset);
+        return this.ram[offset];
+    }
+
+    write(address: number, value: number): void {
+        const offset = address & 0xFFFF;
+        if (offset >= 0x4202 && offset <= 0x4206) this.mathUnit.writeRegister(offset, value);
+        this.ram[offset] = value;
+    }
+
+    accessCycles(): number {
+        return 6;
+    }
+}
+
+function run(program: number[]): number {
+    const mathUnit = new MathUnit();
+    const bus = new TestBus(mathUnit);
+    bus.ram.set([...program, STP], 0x8000);
+    bus.ram[0xFFFC] = 0x00;
+    bus.ram[0xFFFD] = 0x80;
+
+    const cpu = new CPU65816(bus);
+    cpu.reset();
+    mathUnit.setClock(() => cpu.getBusCycle());
+    for (let i = 0; i < 100 && !cpu.isStopped(); i++) cpu.step();
+
+    return cpu.getRegisters().A & 0xFF;
+}
+
+describe('MathUnit latency', () => {
+    for (const [description, start, read, expected] of CASES) {
+        it(description, () => {
+            expect(run([...start, ...read])).toBe(expected);
+        });
+    }
+});
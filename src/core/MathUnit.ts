@@ -0,0 +1,148 @@
+// SNES CPU Math Unit
+// Unsigned 8x8 multiply ($4202/$4203) and 16/8 divide ($4204-$4206) with
+// results in RDDIV ($4214/$4215) and RDMPY ($4216/$4217).
+//
+// The hardware works one bit per CPU cycle: a multiply takes 8 cycles and a
+// divide 16, and reading the result registers earlier returns the partial
+// values. The unit is stepped lazily up to the current cycle on every access.
+
+import type { StateReader, StateWriter } from './SaveState';
+
+const MULTIPLY_STEPS = 8;
+const DIVIDE_STEPS = 16;
+
+export class MathUnit {
+    private clock: () => number = () => 0;
+    private lastCycle = 0;
+
+    private wrmpya = 0xFF;
+    private wrdiva = 0xFFFF;
+
+    private rddiv = 0;
+    private rdmpy = 0;
+
+    // Remaining steps and the shifted operand of the running operation
+    private multiplySteps = 0;
+    private divideSteps = 0;
+    private shift = 0;
+
+    // Source of the CPU cycle the current bus access happens on
+    setClock(clock: () => number): void {
+        this.clock = clock;
+        this.lastCycle = clock();
+    }
+
+    reset(): void {
+        this.wrmpya = 0xFF;
+        this.wrdiva = 0xFFFF;
+        this.rddiv = 0;
+        this.rdmpy = 0;
+        this.multiplySteps = 0;
+        this.divideSteps = 0;
+        this.shift = 0;
+        this.lastCycle = this.clock();
+    }
+
+    writeRegister(address: number, value: number): void {
+        this.catchUp();
+
+        switch (address) {
+            case 0x4202: // WRMPYA
+                this.wrmpya = value;
+                break;
+
+            case 0x4203: // WRMPYB — starts the multiply
+                this.rdmpy = 0;
+                if (this.busy()) break;
+                this.rddiv = (value << 8) | this.wrmpya;
+                this.shift = value;
+                this.multiplySteps = MULTIPLY_STEPS;
+                break;
+
+            case 0x4204: // WRDIVL
+                this.wrdiva = (this.wrdiva & 0xFF00) | value;
+                break;
+
+            case 0x4205: // WRDIVH
+                this.wrdiva = (value << 8) | (this.wrdiva & 0x00FF);
+                break;
+
+            case 0x4206: // WRDIVB — starts the divide
+                this.rdmpy = this.wrdiva;
+                if (this.busy()) break;
+                this.shift = value << 16;
+                this.divideSteps = DIVIDE_STEPS;
+                break;
+        }
+    }
+
+    readRegister(address: number): number {
+        this.catchUp();
+
+        switch (address) {
+            case 0x4214: return this.rddiv & 0xFF;         // RDDIVL (quotient)
+            case 0x4215: return (this.rddiv >> 8) & 0xFF;  // RDDIVH
+            case 0x4216: return this.rdmpy & 0xFF;         // RDMPYL (product / remainder)
+            case 0x4217: return (this.rdmpy >> 8) & 0xFF;  // RDMPYH
+        }
+        return 0;
+    }
+
+    saveState(writer: StateWriter): void {
+        writer.section('MATH');
+        writer.f64(this.lastCycle);
+        writer.u8(this.wrmpya);
+        writer.u16(this.wrdiva);
+        writer.u16(this.rddiv);
+        writer.u16(this.rdmpy);
+        writer.u8(this.multiplySteps);
+        writer.u8(this.divideSteps);
+        writer.i32(this.shift);
+    }
+
+    loadState(reader: StateReader): void {
+        reader.section('MATH');
+        this.lastCycle = reader.f64();
+        this.wrmpya = reader.u8();
+        this.wrdiva = reader.u16();
+        this.rddiv = reader.u16();
+        this.rdmpy = reader.u16();
+        this.multiplySteps = reader.u8();
+        this.divideSteps = reader.u8();
+        this.shift = reader.i32();
+    }
+
+    private busy(): boolean {
+        return this.multiplySteps > 0 || this.divideSteps > 0;
+    }
+
+    // Runs the steps that would have happened since the last access
+    private catchUp(): void {
+        const now = this.clock();
+        let elapsed = Math.max(0, now - this.lastCycle);
+        this.lastCycle = now;
+
+        while (elapsed-- > 0 && this.busy()) {
+            this.stepOnce();
+        }
+    }
+
+    private stepOnce(): void {
+        if (this.multiplySteps > 0) {
+            this.multiplySteps--;
+            if (this.rddiv & 1) this.rdmpy = (this.rdmpy + this.shift) & 0xFFFF;
+            this.rddiv >>= 1;
+            this.shift <<= 1;
+        }
+
+        if (this.divideSteps > 0) {
+            this.divideSteps--;
+            this.rddiv = (this.rddiv << 1) & 0xFFFF;
+            this.shift >>= 1;
+            if (this.rdmpy >= this.shift) {
+                this.rdmpy -= this.shift;
+                this.rddiv |= 1;
+            }
+        }
+    }
+}
@@ -0,0 +1,196 @@
+// Memory tests: DMA and HDMA
+
+import { describe, expect, it } from 'vitest';
+import { Memory } from './Memory';
+
+const TABLE_ADDRESS = 0x7E1000;
+
+// B-bus writes seen by the PPU as [register & 0xFF, value]
+type BusWrite = [number, number];
+
+function createMemory(writes: BusWrite[], reads: number[] = []): Memory {
+    const memory = new Memory();
+    memory.setPPU({
+        writeRegister: (address: number, value: number) => writes.push([address & 0xFF, value]),
+        readRegister: (address: number) => {
+            reads.push(address & 0xFF);
+            return 0x5A;
+        }
+    });
+    return memory;
+}
+
+function load(memory: Memory, address: number, bytes: number[]): void {
+    bytes.forEach((value, i) => memory.write(address + i, value));
+}
+
+// Reads the 16-bit A1T (A-bus address) and DAS (byte count) of channel 0
+function channelState(memory: Memory): [number, number] {
+    return [
+        memory.read(0x4302) | (memory.read(0x4303) << 8),
+        memory.read(0x4305) | (memory.read(0x4306) << 8)
+    ];
+}
+
+/**
+ * Runs a general DMA on channel 0 and returns the memory with the B-bus
+ * writes it made. The source bytes in WRAM are 1, 2, 3...
+ */
+function runDMA(params: number, bAddress: number, aAddress: number, size: number, reads: number[] = []): [Memory, BusWrite[]] {
+    const writes: BusWrite[] = [];
+    const memory = createMemory(writes, reads);
+    load(memory, TABLE_ADDRESS, [1, 2, 3, 4, 5, 6, 7, 8]);
+
+    load(memory, 0x4300, [params, bAddress, aAddress & 0xFF, (aAddress >> 8) & 0xFF, aAddress >> 16, size & 0xFF, size >> 8]);
+    memory.write(0x420B, 0x01);
+    return [memory, writes];
+}
+
+// [DMAP mode, B registers written for 8 bytes starting at VMDATAL ($2118)]
+const PATTERN_CASES: [number, number[]][] = [
+    [0, [0x18, 0x18, 0x18, 0x18, 0x18, 0x18, 0x18, 0x18]],
+    [1, [0x18, 0x19, 0x18, 0x19, 0x18, 0x19, 0x18, 0x19]],
+    [2, [0x18, 0x18, 0x18, 0x18, 0x18, 0x18, 0x18, 0x18]],
+    [3, [0x18, 0x18, 0x19, 0x19, 0x18, 0x18, 0x19, 0x19]],
+    [4, [0x18, 0x19, 0x1A, 0x1B, 0x18, 0x19, 0x1A, 0x1B]],
+    [5, [0x18, 0x19, 0x18, 0x19, 0x18, 0x19, 0x18, 0x19]],
+    [6, [0x18, 0x18, 0x18, 0x18, 0x18, 0x18, 0x18, 0x18]],
+    [7, [0x18, 0x18, 0x19, 0x19, 0x18, 0x18, 0x19, 0x19]]
+];
+
+// [description, DMAP, start address, values written, A1T and DAS afterwards]
+const STEP_CASES: [string, number, number, number[], [number, number]][] = [
+    ['increments the A-bus address', 0x00, TABLE_ADDRESS, [1, 2, 3, 4], [0x1004, 0]],
+    ['decrements the A-bus address', 0x10, TABLE_ADDRESS + 3, [4, 3, 2, 1], [0x0FFF, 0]],
+    ['keeps a fixed A-bus address', 0x08, TABLE_ADDRESS + 1, [2, 2, 2, 2], [0x1001, 0]]
+];
+
+describe('DMA', () => {
+    for (const [mode, registers] of PATTERN_CASES) {
+        it(`transfer mode ${mode} walks its B-bus pattern`, () => {
+            const [, writes] = runDMA(mode, 0x18, TABLE_ADDRESS, 8);
+            expect(writes.map(([register]) => register)).toEqual(registers);
+        });
+    }
+
+    for (const [description, params, start, values, state] of STEP_CASES) {
+        it(description, () => {
+            const [memory, writes] = runDMA(params, 0x18, start, 4);
+            expect(writes.map(([, value]) => value)).toEqual(values);
+            expect(channelState(memory)).toEqual(state);
+        });
+    }
+
+    it('copies B-bus reads into the A bus', () => {
+        const reads: number[] = [];
+        const [memory] = runDMA(0x80, 0x34, 0x7E3000, 3, reads);
+        expect(reads).toEqual([0x34, 0x34, 0x34]);
+        expect([0, 1, 2, 3].map(i => memory.read(0x7E3000 + i))).toEqual([0x5A, 0x5A, 0x5A, 0x00]);
+    });
+
+    it('stalls the CPU per $420B write, per channel and per byte', () => {
+        const memory = createMemory([]);
+        load(memory, 0x4300, [0x00, 0x18, 0x00, 0x10, 0x7E, 0x04, 0x00]);
+        load(memory, 0x4310, [0x00, 0x18, 0x00, 0x10, 0x7E, 0x02, 0x00]);
+        memory.write(0x420B, 0x03);
+
+        expect(memory.takeStallCycles()).toBe(18 + 2 * 8 + 6 * 8);
+        expect(memory.takeStallCycles()).toBe(0);
+    });
+
+    it('a count of zero transfers 64KB', () => {
+        const [memory, writes] = runDMA(0x08, 0x18, TABLE_ADDRESS, 0);
+        expect(writes).toHaveLength(0x10000);
+        expect(memory.takeStallCycles()).toBe(18 + 8 + 0x10000 * 8);
+    });
+
+    // Open bus is the last value on the data bus: the $420B write that started the DMA
+    it('writes open bus to the B bus when the A bus cannot reach its source', () => {
+        const [memory, writes] = runDMA(0x00, 0x18, 0x002104, 2);
+        expect(writes).toEqual([[0x18, 0x01], [0x18, 0x01]]);
+        expect(channelState(memory)).toEqual([0x2106, 0]);
+    });
+
+    it('writes open bus through WMDATA when the source is WRAM', () => {
+        const memory = createMemory([]);
+        load(memory, TABLE_ADDRESS, [0x11, 0x22, 0x33]);
+        load(memory, 0x2181, [0x00, 0x20, 0x00]);
+
+        load(memory, 0x4300, [0x00, 0x80, 0x00, 0x10, 0x7E, 0x03, 0x00]);
+        memory.write(0x420B, 0x01);
+        expect([0, 1, 2].map(i => memory.read(0x7E2000 + i))).toEqual([0x01, 0x01, 0x01]);
+        expect(channelState(memory)).toEqual([0x1003, 0]);
+    });
+
+    it('still reads the B bus when the A bus cannot reach its target', () => {
+        const reads: number[] = [];
+        const [memory, writes] = runDMA(0x80, 0x34, 0x002118, 2, reads);
+        expect(reads).toEqual([0x34, 0x34]);
+        expect(writes).toEqual([]);
+        expect(channelState(memory)).toEqual([0x211A, 0]);
+    });
+});
+
+/**
+ * Sets up HDMA channel 0 towards BG1HOFS ($210D) with its table in WRAM and
+ * returns the writes made by the frame's first transfer and each HBlank after it.
+ */
+function runHDMA(params: number, table: number[], data: [number, number[]][], lines: number): BusWrite[][] {
+    const writes: BusWrite[] = [];
+    const memory = createMemory(writes);
+    load(memory, TABLE_ADDRESS, table);
+    for (const [address, bytes] of data) load(memory, address, bytes);
+
+    load(memory, 0x4300, [params, 0x0D, TABLE_ADDRESS & 0xFF, (TABLE_ADDRESS >> 8) & 0xFF, TABLE_ADDRESS >> 16]);
+    memory.write(0x4307, 0x7E);
+    memory.write(0x420C, 0x01);
+
+    const perLine: BusWrite[][] = [];
+    for (let line = 0; line < lines; line++) {
+        if (line === 0) memory.hdmaInit();
+        memory.hdmaRun();
+        perLine.push(writes.splice(0));
+    }
+    return perLine;
+}
+
+// [description, DMAP, table, indirect data as [address, bytes], writes per line]
+const HDMA_CASES: [string, number, number[], [number, number[]][], BusWrite[][]][] = [
+    ['a line count writes once and waits out the block', 0x00, [0x03, 0xA0, 0x02, 0xB0, 0x00], [],
+        [[[0x0D, 0xA0]], [], [], [[0x0D, 0xB0]], [], []]],
+    ['repeat mode writes on every line of the block', 0x00, [0x83, 0x01, 0x02, 0x03, 0x00], [],
+        [[[0x0D, 0x01]], [[0x0D, 0x02]], [[0x0D, 0x03]], []]],
+    ['a zero line count ends the table for the frame', 0x00, [0x00, 0xA0], [],
+        [[], []]],
+    ['mode 1 writes two registers per line', 0x01, [0x82, 0x11, 0x12, 0x21, 0x22, 0x00], [],
+        [[[0x0D, 0x11], [0x0E, 0x12]], [[0x0D, 0x21], [0x0E, 0x22]], []]],
+    ['mode 2 writes one register twice', 0x02, [0x01, 0x11, 0x12, 0x00], [],
+        [[[0x0D, 0x11], [0x0D, 0x12]], []]],
+    ['indirect mode reads the data through the table pointer', 0x40, [0x82, 0x00, 0x20, 0x00],
+        [[0x7E2000, [0x55, 0x66]]],
+        [[[0x0D, 0x55]], [[0x0D, 0x66]], []]],
+    ['indirect mode reloads the pointer for each block', 0x40, [0x02, 0x00, 0x20, 0x81, 0x10, 0x20, 0x00],
+        [[0x7E2000, [0x55]], [0x7E2010, [0x77]]],
+        [[[0x0D, 0x55]], [], [[0x0D, 0x77]], []]]
+];
+
+describe('HDMA', () => {
+    for (const [description, params, table, data, expected] of HDMA_CASES) {
+        it(description, () => {
+            expect(runHDMA(params, table, data, expected.length)).toEqual(expected);
+        });
+    }
+
+    it('stalls the CPU for table reads and transfers', () => {
+        const memory = createMemory([]);
+        load(memory, TABLE_ADDRESS, [0x82, 0x11, 0x22, 0x00]);
+        load(memory, 0x4300, [0x00, 0x0D, 0x00, 0x10, 0x7E]);
+        memory.write(0x420C, 0x01);
+
+        // 18 of overhead plus 8 per byte: the line counter and each transfer
+        expect(memory.hdmaInit()).toBe(18 + 8);
+        expect(memory.hdmaRun()).toBe(18 + 8 + 8);
+        expect(memory.hdmaRun()).toBe(18 + 8 + 8);
+        expect(memory.hdmaRun()).toBe(0);
+    });
+});
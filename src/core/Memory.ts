@@ -3,6 +3,46 @@
  * Implementação completa com DMA multi-canal e mapeamento correto
  */
 
+import type { InterruptController } from './InterruptController';
+import type { MathUnit } from './MathUnit';
+import { Region, accessCycles, buildMemoryMap, pageOf } from './MemoryMap';
+import type { CartridgeType, MemoryMap } from './MemoryMap';
+import { crc32 } from './SaveState';
+import type { StateReader, StateWriter } from './SaveState';
+
+// Canal de DMA/HDMA ($43x0-$43xA). DMA geral e HDMA compartilham os registradores:
+// DAS é o contador de bytes do DMA e o endereço indireto do HDMA
+interface DMAChannel {
+    params: number;        // DMAPx
+    bAddress: number;      // BBADx
+    aAddress: number;      // A1Tx: endereço do DMA / início da tabela HDMA
+    aBank: number;         // A1Bx
+    size: number;          // DASx
+    indirectBank: number;  // DASBx
+    tableAddress: number;  // A2Ax: posição atual na tabela HDMA
+    lineCounter: number;   // NLTRx: bit 7 = repeat
+    unused: number;        // $43xB/$43xF
+    hdmaDoTransfer: boolean;
+    hdmaCompleted: boolean;
+}
+
+// Offsets no barramento B escritos por unidade de transferência, por modo (DMAP bits 0-2)
+const TRANSFER_PATTERNS = [
+    [0],
+    [0, 1],
+    [0, 0],
+    [0, 0, 1, 1],
+    [0, 1, 2, 3],
+    [0, 1, 0, 1],
+    [0, 0],
+    [0, 0, 1, 1]
+];
+
+// Custo do DMA/HDMA em ciclos master (CPU parada)
+const DMA_CHANNEL_CYCLES = 8;
+const DMA_BYTE_CYCLES = 8;
+const DMA_OVERHEAD_CYCLES = 18;
+
 export class Memory {
     private wram = new Uint8Array(128 * 1024);
     private vram = new Uint8Array(64 * 1024);
@@ -11,22 +51,32 @@ export class Memory {
 
     private rom: Uint8Array | null = null;
     private romSize = 0;
-    private romType: 'LoROM' | 'HiROM' = 'LoROM';
+    private romChecksum = 0;
+    private romType: CartridgeType = 'LoROM';
+    private map: MemoryMap = buildMemoryMap('LoROM');
+    private sram = new Uint8Array(0);
+    private sramWriteCallback: (() => void) | null = null;
+    private fastROM = false;
+    private stallCycles = 0;
+
+    // Último valor no barramento de dados, devolvido por leituras sem dispositivo (open bus)
+    private mdr = 0;
+
+    // WMDATA ($2180): acesso sequencial à WRAM pelo barramento B, endereço de 17 bits
+    private wmAddress = 0;
+
+    private wrio = 0xFF;                   // $4201
+    private joypad = new Uint16Array(4);   // $4218-$421F, lidos pelo auto-joypad
 
     private ioRegisters = new Uint8Array(0x4380);
     private ppu: any = null;
     private apu: any = null;
     private input: any = null;
+    private interrupts: InterruptController | null = null;
+    private mathUnit: MathUnit | null = null;
 
     // DMA - 8 canais
-    private dmaChannels: Array<{
-        params: number;
-        bAddress: number;
-        aAddress: number;
-        aBank: number;
-        size: number;
-        hdmaBank: number;
-    }> = [];
+    private dmaChannels: DMAChannel[] = [];
 
     constructor() {
         // Inicializa 8 canais DMA
@@ -37,7 +87,12 @@ export class Memory {
                 aAddress: 0,
                 aBank: 0,
                 size: 0,
-                hdmaBank: 0
+                indirectBank: 0,
+                tableAddress: 0,
+                lineCounter: 0,
+                unused: 0,
+                hdmaDoTransfer: false,
+                hdmaCompleted: true
             };
         }
     }
@@ -45,6 +100,17 @@ export class Memory {
     setPPU(ppu: any): void { this.ppu = ppu; }
     setAPU(apu: any): void { this.apu = apu; }
     setInput(input: any): void { this.input = input; }
+    setInterruptController(interrupts: InterruptController): void { this.interrupts = interrupts; }
+    setMathUnit(mathUnit: MathUnit): void { this.mathUnit = mathUnit; }
+
+    // Registradores de I/O voltam ao estado de power-on; WRAM é preservada
+    reset(): void {
+        this.fastROM = false;
+        this.stallCycles = 0;
+        this.wmAddress = 0;
+        this.wrio = 0xFF;
+        this.joypad.fill(0);
+    }
 
     loadROM(data: Uint8Array): void {
         let romData = data;
@@ -54,77 +120,139 @@ export class Memory {
 
         this.rom = romData;
         this.romSize = romData.length;
+        this.romChecksum = crc32(romData);
         this.detectROMType();
+        this.map = buildMemoryMap(this.romType);
+        this.sram = new Uint8Array(this.headerRAMSize()).fill(0xFF);
 
         console.log(`✅ ROM loaded (${this.romType}) — ${(this.romSize / 1024).toFixed(0)}KB`);
     }
 
     read(address: number): number {
-        const bank = (address >> 16) & 0xFF;
-        const offset = address & 0xFFFF;
+        this.mdr = this.readBus(address);
+        return this.mdr;
+    }
 
-        // WRAM ($7E-$7F)
-        if (bank === 0x7E || bank === 0x7F) {
-            return this.wram[((bank - 0x7E) << 16) | offset];
+    private readBus(address: number): number {
+        const page = pageOf(address);
+        const offset = this.map.bases[page] + (address & 0xFFF);
+
+        switch (this.map.regions[page]) {
+            case Region.WRAM:
+                return this.wram[offset];
+            case Region.IO:
+                return this.readIO(address & 0xFFFF);
+            case Region.ROM:
+                return this.rom ? this.rom[offset % this.romSize] : 0xFF;
+            case Region.SRAM:
+                if (this.sram.length > 0) return this.sram[offset % this.sram.length];
+                break;
         }
 
-        // Low RAM mirror ($00-$3F/$80-$BF: $0000-$1FFF)
-        if (offset < 0x2000) {
-            return this.wram[offset];
-        }
+        // Sem dispositivo mapeado (ou cartucho sem SRAM): open bus
+        return this.mdr;
+    }
 
-        // PPU/APU/IO Registers ($00-$3F/$80-$BF: $2000-$5FFF)
-        if (offset >= 0x2000 && offset < 0x6000) {
-            return this.readIO(offset);
+    write(address: number, value: number): void {
+        const page = pageOf(address);
+        this.mdr = value;
+
+        switch (this.map.regions[page]) {
+            case Region.WRAM:
+                this.wram[this.map.bases[page] + (address & 0xFFF)] = value;
+                break;
+            case Region.IO:
+                this.writeIO(address & 0xFFFF, value);
+                break;
+            case Region.SRAM:
+                if (this.sram.length > 0) {
+                    this.sram[(this.map.bases[page] + (address & 0xFFF)) % this.sram.length] = value;
+                    this.sramWriteCallback?.();
+                }
+                break;
         }
+    }
 
-        // ROM
-        return this.readROM(bank, offset);
+    /**
+     * Ciclos master gastos pela CPU num acesso a `address`
+     * (6, 8 ou 12, com FastROM controlado por MEMSEL).
+     */
+    accessCycles(address: number): number {
+        return accessCycles(address, this.fastROM);
     }
 
-    write(address: number, value: number): void {
-        const bank = (address >> 16) & 0xFF;
-        const offset = address & 0xFFFF;
+    private readIO(offset: number): number {
+        // Input ports: bit 0 traz o dado serial, $4017 tem os bits 2-4 sempre em 1
+        if (offset === 0x4016) {
+            return (this.mdr & 0xFC) | (this.input ? this.input.readController(1) & 1 : 0);
+        }
+        if (offset === 0x4017) {
+            return (this.mdr & 0xE0) | 0x1C | (this.input ? this.input.readController(2) & 1 : 0);
+        }
 
-        // WRAM
-        if (bank === 0x7E || bank === 0x7F) {
-            this.wram[((bank - 0x7E) << 16) | offset] = value;
-            return;
+        // WMDATA: lê a WRAM e avança o endereço
+        if (offset === 0x2180) {
+            const value = this.wram[this.wmAddress];
+            this.wmAddress = (this.wmAddress + 1) & 0x1FFFF;
+            return value;
         }
 
-        // Low RAM mirror
-        if (offset < 0x2000) {
-            this.wram[offset] = value;
-            return;
+        // APU ports (espelhadas em $2140-$217F)
+        if (offset >= 0x2140 && offset <= 0x217F && this.apu) {
+            return this.apu.readPort(offset & 0x03);
         }
 
-        // IO Registers
-        if (offset >= 0x2000 && offset < 0x6000) {
-            this.writeIO(offset, value);
+        // Registradores dos canais de DMA (refletem o progresso do HDMA)
+        if (offset >= 0x4300 && offset < 0x4380) {
+            return this.readDMARegister(offset);
         }
-    }
-    private readIO(offset: number): number {
-        // Input ports
-        if (offset === 0x4016 && this.input) {
-            return this.input.readController(1);
+
+        // RDNMI / TIMEUP (leitura limpa o flag) e HVBJOY; bits não usados são open bus
+        if (offset === 0x4210 && this.interrupts) {
+            return this.interrupts.readRegister(offset) | (this.mdr & 0x70);
+        }
+        if (offset === 0x4211 && this.interrupts) {
+            return this.interrupts.readRegister(offset) | (this.mdr & 0x7F);
         }
-        if (offset === 0x4017 && this.input) {
-            return this.input.readController(2);
+        if (offset === 0x4212 && this.interrupts) {
+            return this.interrupts.readRegister(offset) | (this.mdr & 0x3E);
         }
 
-        // APU ports
-        if (offset >= 0x2140 && offset <= 0x2143 && this.apu) {
-            return this.apu.readPort(offset - 0x2140);
+        // RDIO: sem nada ligado à porta, os pinos refletem o que foi escrito em WRIO
+        if (offset === 0x4213) {
+            return this.wrio;
         }
 
-        // PPU Status registers
-        if (offset === 0x2137) return 0; // SLHV
-        if (offset === 0x213C) return 0; // OPHCT
-        if (offset === 0x213D) return 0; // OPVCT
-        if (offset === 0x213E) return 0x01; // STAT77
-        if (offset === 0x213F) return 0x02; // STAT78
+        // JOY1L-JOY4H: resultado do auto-joypad
+        if (offset >= 0x4218 && offset <= 0x421F) {
+            const value = this.joypad[(offset - 0x4218) >> 1];
+            return (offset & 1) ? value >> 8 : value & 0xFF;
+        }
+
+        // Resultados de multiplicação/divisão
+        if (offset >= 0x4214 && offset <= 0x4217 && this.mathUnit) {
+            return this.mathUnit.readRegister(offset);
+        }
 
-        return this.ioRegisters[offset - 0x2000] || 0;
+        // PPU: $2134-$213F são legíveis; dos registradores só de escrita,
+        // $21x4-$21x6 e $21x8-$21xA devolvem o open bus da PPU1
+        if (offset >= 0x2100 && offset <= 0x213F && this.ppu) {
+            if (offset === 0x2137) { // SLHV: trava os contadores, o valor é open bus
+                if (this.wrio & 0x80) this.latchPPUCounters();
+                return this.mdr;
+            }
+            if (offset >= 0x2134) {
+                return this.ppu.readRegister(offset);
+            }
+            const low = offset & 0x0F;
+            if (offset < 0x2130 && ((low >= 0x4 && low <= 0x6) || (low >= 0x8 && low <= 0xA))) {
+                return this.ppu.getPPU1OpenBus();
+            }
+            return this.mdr;
+        }
+
+        // Registradores só de escrita e endereços sem dispositivo
+        return this.mdr;
     }
 
     private writeIO(offset: number, value: number): void {
@@ -135,9 +263,40 @@ export class Memory {
             this.ppu.writeRegister(offset, value);
         }
 
-        // APU Ports
-        if (offset >= 0x2140 && offset <= 0x2143 && this.apu) {
-            this.apu.writePort(offset - 0x2140, value);
+        // APU Ports (espelhadas em $2140-$217F)
+        if (offset >= 0x2140 && offset <= 0x217F && this.apu) {
+            this.apu.writePort(offset & 0x03, value);
+        }
+
+        // NMITIMEN e timers de IRQ H/V
+        if ((offset === 0x4200 || (offset >= 0x4207 && offset <= 0x420A)) && this.interrupts) {
+            this.interrupts.writeRegister(offset, value);
+        }
+
+        // Unidade de multiplicação/divisão
+        if (offset >= 0x4202 && offset <= 0x4206 && this.mathUnit) {
+            this.mathUnit.writeRegister(offset, value);
+        }
+
+        // WMDATA e WMADDL/M/H
+        switch (offset) {
+            case 0x2180:
+                this.wram[this.wmAddress] = value;
+                this.wmAddress = (this.wmAddress + 1) & 0x1FFFF;
+                break;
+            case 0x2181: this.wmAddress = (this.wmAddress & 0x1FF00) | value; break;
+            case 0x2182: this.wmAddress = (this.wmAddress & 0x100FF) | (value << 8); break;
+            case 0x2183: this.wmAddress = ((value & 0x01) << 16) | (this.wmAddress & 0xFFFF); break;
+            case 0x4201:
+                // Borda de descida do bit 7 trava os contadores H/V da PPU
+                if ((this.wrio & 0x80) && !(value & 0x80)) this.latchPPUCounters();
+                this.wrio = value;
+                break;
+        }
+
+        // MEMSEL: bit 0 ativa FastROM nos bancos $80-$FF
+        if (offset === 0x420D) {
+            this.fastROM = (value & 0x01) !== 0;
         }
 
         // Input
@@ -152,22 +311,30 @@ export class Memory {
     private handleDMA(offset: number, value: number): void {
         // DMA Channel registers ($43x0-$43xF for channel x)
         if (offset >= 0x4300 && offset < 0x4380) {
-            const channel = Math.floor((offset - 0x4300) / 16);
-            const reg = offset & 0x0F;
-
-            switch (reg) {
-                case 0x00: this.dmaChannels[channel].params = value; break;
-                case 0x01: this.dmaChannels[channel].bAddress = value; break;
-                case 0x02: this.dmaChannels[channel].aAddress = (this.dmaChannels[channel].aAddress & 0xFF00) | value; break;
-                case 0x03: this.dmaChannels[channel].aAddress = (value << 8) | (this.dmaChannels[channel].aAddress & 0x00FF); break;
-                case 0x04: this.dmaChannels[channel].aBank = value; break;
-                case 0x05: this.dmaChannels[channel].size = (this.dmaChannels[channel].size & 0xFF00) | value; break;
-                case 0x06: this.dmaChannels[channel].size = (value << 8) | (this.dmaChannels[channel].size & 0x00FF); break;
+            const dma = this.dmaChannels[(offset >> 4) & 0x07];
+
+            switch (offset & 0x0F) {
+                case 0x00: dma.params = value; break;
+                case 0x01: dma.bAddress = value; break;
+                case 0x02: dma.aAddress = (dma.aAddress & 0xFF00) | value; break;
+                case 0x03: dma.aAddress = (value << 8) | (dma.aAddress & 0x00FF); break;
+                case 0x04: dma.aBank = value; break;
+                case 0x05: dma.size = (dma.size & 0xFF00) | value; break;
+                case 0x06: dma.size = (value << 8) | (dma.size & 0x00FF); break;
+                case 0x07: dma.indirectBank = value; break;
+                case 0x08: dma.tableAddress = (dma.tableAddress & 0xFF00) | value; break;
+                case 0x09: dma.tableAddress = (value << 8) | (dma.tableAddress & 0x00FF); break;
+                case 0x0A: dma.lineCounter = value; break;
+                case 0x0B: case 0x0F: dma.unused = value; break;
             }
         }
 
-        // DMA Enable ($420B)
-        if (offset === 0x420B) {
+        // DMA Enable ($420B): canais em ordem de prioridade, 0 primeiro. Um canal
+        // com HDMA ativo divide aAddress/size com o DMA: como no hardware, o HDMA
+        // segue com o endereço indireto zerado e, no próximo frame, relê a tabela
+        // a partir do aAddress que o DMA deixou
+        if (offset === 0x420B && value !== 0) {
+            this.stallCycles += DMA_OVERHEAD_CYCLES;
             for (let i = 0; i < 8; i++) {
                 if (value & (1 << i)) {
                     this.executeDMA(i);
@@ -175,60 +342,220 @@ export class Memory {
             }
         }
 
-        // HDMA Enable ($420C)
-        if (offset === 0x420C) {
-            // HDMA implementation (complex)
+        // HDMA Enable ($420C): guardado em ioRegisters, lido a cada linha
+    }
+
+    private latchPPUCounters(): void {
+        if (this.ppu && this.interrupts) {
+            this.ppu.latchCounters(this.interrupts.getBeamH(), this.interrupts.getBeamV());
+        }
+    }
+
+    private readDMARegister(offset: number): number {
+        const dma = this.dmaChannels[(offset >> 4) & 0x07];
+
+        switch (offset & 0x0F) {
+            case 0x00: return dma.params;
+            case 0x01: return dma.bAddress;
+            case 0x02: return dma.aAddress & 0xFF;
+            case 0x03: return dma.aAddress >> 8;
+            case 0x04: return dma.aBank;
+            case 0x05: return dma.size & 0xFF;
+            case 0x06: return dma.size >> 8;
+            case 0x07: return dma.indirectBank;
+            case 0x08: return dma.tableAddress & 0xFF;
+            case 0x09: return dma.tableAddress >> 8;
+            case 0x0A: return dma.lineCounter;
+            case 0x0B: case 0x0F: return dma.unused;
         }
+        return this.mdr; // $43xC-$43xE: open bus
     }
 
+    /**
+     * Leitura automática dos controles no início do VBlank (NMITIMEN bit 0):
+     * desloca os 16 bits de cada porta para JOY1/JOY2, como a CPU faria por $4016/$4017.
+     * JOY3/JOY4 (multitap) ficam em 0.
+     */
+    autoJoypadRead(): void {
+        if (!this.input) return;
+
+        this.input.latchControllers();
+        let joy1 = 0;
+        let joy2 = 0;
+        for (let i = 0; i < 16; i++) {
+            joy1 = (joy1 << 1) | (this.input.readController(1) & 1);
+            joy2 = (joy2 << 1) | (this.input.readController(2) & 1);
+        }
+        this.joypad[0] = joy1;
+        this.joypad[1] = joy2;
+        this.joypad[2] = 0;
+        this.joypad[3] = 0;
+    }
+
+    // ==========================================
+    // HDMA
+    // ==========================================
+
+    /**
+     * Início do frame (V=0): recarrega as tabelas de todos os canais ativos em
+     * HDMAEN. Devolve os ciclos master em que a CPU fica parada.
+     *
+     * No hardware o init interrompe um DMA geral em andamento no mesmo canal;
+     * aqui o DMA de $420B roda inteiro dentro da escrita, então nunca há um
+     * DMA pendente quando o init chega.
+     */
+    hdmaInit(): number {
+        const enabled = this.ioRegisters[0x420C - 0x2000];
+        let cycles = 0;
+
+        for (let i = 0; i < 8; i++) {
+            const dma = this.dmaChannels[i];
+            dma.hdmaDoTransfer = true;
+            if (!(enabled & (1 << i))) continue;
+
+            dma.tableAddress = dma.aAddress;
+            dma.lineCounter = 0;
+            dma.hdmaCompleted = false;
+            cycles += this.hdmaReload(i);
+        }
+
+        return cycles > 0 ? cycles + DMA_OVERHEAD_CYCLES : 0;
+    }
+
+    /**
+     * HBlank de uma linha visível (H=1104): transfere uma unidade por canal
+     * ativo e avança o contador de linhas. Devolve os ciclos master de parada.
+     */
+    hdmaRun(): number {
+        const enabled = this.ioRegisters[0x420C - 0x2000];
+        let cycles = 0;
+
+        // Transferências
+        for (let i = 0; i < 8; i++) {
+            const dma = this.dmaChannels[i];
+            if (!this.hdmaActive(i, enabled) || !dma.hdmaDoTransfer) continue;
+
+            const indirect = (dma.params & 0x40) !== 0;
+            const toCPU = (dma.params & 0x80) !== 0;
+
+            for (const unit of TRANSFER_PATTERNS[dma.params & 0x07]) {
+                let address: number;
+                if (indirect) {
+                    address = (dma.indirectBank << 16) | dma.size;
+                    dma.size = (dma.size + 1) & 0xFFFF;
+                } else {
+                    address = (dma.aBank << 16) | dma.tableAddress;
+                    dma.tableAddress = (dma.tableAddress + 1) & 0xFFFF;
+                }
+
+                const bAddress = 0x2100 | ((dma.bAddress + unit) & 0xFF);
+                if (toCPU) {
+                    this.write(address, this.readIO(bAddress));
+                } else {
+                    this.writeIO(bAddress, this.read(address));
+                }
+                cycles += DMA_BYTE_CYCLES;
+            }
+        }
+
+        // Contadores de linha: repeat (bit 7) transfere em todas as linhas do bloco
+        for (let i = 0; i < 8; i++) {
+            const dma = this.dmaChannels[i];
+            if (!this.hdmaActive(i, enabled)) continue;
+
+            dma.lineCounter = (dma.lineCounter - 1) & 0xFF;
+            dma.hdmaDoTransfer = (dma.lineCounter & 0x80) !== 0;
+            cycles += this.hdmaReload(i);
+        }
+
+        return cycles > 0 ? cycles + DMA_OVERHEAD_CYCLES : 0;
+    }
+
+    private hdmaActive(channel: number, enabled: number): boolean {
+        return (enabled & (1 << channel)) !== 0 && !this.dmaChannels[channel].hdmaCompleted;
+    }
+
+    // Lê a próxima entrada da tabela quando o bloco atual termina
+    private hdmaReload(channel: number): number {
+        const dma = this.dmaChannels[channel];
+        if ((dma.lineCounter & 0x7F) !== 0) return DMA_BYTE_CYCLES;
+
+        const tableBase = dma.aBank << 16;
+        dma.lineCounter = this.read(tableBase | dma.tableAddress);
+        dma.tableAddress = (dma.tableAddress + 1) & 0xFFFF;
+        dma.hdmaCompleted = dma.lineCounter === 0;
+        dma.hdmaDoTransfer = !dma.hdmaCompleted;
+        let cycles = DMA_BYTE_CYCLES;
+
+        // Modo indireto: a tabela traz o endereço dos dados (2 bytes)
+        if (dma.params & 0x40) {
+            const low = this.read(tableBase | dma.tableAddress);
+            dma.tableAddress = (dma.tableAddress + 1) & 0xFFFF;
+            const high = this.read(tableBase | dma.tableAddress);
+            dma.tableAddress = (dma.tableAddress + 1) & 0xFFFF;
+            dma.size = (high << 8) | low;
+            cycles += 2 * DMA_BYTE_CYCLES;
+        }
+
+        return cycles;
+    }
+
+    // DMA geral: transfere DASx bytes (0 = 65536) e deixa a CPU parada 8 ciclos por byte
     private executeDMA(channel: number): void {
         const dma = this.dmaChannels[channel];
-        const direction = (dma.params & 0x80) !== 0; // 0=CPU->PPU, 1=PPU->CPU
-        const mode = dma.params & 0x07;
+        const toCPU = (dma.params & 0x80) !== 0;
+        const fixed = (dma.params & 0x08) !== 0;
+        const step = fixed ? 0 : (dma.params & 0x10) ? -1 : 1;
+        const pattern = TRANSFER_PATTERNS[dma.params & 0x07];
 
-        let srcAddr = (dma.aBank << 16) | dma.aAddress;
         let size = dma.size || 0x10000;
+        let unit = 0;
 
-        if (!this.ppu) return;
+        this.stallCycles += DMA_CHANNEL_CYCLES;
 
-        console.log(`🚚 DMA Channel ${channel}: $${srcAddr.toString(16)} → $21${dma.bAddress.toString(16).padStart(2, '0')} (${size} bytes)`);
+        while (size > 0) {
+            const aAddress = (dma.aBank << 16) | dma.aAddress;
+            const bAddress = 0x2100 | ((dma.bAddress + pattern[unit]) & 0xFF);
 
-        for (let i = 0; i < size; i++) {
-            if (direction === false) {
-                // CPU -> PPU
-                const data = this.read(srcAddr + i);
-                this.ppu.writeRegister(0x2100 + dma.bAddress, data);
+            // Acessos inválidos não somem: o outro lado ainda é escrito com o
+            // que sobrou no barramento de dados (mdr)
+            const aReachable = this.dmaReachesA(aAddress);
+            const wramToWram = bAddress === 0x2180 && this.map.regions[pageOf(aAddress)] === Region.WRAM;
+            if (toCPU) {
+                if (!wramToWram) this.mdr = this.readIO(bAddress);
+                if (aReachable) this.write(aAddress, this.mdr);
             } else {
-                // PPU -> CPU (raro)
-                const data = this.ppu.readRegister(0x2100 + dma.bAddress);
-                this.write(srcAddr + i, data);
+                if (aReachable && !wramToWram) this.read(aAddress);
+                this.writeIO(bAddress, this.mdr);
             }
+
+            // O endereço A avança só nos 16 bits baixos; o banco é fixo
+            dma.aAddress = (dma.aAddress + step) & 0xFFFF;
+            unit = (unit + 1) % pattern.length;
+            size--;
+            this.stallCycles += DMA_BYTE_CYCLES;
         }
 
+        // Ao terminar, A1Tx aponta após o último byte e DASx fica em 0
         dma.size = 0;
     }
 
-    private readROM(bank: number, offset: number): number {
-        if (!this.rom) return 0xFF;
+    /**
+     * O barramento A não alcança os registradores do barramento B nem os de
+     * DMA. WRAM <-> WMDATA ($2180) também falha: os dois lados usam a WRAM.
+     */
+    private dmaReachesA(aAddress: number): boolean {
+        if (this.map.regions[pageOf(aAddress)] !== Region.IO) return true;
 
-        let addr = 0;
-
-        if (this.romType === 'LoROM') {
-            if (bank <= 0x7D && offset >= 0x8000) {
-                addr = ((bank & 0x7F) << 15) | (offset & 0x7FFF);
-            } else if (bank >= 0x80 && bank <= 0xFD && offset >= 0x8000) {
-                addr = ((bank & 0x7F) << 15) | (offset & 0x7FFF);
-            } else if (bank >= 0xFE && offset >= 0x8000) {
-                addr = ((bank & 0x7F) << 15) | (offset & 0x7FFF);
-            }
-        } else { // HiROM
-            if (bank >= 0xC0 || (bank >= 0x40 && bank < 0x80)) {
-                addr = ((bank & 0x3F) << 16) | offset;
-            }
-        }
+        const offset = aAddress & 0xFFFF;
+        return !((offset >= 0x2100 && offset <= 0x21FF) || offset === 0x420B || offset === 0x420C || (offset >= 0x4300 && offset <= 0x437F));
+    }
 
-        addr %= this.romSize;
-        return this.rom[addr];
+    // Ciclos master em que a CPU ficou parada por DMA desde a última chamada
+    takeStallCycles(): number {
+        const cycles = this.stallCycles;
+        this.stallCycles = 0;
+        return cycles;
     }
 
     private detectROMType(): void {
@@ -248,17 +575,102 @@ export class Memory {
         }
     }
 
+    // Tamanho da SRAM no byte $xFD8 do cabeçalho: 1KB << n (limitado a 128KB)
+    private headerRAMSize(): number {
+        if (!this.rom) return 0;
+
+        const header = this.romType === 'HiROM' ? 0xFFC0 : 0x7FC0;
+        if (header + 0x20 > this.rom.length) return 0;
+
+        const code = this.rom[header + 0x18];
+        return code > 0 ? 1024 << Math.min(code, 7) : 0;
+    }
+
     private parseHeaderAt(offset: number): { valid: boolean } {
-        if (!this.rom || offset + 0x30 > this.rom.length) {
+        if (!this.rom || offset + 0x20 > this.rom.length) {
             return { valid: false };
         }
 
-        const checksum = this.rom[offset + 0x2E] | (this.rom[offset + 0x2F] << 8);
-        const checksumComplement = this.rom[offset + 0x2C] | (this.rom[offset + 0x2D] << 8);
+        const checksum = this.rom[offset + 0x1E] | (this.rom[offset + 0x1F] << 8);
+        const checksumComplement = this.rom[offset + 0x1C] | (this.rom[offset + 0x1D] << 8);
 
         return { valid: (checksum ^ checksumComplement) === 0xFFFF };
     }
 
+    // SRAM do cartucho (conteúdo de um arquivo .srm)
+    getSRAM(): Uint8Array { return this.sram; }
+
+    loadSRAM(data: Uint8Array): void {
+        this.sram.set(data.subarray(0, this.sram.length));
+    }
+
+    // Chamado a cada escrita na SRAM, usado para persistir os saves
+    setSRAMWriteCallback(callback: (() => void) | null): void {
+        this.sramWriteCallback = callback;
+    }
+
+    // CRC32 da imagem da ROM (sem cabeçalho de copiador), identifica os save states
+    getROMChecksum(): number { return this.romChecksum; }
+
+    // Coprocessadores de cartucho ainda não são emulados: só a SRAM entra no estado
+    saveState(writer: StateWriter): void {
+        writer.section('MEM ');
+        writer.array(this.wram);
+        writer.array(this.vram);
+        writer.array(this.cgram);
+        writer.array(this.oam);
+        writer.array(this.sram);
+        writer.array(this.ioRegisters);
+        writer.bool(this.fastROM);
+        writer.u8(this.mdr);
+        writer.u32(this.wmAddress);
+        writer.u8(this.wrio);
+        writer.array(this.joypad);
+
+        for (const dma of this.dmaChannels) {
+            writer.u8(dma.params);
+            writer.u8(dma.bAddress);
+            writer.u16(dma.aAddress);
+            writer.u8(dma.aBank);
+            writer.u16(dma.size);
+            writer.u8(dma.indirectBank);
+            writer.u16(dma.tableAddress);
+            writer.u8(dma.lineCounter);
+            writer.u8(dma.unused);
+            writer.bool(dma.hdmaDoTransfer);
+            writer.bool(dma.hdmaCompleted);
+        }
+    }
+
+    loadState(reader: StateReader): void {
+        reader.section('MEM ');
+        reader.array(this.wram);
+        reader.array(this.vram);
+        reader.array(this.cgram);
+        reader.array(this.oam);
+        reader.array(this.sram);
+        reader.array(this.ioRegisters);
+        this.fastROM = reader.bool();
+        this.mdr = reader.u8();
+        this.wmAddress = reader.u32();
+        this.wrio = reader.u8();
+        reader.array(this.joypad);
+
+        for (const dma of this.dmaChannels) {
+            dma.params = reader.u8();
+            dma.bAddress = reader.u8();
+            dma.aAddress = reader.u16();
+            dma.aBank = reader.u8();
+            dma.size = reader.u16();
+            dma.indirectBank = reader.u8();
+            dma.tableAddress = reader.u16();
+            dma.lineCounter = reader.u8();
+            dma.unused = reader.u8();
+            dma.hdmaDoTransfer = reader.bool();
+            dma.hdmaCompleted = reader.bool();
+        }
+    }
+
     getVRAM(): Uint8Array { return this.vram; }
     getCGRAM(): Uint8Array { return this.cgram; }
     getOAM(): Uint8Array { return this.oam; }
@@ -0,0 +1,109 @@
+// SNES Bus Memory Map
+// Table-driven decoding of the 24-bit A-bus for each cartridge type, plus the
+// access speed of every address in master cycles.
+
+export type CartridgeType = 'LoROM' | 'HiROM';
+
+export const Region = {
+    Open: 0,  // Nothing answers: open bus
+    WRAM: 1,
+    IO: 2,    // $2000-$5FFF register window (PPU, APU ports, CPU I/O, DMA)
+    ROM: 3,
+    SRAM: 4   // Cartridge battery RAM
+} as const;
+
+export type Region = typeof Region[keyof typeof Region];
+
+// Decoding granularity: 4KB pages, 4096 of them cover the whole 16MB bus
+const PAGE_BITS = 12;
+const PAGE_COUNT = 1 << (24 - PAGE_BITS);
+
+export interface MemoryMap {
+    regions: Uint8Array;  // Region of each page
+    bases: Uint32Array;   // Offset of the page's first byte inside that region
+}
+
+interface MapEntry {
+    banks: [number, number];
+    offsets: [number, number];
+    region: Region;
+    // Region offset of (bank, offset); must be linear inside a 4KB page
+    base?: (bank: number, offset: number) => number;
+}
+
+// Present on every cartridge type: WRAM, its low mirror and the I/O window
+const SYSTEM_MAP: MapEntry[] = [
+    { banks: [0x00, 0x3F], offsets: [0x0000, 0x1FFF], region: Region.WRAM, base: (_, offset) => offset },
+    { banks: [0x80, 0xBF], offsets: [0x0000, 0x1FFF], region: Region.WRAM, base: (_, offset) => offset },
+    { banks: [0x00, 0x3F], offsets: [0x2000, 0x5FFF], region: Region.IO },
+    { banks: [0x80, 0xBF], offsets: [0x2000, 0x5FFF], region: Region.IO },
+    { banks: [0x7E, 0x7F], offsets: [0x0000, 0xFFFF], region: Region.WRAM, base: (bank, offset) => ((bank - 0x7E) << 16) | offset }
+];
+
+const loRomAddress = (bank: number, offset: number) => ((bank & 0x7F) << 15) | (offset & 0x7FFF);
+const hiRomAddress = (bank: number, offset: number) => ((bank & 0x3F) << 16) | offset;
+
+const CARTRIDGE_MAPS: Record<CartridgeType, MapEntry[]> = {
+    // 32KB ROM banks in the upper half of every bank, mirrored in the lower half of $40-$6F/$C0-$EF,
+    // SRAM in $70-$7D/$F0-$FF lower half
+    LoROM: [
+        { banks: [0x00, 0x7D], offsets: [0x8000, 0xFFFF], region: Region.ROM, base: loRomAddress },
+        { banks: [0x80, 0xFF], offsets: [0x8000, 0xFFFF], region: Region.ROM, base: loRomAddress },
+        { banks: [0x40, 0x6F], offsets: [0x0000, 0x7FFF], region: Region.ROM, base: loRomAddress },
+        { banks: [0xC0, 0xEF], offsets: [0x0000, 0x7FFF], region: Region.ROM, base: loRomAddress },
+        { banks: [0x70, 0x7D], offsets: [0x0000, 0x7FFF], region: Region.SRAM, base: (bank, offset) => ((bank & 0x0F) << 15) | offset },
+        { banks: [0xF0, 0xFF], offsets: [0x0000, 0x7FFF], region: Region.SRAM, base: (bank, offset) => ((bank & 0x0F) << 15) | offset }
+    ],
+    // 64KB ROM banks at $40-$7D/$C0-$FF, mirrored in the upper half of $00-$3F/$80-$BF,
+    // SRAM in $20-$3F/$A0-$BF:$6000-$7FFF
+    HiROM: [
+        { banks: [0x00, 0x3F], offsets: [0x8000, 0xFFFF], region: Region.ROM, base: hiRomAddress },
+        { banks: [0x80, 0xBF], offsets: [0x8000, 0xFFFF], region: Region.ROM, base: hiRomAddress },
+        { banks: [0x40, 0x7D], offsets: [0x0000, 0xFFFF], region: Region.ROM, base: hiRomAddress },
+        { banks: [0xC0, 0xFF], offsets: [0x0000, 0xFFFF], region: Region.ROM, base: hiRomAddress },
+        { banks: [0x20, 0x3F], offsets: [0x6000, 0x7FFF], region: Region.SRAM, base: (bank, offset) => ((bank & 0x1F) << 13) | (offset - 0x6000) },
+        { banks: [0xA0, 0xBF], offsets: [0x6000, 0x7FFF], region: Region.SRAM, base: (bank, offset) => ((bank & 0x1F) << 13) | (offset - 0x6000) }
+    ]
+};
+
+export function buildMemoryMap(type: CartridgeType): MemoryMap {
+    const map: MemoryMap = {
+        regions: new Uint8Array(PAGE_COUNT),
+        bases: new Uint32Array(PAGE_COUNT)
+    };
+
+    // Cartridge first, so the system entries win where they overlap (WRAM in $7E-$7F)
+    for (const entry of [...CARTRIDGE_MAPS[type], ...SYSTEM_MAP]) {
+        for (let bank = entry.banks[0]; bank <= entry.banks[1]; bank++) {
+            for (let offset = entry.offsets[0]; offset <= entry.offsets[1]; offset += 1 << PAGE_BITS) {
+                const page = (bank << (16 - PAGE_BITS)) | (offset >> PAGE_BITS);
+                map.regions[page] = entry.region;
+                map.bases[page] = entry.base ? entry.base(bank, offset) : 0;
+            }
+        }
+    }
+
+    return map;
+}
+
+export function pageOf(address: number): number {
+    return (address >> PAGE_BITS) & (PAGE_COUNT - 1);
+}
+
+/**
+ * Master cycles taken by a CPU access to `address`:
+ * 6 for the I/O window and FastROM, 12 for the joypad ports at $4000-$41FF,
+ * 8 for everything else (WRAM, SRAM, SlowROM).
+ * FastROM applies to banks $80-$FF when MEMSEL ($420D) bit 0 is set.
+ */
+export function accessCycles(address: number, fastROM: boolean): number {
+    const bank = (address >> 16) & 0xFF;
+    const offset = address & 0xFFFF;
+
+    if (bank >= 0x40 || offset >= 0x8000) {
+        return bank >= 0x80 && fastROM ? 6 : 8;
+    }
+    if (offset < 0x2000 || offset >= 0x6000) return 8;
+    if (offset >= 0x4000 && offset < 0x4200) return 12;
+    return 6;
+}
@@ -0,0 +1,272 @@
+// 65816 opcode table
+// Mnemonic, addressing mode and base cycle count for every opcode. Base
+// cycles assume 8-bit M/X, DL=0, no page crossing and branches not taken;
+// the CPU adds width, direct page and indexing penalties while executing.
+
+import { AddressingMode } from './AddressingModes';
+
+export interface OpcodeInfo {
+    mnemonic: string;
+    mode: AddressingMode;
+    cycles: number;
+}
+
+export const OPCODE_TABLE: readonly OpcodeInfo[] = [
+    /* 0x00 */ { mnemonic: 'BRK', mode: AddressingMode.Implied, cycles: 7 },
+    /* 0x01 */ { mnemonic: 'ORA', mode: AddressingMode.DirectIndexedIndirect, cycles: 6 },
+    /* 0x02 */ { mnemonic: 'COP', mode: AddressingMode.Implied, cycles: 7 },
+    /* 0x03 */ { mnemonic: 'ORA', mode: AddressingMode.StackRelative, cycles: 4 },
+    /* 0x04 */ { mnemonic: 'TSB', mode: AddressingMode.Direct, cycles: 5 },
+    /* 0x05 */ { mnemonic: 'ORA', mode: AddressingMode.Direct, cycles: 3 },
+    /* 0x06 */ { mnemonic: 'ASL', mode: AddressingMode.Direct, cycles: 5 },
+    /* 0x07 */ { mnemonic: 'ORA', mode: AddressingMode.DirectIndirectLong, cycles: 6 },
+    /* 0x08 */ { mnemonic: 'PHP', mode: AddressingMode.Implied, cycles: 3 },
+    /* 0x09 */ { mnemonic: 'ORA', mode: AddressingMode.Immediate, cycles: 2 },
+    /* 0x0A */ { mnemonic: 'ASL', mode: AddressingMode.Accumulator, cycles: 2 },
+    /* 0x0B */ { mnemonic: 'PHD', mode: AddressingMode.Implied, cycles: 4 },
+    /* 0x0C */ { mnemonic: 'TSB', mode: AddressingMode.Absolute, cycles: 6 },
+    /* 0x0D */ { mnemonic: 'ORA', mode: AddressingMode.Absolute, cycles: 4 },
+    /* 0x0E */ { mnemonic: 'ASL', mode: AddressingMode.Absolute, cycles: 6 },
+    /* 0x0F */ { mnemonic: 'ORA', mode: AddressingMode.AbsoluteLong, cycles: 5 },
+    /* 0x10 */ { mnemonic: 'BPL', mode: AddressingMode.Relative, cycles: 2 },
+    /* 0x11 */ { mnemonic: 'ORA', mode: AddressingMode.DirectIndirectIndexed, cycles: 5 },
+    /* 0x12 */ { mnemonic: 'ORA', mode: AddressingMode.DirectIndirect, cycles: 5 },
+    /* 0x13 */ { mnemonic: 'ORA', mode: AddressingMode.StackRelativeIndirectIndexed, cycles: 7 },
+    /* 0x14 */ { mnemonic: 'TRB', mode: AddressingMode.Direct, cycles: 5 },
+    /* 0x15 */ { mnemonic: 'ORA', mode: AddressingMode.DirectX, cycles: 4 },
+    /* 0x16 */ { mnemonic: 'ASL', mode: AddressingMode.DirectX, cycles: 6 },
+    /* 0x17 */ { mnemonic: 'ORA', mode: AddressingMode.DirectIndirectLongIndexed, cycles: 6 },
+    /* 0x18 */ { mnemonic: 'CLC', mode: AddressingMode.Implied, cycles: 2 },
+    /* 0x19 */ { mnemonic: 'ORA', mode: AddressingMode.AbsoluteY, cycles: 4 },
+    /* 0x1A */ { mnemonic: 'INC', mode: AddressingMode.Accumulator, cycles: 2 },
+    /* 0x1B */ { mnemonic: 'TCS', mode: AddressingMode.Implied, cycles: 2 },
+    /* 0x1C */ { mnemonic: 'TRB', mode: AddressingMode.Absolute, cycles: 6 },
+    /* 0x1D */ { mnemonic: 'ORA', mode: AddressingMode.AbsoluteX, cycles: 4 },
+    /* 0x1E */ { mnemonic: 'ASL', mode: AddressingMode.AbsoluteX, cycles: 7 },
+    /* 0x1F */ { mnemonic: 'ORA', mode: AddressingMode.AbsoluteLongX, cycles: 5 },
+    /* 0x20 */ { mnemonic: 'JSR', mode: AddressingMode.Absolute, cycles: 6 },
+    /* 0x21 */ { mnemonic: 'AND', mode: AddressingMode.DirectIndexedIndirect, cycles: 6 },
+    /* 0x22 */ { mnemonic: 'JSL', mode: AddressingMode.AbsoluteLong, cycles: 8 },
+    /* 0x23 */ { mnemonic: 'AND', mode: AddressingMode.StackRelative, cycles: 4 },
+    /* 0x24 */ { mnemonic: 'BIT', mode: AddressingMode.Direct, cycles: 3 },
+    /* 0x25 */ { mnemonic: 'AND', mode: AddressingMode.Direct, cycles: 3 },
+    /* 0x26 */ { mnemonic: 'ROL', mode: AddressingMode.Direct, cycles: 5 },
+    /* 0x27 */ { mnemonic: 'AND', mode: AddressingMode.DirectIndirectLong, cycles: 6 },
+    /* 0x28 */ { mnemonic: 'PLP', mode: AddressingMode.Implied, cycles: 4 },
+    /* 0x29 */ { mnemonic: 'AND', mode: AddressingMode.Immediate, cycles: 2 },
+    /* 0x2A */ { mnemonic: 'ROL', mode: AddressingMode.Accumulator, cycles: 2 },
+    /* 0x2B */ { mnemonic: 'PLD', mode: AddressingMode.Implied, cycles: 5 },
+    /* 0x2C */ { mnemonic: 'BIT', mode: AddressingMode.Absolute, cycles: 4 },
+    /* 0x2D */ { mnemonic: 'AND', mode: AddressingMode.Absolute, cycles: 4 },
+    /* 0x2E */ { mnemonic: 'ROL', mode: AddressingMode.Absolute, cycles: 6 },
+    /* 0x2F */ { mnemonic: 'AND', mode: AddressingMode.AbsoluteLong, cycles: 5 },
+    /* 0x30 */ { mnemonic: 'BMI', mode: AddressingMode.Relative, cycles: 2 },
+    /* 0x31 */ { mnemonic: 'AND', mode: AddressingMode.DirectIndirectIndexed, cycles: 5 },
+    /* 0x32 */ { mnemonic: 'AND', mode: AddressingMode.DirectIndirect, cycles: 5 },
+    /* 0x33 */ { mnemonic: 'AND', mode: AddressingMode.StackRelativeIndirectIndexed, cycles: 7 },
+    /* 0x34 */ { mnemonic: 'BIT', mode: AddressingMode.DirectX, cycles: 4 },
+    /* 0x35 */ { mnemonic: 'AND', mode: AddressingMode.DirectX, cycles: 4 },
+    /* 0x36 */ { mnemonic: 'ROL', mode: AddressingMode.DirectX, cycles: 6 },
+    /* 0x37 */ { mnemonic: 'AND', mode: AddressingMode.DirectIndirectLongIndexed, cycles: 6 },
+    /* 0x38 */ { mnemonic: 'SEC', mode: AddressingMode.Implied, cycles: 2 },
+    /* 0x39 */ { mnemonic: 'AND', mode: AddressingMode.AbsoluteY, cycles: 4 },
+    /* 0x3A */ { mnemonic: 'DEC', mode: AddressingMode.Accumulator, cycles: 2 },
+    /* 0x3B */ { mnemonic: 'TSC', mode: AddressingMode.Implied, cycles: 2 },
+    /* 0x3C */ { mnemonic: 'BIT', mode: AddressingMode.AbsoluteX, cycles: 4 },
+    /* 0x3D */ { mnemonic: 'AND', mode: AddressingMode.AbsoluteX, cycles: 4 },
+    /* 0x3E */ { mnemonic: 'ROL', mode: AddressingMode.AbsoluteX, cycles: 7 },
+    /* 0x3F */ { mnemonic: 'AND', mode: AddressingMode.AbsoluteLongX, cycles: 5 },
+    /* 0x40 */ { mnemonic: 'RTI', mode: AddressingMode.Implied, cycles: 6 },
+    /* 0x41 */ { mnemonic: 'EOR', mode: AddressingMode.DirectIndexedIndirect, cycles: 6 },
+    /* 0x42 */ { mnemonic: 'WDM', mode: AddressingMode.Immediate, cycles: 2 },
+    /* 0x43 */ { mnemonic: 'EOR', mode: AddressingMode.StackRelative, cycles: 4 },
+    /* 0x44 */ { mnemonic: 'MVP', mode: AddressingMode.BlockMove, cycles: 7 },
+    /* 0x45 */ { mnemonic: 'EOR', mode: AddressingMode.Direct, cycles: 3 },
+    /* 0x46 */ { mnemonic: 'LSR', mode: AddressingMode.Direct, cycles: 5 },
+    /* 0x47 */ { mnemonic: 'EOR', mode: AddressingMode.DirectIndirectLong, cycles: 6 },
+    /* 0x48 */ { mnemonic: 'PHA', mode: AddressingMode.Implied, cycles: 3 },
+    /* 0x49 */ { mnemonic: 'EOR', mode: AddressingMode.Immediate, cycles: 2 },
+    /* 0x4A */ { mnemonic: 'LSR', mode: AddressingMode.Accumulator, cycles: 2 },
+    /* 0x4B */ { mnemonic: 'PHK', mode: AddressingMode.Implied, cycles: 3 },
+    /* 0x4C */ { mnemonic: 'JMP', mode: AddressingMode.Absolute, cycles: 3 },
+    /* 0x4D */ { mnemonic: 'EOR', mode: AddressingMode.Absolute, cycles: 4 },
+    /* 0x4E */ { mnemonic: 'LSR', mode: AddressingMode.Absolute, cycles: 6 },
+    /* 0x4F */ { mnemonic: 'EOR', mode: AddressingMode.AbsoluteLong, cycles: 5 },
+    /* 0x50 */ { mnemonic: 'BVC', mode: AddressingMode.Relative, cycles: 2 },
+    /* 0x51 */ { mnemonic: 'EOR', mode: AddressingMode.DirectIndirectIndexed, cycles: 5 },
+    /* 0x52 */ { mnemonic: 'EOR', mode: AddressingMode.DirectIndirect, cycles: 5 },
+    /* 0x53 */ { mnemonic: 'EOR', mode: AddressingMode.StackRelativeIndirectIndexed, cycles: 7 },
+    /* 0x54 */ { mnemonic: 'MVN', mode: AddressingMode.BlockMove, cycles: 7 },
+    /* 0x55 */ { mnemonic: 'EOR', mode: AddressingMode.DirectX, cycles: 4 },
+    /* 0x56 */ { mnemonic: 'LSR', mode: AddressingMode.DirectX, cycles: 6 },
+    /* 0x57 */ { mnemonic: 'EOR', mode: AddressingMode.DirectIndirectLongIndexed, cycles: 6 },
+    /* 0x58 */ { mnemonic: 'CLI', mode: AddressingMode.Implied, cycles: 2 },
+    /* 0x59 */ { mnemonic: 'EOR', mode: AddressingMode.AbsoluteY, cycles: 4 },
+    /* 0x5A */ { mnemonic: 'PHY', mode: AddressingMode.Implied, cycles: 3 },
+    /* 0x5B */ { mnemonic: 'TCD', mode: AddressingMode.Implied, cycles: 2 },
+    /* 0x5C */ { mnemonic: 'JML', mode: AddressingMode.AbsoluteLong, cycles: 4 },
+    /* 0x5D */ { mnemonic: 'EOR', mode: AddressingMode.AbsoluteX, cycles: 4 },
+    /* 0x5E */ { mnemonic: 'LSR', mode: AddressingMode.AbsoluteX, cycles: 7 },
+    /* 0x5F */ { mnemonic: 'EOR', mode: AddressingMode.AbsoluteLongX, cycles: 5 },
+    /* 0x60 */ { mnemonic: 'RTS', mode: AddressingMode.Implied, cycles: 6 },
+    /* 0x61 */ { mnemonic: 'ADC', mode: AddressingMode.DirectIndexedIndirect, cycles: 6 },
+    /* 0x62 */ { mnemonic: 'PER', mode: AddressingMode.RelativeLong, cycles: 6 },
+    /* 0x63 */ { mnemonic: 'ADC', mode: AddressingMode.StackRelative, cycles: 4 },
+    /* 0x64 */ { mnemonic: 'STZ', mode: AddressingMode.Direct, cycles: 3 },
+    /* 0x65 */ { mnemonic: 'ADC', mode: AddressingMode.Direct, cycles: 3 },
+    /* 0x66 */ { mnemonic: 'ROR', mode: AddressingMode.Direct, cycles: 5 },
+    /* 0x67 */ { mnemonic: 'ADC', mode: AddressingMode.DirectIndirectLong, cycles: 6 },
+    /* 0x68 */ { mnemonic: 'PLA', mode: AddressingMode.Implied, cycles: 4 },
+    /* 0x69 */ { mnemonic: 'ADC', mode: AddressingMode.Immediate, cycles: 2 },
+    /* 0x6A */ { mnemonic: 'ROR', mode: AddressingMode.Accumulator, cycles: 2 },
+    /* 0x6B */ { mnemonic: 'RTL', mode: AddressingMode.Implied, cycles: 6 },
+    /* 0x6C */ { mnemonic: 'JMP', mode: AddressingMode.AbsoluteIndirect, cycles: 5 },
+    /* 0x6D */ { mnemonic: 'ADC', mode: AddressingMode.Absolute, cycles: 4 },
+    /* 0x6E */ { mnemonic: 'ROR', mode: AddressingMode.Absolute, cycles: 6 },
+    /* 0x6F */ { mnemonic: 'ADC', mode: AddressingMode.AbsoluteLong, cycles: 5 },
+    /* 0x70 */ { mnemonic: 'BVS', mode: AddressingMode.Relative, cycles: 2 },
+    /* 0x71 */ { mnemonic: 'ADC', mode: AddressingMode.DirectIndirectIndexed, cycles: 5 },
+    /* 0x72 */ { mnemonic: 'ADC', mode: AddressingMode.DirectIndirect, cycles: 5 },
+    /* 0x73 */ { mnemonic: 'ADC', mode: AddressingMode.StackRelativeIndirectIndexed, cycles: 7 },
+    /* 0x74 */ { mnemonic: 'STZ', mode: AddressingMode.DirectX, cycles: 4 },
+    /* 0x75 */ { mnemonic: 'ADC', mode: AddressingMode.DirectX, cycles: 4 },
+    /* 0x76 */ { mnemonic: 'ROR', mode: AddressingMode.DirectX, cycles: 6 },
+    /* 0x77 */ { mnemonic: 'ADC', mode: AddressingMode.DirectIndirectLongIndexed, cycles: 6 },
+    /* 0x78 */ { mnemonic: 'SEI', mode: AddressingMode.Implied, cycles: 2 },
+    /* 0x79 */ { mnemonic: 'ADC', mode: AddressingMode.AbsoluteY, cycles: 4 },
+    /* 0x7A */ { mnemonic: 'PLY', mode: AddressingMode.Implied, cycles: 4 },
+    /* 0x7B */ { mnemonic: 'TDC', mode: AddressingMode.Implied, cycles: 2 },
+    /* 0x7C */ { mnemonic: 'JMP', mode: AddressingMode.AbsoluteIndexedIndirect, cycles: 6 },
+    /* 0x7D */ { mnemonic: 'ADC', mode: AddressingMode.AbsoluteX, cycles: 4 },
+    /* 0x7E */ { mnemonic: 'ROR', mode: AddressingMode.AbsoluteX, cycles: 7 },
+    /* 0x7F */ { mnemonic: 'ADC', mode: AddressingMode.AbsoluteLongX, cycles: 5 },
+    /* 0x80 */ { mnemonic: 'BRA', mode: AddressingMode.Relative, cycles: 2 },
+    /* 0x81 */ { mnemonic: 'STA', mode: AddressingMode.DirectIndexedIndirect, cycles: 6 },
+    /* 0x82 */ { mnemonic: 'BRL', mode: AddressingMode.RelativeLong, cycles: 4 },
+    /* 0x83 */ { mnemonic: 'STA', mode: AddressingMode.StackRelative, cycles: 4 },
+    /* 0x84 */ { mnemonic: 'STY', mode: AddressingMode.Direct, cycles: 3 },
+    /* 0x85 */ { mnemonic: 'STA', mode: AddressingMode.Direct, cycles: 3 },
+    /* 0x86 */ { mnemonic: 'STX', mode: AddressingMode.Direct, cycles: 3 },
+    /* 0x87 */ { mnemonic: 'STA', mode: AddressingMode.DirectIndirectLong, cycles: 6 },
+    /* 0x88 */ { mnemonic: 'DEY', mode: AddressingMode.Implied, cycles: 2 },
+    /* 0x89 */ { mnemonic: 'BIT', mode: AddressingMode.Immediate, cycles: 2 },
+    /* 0x8A */ { mnemonic: 'TXA', mode: AddressingMode.Implied, cycles: 2 },
+    /* 0x8B */ { mnemonic: 'PHB', mode: AddressingMode.Implied, cycles: 3 },
+    /* 0x8C */ { mnemonic: 'STY', mode: AddressingMode.Absolute, cycles: 4 },
+    /* 0x8D */ { mnemonic: 'STA', mode: AddressingMode.Absolute, cycles: 4 },
+    /* 0x8E */ { mnemonic: 'STX', mode: AddressingMode.Absolute, cycles: 4 },
+    /* 0x8F */ { mnemonic: 'STA', mode: AddressingMode.AbsoluteLong, cycles: 5 },
+    /* 0x90 */ { mnemonic: 'BCC', mode: AddressingMode.Relative, cycles: 2 },
+    /* 0x91 */ { mnemonic: 'STA', mode: AddressingMode.DirectIndirectIndexed, cycles: 6 },
+    /* 0x92 */ { mnemonic: 'STA', mode: AddressingMode.DirectIndirect, cycles: 5 },
+    /* 0x93 */ { mnemonic: 'STA', mode: AddressingMode.StackRelativeIndirectIndexed, cycles: 7 },
+    /* 0x94 */ { mnemonic: 'STY', mode: AddressingMode.DirectX, cycles: 4 },
+    /* 0x95 */ { mnemonic: 'STA', mode: AddressingMode.DirectX, cycles: 4 },
+    /* 0x96 */ { mnemonic: 'STX', mode: AddressingMode.DirectY, cycles: 4 },
+    /* 0x97 */ { mnemonic: 'STA', mode: AddressingMode.DirectIndirectLongIndexed, cycles: 6 },
+    /* 0x98 */ { mnemonic: 'TYA', mode: AddressingMode.Implied, cycles: 2 },
+    /* 0x99 */ { mnemonic: 'STA', mode: AddressingMode.AbsoluteY, cycles: 5 },
+    /* 0x9A */ { mnemonic: 'TXS', mode: AddressingMode.Implied, cycles: 2 },
+    /* 0x9B */ { mnemonic: 'TXY', mode: AddressingMode.Implied, cycles: 2 },
+    /* 0x9C */ { mnemonic: 'STZ', mode: AddressingMode.Absolute, cycles: 4 },
+    /* 0x9D */ { mnemonic: 'STA', mode: AddressingMode.AbsoluteX, cycles: 5 },
+    /* 0x9E */ { mnemonic: 'STZ', mode: AddressingMode.AbsoluteX, cycles: 5 },
+    /* 0x9F */ { mnemonic: 'STA', mode: AddressingMode.AbsoluteLongX, cycles: 5 },
+    /* 0xA0 */ { mnemonic: 'LDY', mode: AddressingMode.Immediate, cycles: 2 },
+    /* 0xA1 */ { mnemonic: 'LDA', mode: AddressingMode.DirectIndexedIndirect, cycles: 6 },
+    /* 0xA2 */ { mnemonic: 'LDX', mode: AddressingMode.Immediate, cycles: 2 },
+    /* 0xA3 */ { mnemonic: 'LDA', mode: AddressingMode.StackRelative, cycles: 4 },
+    /* 0xA4 */ { mnemonic: 'LDY', mode: AddressingMode.Direct, cycles: 3 },
+    /* 0xA5 */ { mnemonic: 'LDA', mode: AddressingMode.Direct, cycles: 3 },
+    /* 0xA6 */ { mnemonic: 'LDX', mode: AddressingMode.Direct, cycles: 3 },
+    /* 0xA7 */ { mnemonic: 'LDA', mode: AddressingMode.DirectIndirectLong, cycles: 6 },
+    /* 0xA8 */ { mnemonic: 'TAY', mode: AddressingMode.Implied, cycles: 2 },
+    /* 0xA9 */ { mnemonic: 'LDA', mode: AddressingMode.Immediate, cycles: 2 },
+    /* 0xAA */ { mnemonic: 'TAX', mode: AddressingMode.Implied, cycles: 2 },
+    /* 0xAB */ { mnemonic: 'PLB', mode: AddressingMode.Implied, cycles: 4 },
+    /* 0xAC */ { mnemonic: 'LDY', mode: AddressingMode.Absolute, cycles: 4 },
+    /* 0xAD */ { mnemonic: 'LDA', mode: AddressingMode.Absolute, cycles: 4 },
+    /* 0xAE */ { mnemonic: 'LDX', mode: AddressingMode.Absolute, cycles: 4 },
+    /* 0xAF */ { mnemonic: 'LDA', mode: AddressingMode.AbsoluteLong, cycles: 5 },
+    /* 0xB0 */ { mnemonic: 'BCS', mode: AddressingMode.Relative, cycles: 2 },
+    /* 0xB1 */ { mnemonic: 'LDA', mode: AddressingMode.DirectIndirectIndexed, cycles: 5 },
+    /* 0xB2 */ { mnemonic: 'LDA', mode: AddressingMode.DirectIndirect, cycles: 5 },
+    /* 0xB3 */ { mnemonic: 'LDA', mode: AddressingMode.StackRelativeIndirectIndexed, cycles: 7 },
+    /* 0xB4 */ { mnemonic: 'LDY', mode: AddressingMode.DirectX, cycles: 4 },
+    /* 0xB5 */ { mnemonic: 'LDA', mode: AddressingMode.DirectX, cycles: 4 },
+    /* 0xB6 */ { mnemonic: 'LDX', mode: AddressingMode.DirectY, cycles: 4 },
+    /* 0xB7 */ { mnemonic: 'LDA', mode: AddressingMode.DirectIndirectLongIndexed, cycles: 6 },
+    /* 0xB8 */ { mnemonic: 'CLV', mode: AddressingMode.Implied, cycles: 2 },
+    /* 0xB9 */ { mnemonic: 'LDA', mode: AddressingMode.AbsoluteY, cycles: 4 },
+    /* 0xBA */ { mnemonic: 'TSX', mode: AddressingMode.Implied, cycles: 2 },
+    /* 0xBB */ { mnemonic: 'TYX', mode: AddressingMode.Implied, cycles: 2 },
+    /* 0xBC */ { mnemonic: 'LDY', mode: AddressingMode.AbsoluteX, cycles: 4 },
+    /* 0xBD */ { mnemonic: 'LDA', mode: AddressingMode.AbsoluteX, cycles: 4 },
+    /* 0xBE */ { mnemonic: 'LDX', mode: AddressingMode.AbsoluteY, cycles: 4 },
+    /* 0xBF */ { mnemonic: 'LDA', mode: AddressingMode.AbsoluteLongX, cycles: 5 },
+    /* 0xC0 */ { mnemonic: 'CPY', mode: AddressingMode.Immediate, cycles: 2 },
+    /* 0xC1 */ { mnemonic: 'CMP', mode: AddressingMode.DirectIndexedIndirect, cycles: 6 },
+    /* 0xC2 */ { mnemonic: 'REP', mode: AddressingMode.Immediate, cycles: 3 },
+    /* 0xC3 */ { mnemonic: 'CMP', mode: AddressingMode.StackRelative, cycles: 4 },
+    /* 0xC4 */ { mnemonic: 'CPY', mode: AddressingMode.Direct, cycles: 3 },
+    /* 0xC5 */ { mnemonic: 'CMP', mode: AddressingMode.Direct, cycles: 3 },
+    /* 0xC6 */ { mnemonic: 'DEC', mode: AddressingMode.Direct, cycles: 5 },
+    /* 0xC7 */ { mnemonic: 'CMP', mode: AddressingMode.DirectIndirectLong, cycles: 6 },
+    /* 0xC8 */ { mnemonic: 'INY', mode: AddressingMode.Implied, cycles: 2 },
+    /* 0xC9 */ { mnemonic: 'CMP', mode: AddressingMode.Immediate, cycles: 2 },
+    /* 0xCA */ { mnemonic: 'DEX', mode: AddressingMode.Implied, cycles: 2 },
+    /* 0xCB */ { mnemonic: 'WAI', mode: AddressingMode.Implied, cycles: 3 },
+    /* 0xCC */ { mnemonic: 'CPY', mode: AddressingMode.Absolute, cycles: 4 },
+    /* 0xCD */ { mnemonic: 'CMP', mode: AddressingMode.Absolute, cycles: 4 },
+    /* 0xCE */ { mnemonic: 'DEC', mode: AddressingMode.Absolute, cycles: 6 },
+    /* 0xCF */ { mnemonic: 'CMP', mode: AddressingMode.AbsoluteLong, cycles: 5 },
+    /* 0xD0 */ { mnemonic: 'BNE', mode: AddressingMode.Relative, cycles: 2 },
+    /* 0xD1 */ { mnemonic: 'CMP', mode: AddressingMode.DirectIndirectIndexed, cycles: 5 },
+    /* 0xD2 */ { mnemonic: 'CMP', mode: AddressingMode.DirectIndirect, cycles: 5 },
+    /* 0xD3 */ { mnemonic: 'CMP', mode: AddressingMode.StackRelativeIndirectIndexed, cycles: 7 },
+    /* 0xD4 */ { mnemonic: 'PEI', mode: AddressingMode.DirectIndirect, cycles: 6 },
+    /* 0xD5 */ { mnemonic: 'CMP', mode: AddressingMode.DirectX, cycles: 4 },
+    /* 0xD6 */ { mnemonic: 'DEC', mode: AddressingMode.DirectX, cycles: 6 },
+    /* 0xD7 */ { mnemonic: 'CMP', mode: AddressingMode.DirectIndirectLongIndexed, cycles: 6 },
+    /* 0xD8 */ { mnemonic: 'CLD', mode: AddressingMode.Implied, cycles: 2 },
+    /* 0xD9 */ { mnemonic: 'CMP', mode: AddressingMode.AbsoluteY, cycles: 4 },
+    /* 0xDA */ { mnemonic: 'PHX', mode: AddressingMode.Implied, cycles: 3 },
+    /* 0xDB */ { mnemonic: 'STP', mode: AddressingMode.Implied, cycles: 3 },
+    /* 0xDC */ { mnemonic: 'JML', mode: AddressingMode.AbsoluteIndirectLong, cycles: 6 },
+    /* 0xDD */ { mnemonic: 'CMP', mode: AddressingMode.AbsoluteX, cycles: 4 },
+    /* 0xDE */ { mnemonic: 'DEC', mode: AddressingMode.AbsoluteX, cycles: 7 },
+    /* 0xDF */ { mnemonic: 'CMP', mode: AddressingMode.AbsoluteLongX, cycles: 5 },
+    /* 0xE0 */ { mnemonic: 'CPX', mode: AddressingMode.Immediate, cycles: 2 },
+    /* 0xE1 */ { mnemonic: 'SBC', mode: AddressingMode.DirectIndexedIndirect, cycles: 6 },
+    /* 0xE2 */ { mnemonic: 'SEP', mode: AddressingMode.Immediate, cycles: 3 },
+    /* 0xE3 */ { mnemonic: 'SBC', mode: AddressingMode.StackRelative, cycles: 4 },
+    /* 0xE4 */ { mnemonic: 'CPX', mode: AddressingMode.Direct, cycles: 3 },
+    /* 0xE5 */ { mnemonic: 'SBC', mode: AddressingMode.Direct, cycles: 3 },
+    /* 0xE6 */ { mnemonic: 'INC', mode: AddressingMode.Direct, cycles: 5 },
+    /* 0xE7 */ { mnemonic: 'SBC', mode: AddressingMode.DirectIndirectLong, cycles: 6 },
+    /* 0xE8 */ { mnemonic: 'INX', mode: AddressingMode.Implied, cycles: 2 },
+    /* 0xE9 */ { mnemonic: 'SBC', mode: AddressingMode.Immediate, cycles: 2 },
+    /* 0xEA */ { mnemonic: 'NOP', mode: AddressingMode.Implied, cycles: 2 },
+    /* 0xEB */ { mnemonic: 'XBA', mode: AddressingMode.Implied, cycles: 3 },
+    /* 0xEC */ { mnemonic: 'CPX', mode: AddressingMode.Absolute, cycles: 4 },
+    /* 0xED */ { mnemonic: 'SBC', mode: AddressingMode.Absolute, cycles: 4 },
+    /* 0xEE */ { mnemonic: 'INC', mode: AddressingMode.Absolute, cycles: 6 },
+    /* 0xEF */ { mnemonic: 'SBC', mode: AddressingMode.AbsoluteLong, cycles: 5 },
+    /* 0xF0 */ { mnemonic: 'BEQ', mode: AddressingMode.Relative, cycles: 2 },
+    /* 0xF1 */ { mnemonic: 'SBC', mode: AddressingMode.DirectIndirectIndexed, cycles: 5 },
+    /* 0xF2 */ { mnemonic: 'SBC', mode: AddressingMode.DirectIndirect, cycles: 5 },
+    /* 0xF3 */ { mnemonic: 'SBC', mode: AddressingMode.StackRelativeIndirectIndexed, cycles: 7 },
+    /* 0xF4 */ { mnemonic: 'PEA', mode: AddressingMode.Absolute, cycles: 5 },
+    /* 0xF5 */ { mnemonic: 'SBC', mode: AddressingMode.DirectX, cycles: 4 },
+    /* 0xF6 */ { mnemonic: 'INC', mode: AddressingMode.DirectX, cycles: 6 },
+    /* 0xF7 */ { mnemonic: 'SBC', mode: AddressingMode.DirectIndirectLongIndexed, cycles: 6 },
+    /* 0xF8 */ { mnemonic: 'SED', mode: AddressingMode.Implied, cycles: 2 },
+    /* 0xF9 */ { mnemonic: 'SBC', mode: AddressingMode.AbsoluteY, cycles: 4 },
+    /* 0xFA */ { mnemonic: 'PLX', mode: AddressingMode.Implied, cycles: 4 },
+    /* 0xFB */ { mnemonic: 'XCE', mode: AddressingMode.Implied, cycles: 2 },
+    /* 0xFC */ { mnemonic: 'JSR', mode: AddressingMode.AbsoluteIndexedIndirect, cycles: 8 },
+    /* 0xFD */ { mnemonic: 'SBC', mode: AddressingMode.AbsoluteX, cycles: 4 },
+    /* 0xFE */ { mnemonic: 'INC', mode: AddressingMode.AbsoluteX, cycles: 7 },
+    /* 0xFF */ { mnemonic: 'SBC', mode: AddressingMode.AbsoluteLongX, cycles: 5 }
+];
+
@@ -0,0 +1,315 @@
+// PPU tests: BG tiles, Mode 7, windows, layer priority, sprites and mid-line register writes
+// CGRAM color n holds the 15-bit value n, so each rendered pixel reads back as
+// the palette index that produced it (0 is the backdrop)
+
+import { describe, expect, it } from 'vitest';
+import { InterruptController } from './InterruptController';
+import { PPU } from './PPU';
+
+interface TestPPU {
+    ppu: PPU;
+    vram: Uint16Array;
+    oam: Uint8Array;
+}
+
+function createPPU(): TestPPU {
+    const vram = new Uint8Array(0x10000);
+    const cgram = new Uint8Array(512);
+    const oam = new Uint8Array(544);
+    for (let i = 0; i < 256; i++) cgram[i * 2] = i;
+    // Every sprite below the visible lines
+    for (let i = 0; i < 128; i++) oam[i * 4 + 1] = 0xF0;
+
+    const ppu = new PPU(vram, cgram, oam);
+    ppu.writeRegister(0x2100, 0x0F);
+    return { ppu, vram: new Uint16Array(vram.buffer), oam };
+}
+
+// Registers written as [address, value], in order
+function writeRegisters(ppu: PPU, writes: [number, number][]): void {
+    for (const [address, value] of writes) ppu.writeRegister(address, value);
+}
+
+function renderLine(ppu: PPU, y: number): number[] {
+    for (let line = 0; line < y; line++) ppu.endScanline();
+    ppu.beginScanline();
+    ppu.renderPixels();
+    return readLine(ppu, y);
+}
+
+// Palette index of each pixel already on screen in line y
+function readLine(ppu: PPU, y: number): number[] {
+    const row = ppu.getScreenBuffer().subarray(y * 256 * 4, (y + 1) * 256 * 4);
+    return Array.from({ length: 256 }, (_, x) => (row[x * 4] >> 3) | ((row[x * 4 + 1] >> 3) << 5));
+}
+
+/**
+ * BG1 in Mode 0 with characters at $1000: 1 and 18 are solid color 1, 2 is
+ * color 2 and 17 color 3. The tilemap at $0000 starts with tile 1, its second
+ * 32x32 screen with tile 2 and its third with tile 17.
+ */
+function createTiles(): TestPPU {
+    const test = createPPU();
+    const { vram } = test;
+    const colors: [number, number][] = [[1, 1], [2, 2], [17, 3], [18, 1]];
+    for (const [tile, color] of colors) {
+        const planes = ((color & 1) ? 0x00FF : 0) | ((color & 2) ? 0xFF00 : 0);
+        vram.fill(planes, 0x1000 + tile * 8, 0x1000 + tile * 8 + 8);
+    }
+    vram[0x000] = 1;
+    vram[0x400] = 2;
+    vram[0x800] = 17;
+
+    writeRegisters(test.ppu, [[0x210B, 0x01], [0x212C, 0x01]]);
+    return test;
+}
+
+// [description, BGMODE, BG1SC, BG1HOFS, BG1VOFS, line, colors of pixels 0-15]
+const TILE_CASES: [string, number, number, number, number, number, number[]][] = [
+    ['8x8 tiles', 0x00, 0x00, 0, 0, 0, [...Array(8).fill(1), ...Array(8).fill(0)]],
+    ['the top of 16x16 tiles', 0x10, 0x00, 0, 0, 0, [...Array(8).fill(1), ...Array(8).fill(2)]],
+    ['the bottom of 16x16 tiles', 0x10, 0x00, 0, 0, 8, [...Array(8).fill(3), ...Array(8).fill(1)]],
+    ['a 32-wide tilemap wrapping around', 0x00, 0x00, 256, 0, 0, [...Array(8).fill(1), ...Array(8).fill(0)]],
+    ['the right half of a 64-wide tilemap', 0x00, 0x01, 256, 0, 0, [...Array(8).fill(2), ...Array(8).fill(0)]],
+    ['the bottom half of a 64-tall tilemap', 0x00, 0x02, 0, 256, 0, [...Array(8).fill(2), ...Array(8).fill(0)]],
+    ['the bottom-left screen of a 64x64 tilemap', 0x00, 0x03, 0, 256, 0, [...Array(8).fill(3), ...Array(8).fill(0)]]
+];
+
+describe('PPU BG tiles', () => {
+    for (const [description, mode, screen, hScroll, vScroll, y, expected] of TILE_CASES) {
+        it(`draws ${description}`, () => {
+            const { ppu } = createTiles();
+            writeRegisters(ppu, [
+                [0x2105, mode], [0x2107, screen],
+                [0x210D, hScroll & 0xFF], [0x210D, hScroll >> 8],
+                [0x210E, vScroll & 0xFF], [0x210E, vScroll >> 8]
+            ]);
+            expect(renderLine(ppu, y).slice(0, 16)).toEqual(expected);
+        });
+    }
+});
+
+/**
+ * Mode 7 plane: tile 0 is solid color 3, tile 1 solid color 5 and tile 2 a
+ * gradient of colors 1-8 across each row. The map starts with tile 2 then
+ * tile 1, and has tile 1 at the end of the first row for the wrap-around.
+ */
+function createMode7(): TestPPU {
+    const test = createPPU();
+    const { vram } = test;
+    for (let i = 0; i < 64; i++) {
+        vram[i] |= 3 << 8;
+        vram[64 + i] |= 5 << 8;
+        vram[128 + i] |= ((i & 7) + 1) << 8;
+    }
+    vram[0] |= 2;
+    vram[1] |= 1;
+    vram[127] |= 1;
+
+    // Mode 7 on the main screen with the identity matrix
+    writeRegisters(test.ppu, [
+        [0x2105, 0x07], [0x212C, 0x01],
+        [0x211B, 0x00], [0x211B, 0x01], [0x211E, 0x00], [0x211E, 0x01]
+    ]);
+    return test;
+}
+
+const GRADIENT = [1, 2, 3, 4, 5, 6, 7, 8];
+const SOLID_5 = Array(8).fill(5);
+
+// [description, extra register writes, first pixel checked, expected colors]
+const MODE7_CASES: [string, [number, number][], number, number[]][] = [
+    ['maps the plane one to one', [], 0, [...GRADIENT, ...SOLID_5, 3, 3]],
+    ['scrolls with M7HOFS', [[0x210D, 0x04], [0x210D, 0x00]], 0, [5, 6, 7, 8, ...SOLID_5, 3]],
+    ['scales by the matrix', [[0x211B, 0x80], [0x211B, 0x00]], 0, GRADIENT.flatMap(color => [color, color])],
+    ['flips the screen with M7SEL', [[0x211A, 0x01]], 240, [...GRADIENT, ...SOLID_5].reverse()],
+    ['repeats the plane outside of it', [[0x210D, 0xF8], [0x210D, 0x1F]], 0, [...SOLID_5, ...GRADIENT]],
+    ['leaves the outside transparent', [[0x211A, 0x80], [0x210D, 0xF8], [0x210D, 0x1F]], 0, [...Array(8).fill(0), ...GRADIENT]],
+    ['fills the outside with tile 0', [[0x211A, 0xC0], [0x210D, 0xF8], [0x210D, 0x1F]], 0, [...Array(8).fill(3), ...GRADIENT]]
+];
+
+describe('PPU Mode 7', () => {
+    for (const [description, writes, fromX, expected] of MODE7_CASES) {
+        it(description, () => {
+            const { ppu } = createMode7();
+            writeRegisters(ppu, writes);
+            expect(renderLine(ppu, 0).slice(fromX, fromX + expected.length)).toEqual(expected);
+        });
+    }
+
+    it('uses the line number as the Y coordinate', () => {
+        const { ppu } = createMode7();
+        expect(renderLine(ppu, 8).slice(0, 8)).toEqual(Array(8).fill(3));
+    });
+});
+
+// Window 1 covers pixels 10-19 and window 2 pixels 15-29
+const WINDOW_POSITIONS: [number, number][] = [[0x2126, 10], [0x2127, 19], [0x2128, 15], [0x2129, 29]];
+
+const inRange = (x: number, left: number, right: number) => x >= left && x <= right;
+
+// [description, W12SEL for BG1, WBGLOG, pixels masked]
+const WINDOW_CASES: [string, number, number, (x: number) => boolean][] = [
+    ['no window enabled', 0x00, 0, () => false],
+    ['window 1 alone', 0x02, 0, x => inRange(x, 10, 19)],
+    ['window 1 inverted', 0x03, 0, x => !inRange(x, 10, 19)],
+    ['window 2 alone ignores the logic', 0x08, 1, x => inRange(x, 15, 29)],
+    ['OR of both windows', 0x0A, 0, x => inRange(x, 10, 29)],
+    ['AND of both windows', 0x0A, 1, x => inRange(x, 15, 19)],
+    ['XOR of both windows', 0x0A, 2, x => inRange(x, 10, 14) || inRange(x, 20, 29)],
+    ['XNOR of both windows', 0x0A, 3, x => !(inRange(x, 10, 14) || inRange(x, 20, 29))],
+    ['AND with window 2 inverted', 0x0E, 1, x => inRange(x, 10, 14)]
+];
+
+describe('PPU windows', () => {
+    for (const [description, settings, logic, masked] of WINDOW_CASES) {
+        it(`masks BG1 with ${description}`, () => {
+            const { ppu } = createMode7();
+            const unmasked = renderLine(ppu, 0);
+
+            const test = createMode7();
+            writeRegisters(test.ppu, [...WINDOW_POSITIONS, [0x2123, settings], [0x212A, logic], [0x212E, 0x01]]);
+            expect(renderLine(test.ppu, 0)).toEqual(unmasked.map((color, x) => masked(x) ? 0 : color));
+        });
+    }
+
+    it('clips the main screen to black inside the color window', () => {
+        const { ppu } = createMode7();
+        const unclipped = renderLine(ppu, 0);
+
+        const test = createMode7();
+        writeRegisters(test.ppu, [...WINDOW_POSITIONS, [0x2125, 0x20], [0x2130, 0x80]]);
+        expect(renderLine(test.ppu, 0)).toEqual(unclipped.map((color, x) => inRange(x, 10, 19) ? 0 : color));
+    });
+});
+
+// Sprite 0 in the top-left corner: an 8x8 tile of color 1 from the first OBJ palette
+function addSprite(test: TestPPU, attributes: number): void {
+    const { ppu, vram } = test;
+    for (let row = 0; row < 8; row++) vram[0x6000 + row] |= 0xFF;
+    ppu.writeRegister(0x2101, 0x03);
+    ppu.writeRegister(0x2102, 0x00);
+    ppu.writeRegister(0x2103, 0x00);
+    for (const value of [0x00, 0x00, 0x00, attributes]) ppu.writeRegister(0x2104, value);
+}
+
+const SPRITE = Array(8).fill(129);
+
+// [description, TM, EXTBG, BG2 pixels with bit 7 set, OBJ priority, expected]
+const PRIORITY_CASES: [string, number, boolean, boolean, number, number[]][] = [
+    ['BG1 covers OBJ priority 0', 0x11, false, false, 0, GRADIENT],
+    ['OBJ priority 1 covers BG1', 0x11, false, false, 1, SPRITE],
+    ['OBJ priority 0 shows without BG1', 0x10, false, false, 0, SPRITE],
+    ['high-priority BG2 covers OBJ priority 1', 0x12, true, true, 1, GRADIENT],
+    ['OBJ priority 2 covers high-priority BG2', 0x12, true, true, 2, SPRITE],
+    ['OBJ priority 0 covers low-priority BG2', 0x12, true, false, 0, SPRITE]
+];
+
+describe('PPU layer priority', () => {
+    for (const [description, layers, extbg, high, objPriority, expected] of PRIORITY_CASES) {
+        it(`Mode 7: ${description}`, () => {
+            const test = createMode7();
+            if (high) {
+                for (let i = 0; i < 64; i++) test.vram[128 + i] |= 0x80 << 8;
+            }
+            addSprite(test, objPriority << 4);
+            writeRegisters(test.ppu, [[0x212C, layers], [0x2133, extbg ? 0x40 : 0x00]]);
+            expect(renderLine(test.ppu, 2).slice(0, 8)).toEqual(expected);
+        });
+    }
+});
+
+/**
+ * Puts `count` sprites on the first lines, `spacing` pixels apart, all drawn
+ * with color 129. Large sprites are 16x16 (two 8-pixel tiles per line).
+ */
+function createSprites(count: number, large: boolean, spacing: number): TestPPU {
+    const test = createPPU();
+    const { ppu, vram, oam } = test;
+    for (let word = 0; word < 32; word++) vram[0x6000 + word] = (word & 8) ? 0 : 0x00FF;
+
+    for (let sprite = 0; sprite < count; sprite++) {
+        oam.set([sprite * spacing, 0x00, 0x00, 0x00], sprite * 4);
+        if (large) oam[0x200 + (sprite >> 2)] |= 0x02 << ((sprite & 3) * 2);
+    }
+
+    writeRegisters(ppu, [[0x2101, 0x03], [0x212C, 0x10]]);
+    return test;
+}
+
+const stat77 = (ppu: PPU) => ppu.readRegister(0x213E) & 0xC0;
+
+// [description, sprites, large, STAT77 range/time over flags]
+const SPRITE_LIMIT_CASES: [string, number, boolean, number][] = [
+    ['32 sprites fit the range limit', 32, false, 0x00],
+    ['33 sprites are over the range limit', 33, false, 0x40],
+    ['34 tiles fit the time limit', 17, true, 0x00],
+    ['36 tiles are over the time limit', 18, true, 0x80],
+    ['33 large sprites are over both limits', 33, true, 0xC0]
+];
+
+describe('PPU sprites', () => {
+    for (const [description, count, large, flags] of SPRITE_LIMIT_CASES) {
+        it(`flags ${description} in STAT77`, () => {
+            const { ppu } = createSprites(count, large, 7);
+            renderLine(ppu, 2);
+            expect(stat77(ppu)).toBe(flags);
+        });
+    }
+
+    it('drops the sprites after the 32nd in range', () => {
+        const { ppu } = createSprites(33, false, 7);
+        expect(renderLine(ppu, 2).slice(224, 232)).toEqual([129, ...Array(7).fill(0)]);
+    });
+
+    it('drops the tiles of the frontmost sprites after the 34th', () => {
+        // Sprite 0 is fetched last: it loses both tiles and sprite 1 shows from x=14
+        const { ppu } = createSprites(18, true, 14);
+        expect(renderLine(ppu, 2).slice(0, 16)).toEqual([...Array(14).fill(0), 129, 129]);
+    });
+
+    it('draws every sprite with the limits turned off', () => {
+        const { ppu } = createSprites(18, true, 14);
+        ppu.setSpriteLimit(false);
+        expect(renderLine(ppu, 2).slice(0, 16)).toEqual(Array(16).fill(129));
+        expect(stat77(ppu)).toBe(0x80);
+    });
+
+    it('clears the STAT77 flags when a new frame starts', () => {
+        const { ppu } = createSprites(33, true, 7);
+        renderLine(ppu, 2);
+        for (let line = 2; line < 262; line++) ppu.endScanline();
+        ppu.beginScanline();
+        expect(stat77(ppu)).toBe(0x00);
+    });
+
+    it('counts the tile limit over the whole line when it is drawn in parts', () => {
+        const { ppu } = createSprites(18, true, 14);
+        const whole = renderLine(ppu, 2);
+
+        const test = createSprites(18, true, 14);
+        const interrupts = new InterruptController();
+        test.ppu.setInterruptController(interrupts);
+        for (let line = 0; line < 2; line++) test.ppu.endScanline();
+        test.ppu.beginScanline();
+        interrupts.advanceBeam(2, 0, 20 + 8);
+        test.ppu.writeRegister(0x2126, 0x00);
+        test.ppu.renderPixels();
+        expect(readLine(test.ppu, 2)).toEqual(whole);
+    });
+});
+
+describe('PPU mid-line writes', () => {
+    it('keeps the pixels the beam already drew with the old registers', () => {
+        const { ppu } = createMode7();
+        const interrupts = new InterruptController();
+        ppu.setInterruptController(interrupts);
+
+        // Pixel 0 leaves at dot 20: the beam is past the first 8 pixels
+        ppu.beginScanline();
+        interrupts.advanceBeam(0, 0, 28);
+        writeRegisters(ppu, [[0x210D, 0x04], [0x210D, 0x00]]);
+        ppu.renderPixels();
+        expect(readLine(ppu, 0).slice(0, 16)).toEqual([...GRADIENT, 5, 5, 5, 5, 3, 3, 3, 3]);
+    });
+});
@@ -3,6 +3,61 @@
  * Implementação completa com suporte a todos os 8 modos de background + sprites
  */
 
+import type { InterruptController } from './InterruptController';
+import type { StateReader, StateWriter } from './SaveState';
+
+// Camadas na ordem dos bits de TM/TS, TMW/TSW e CGADSUB; o bit 5 de CGADSUB é o backdrop
+const Layer = {
+    BG1: 0,
+    BG2: 1,
+    BG3: 2,
+    BG4: 3,
+    OBJ: 4,
+    BACKDROP: 5
+} as const;
+
+// Índice da janela de cor em windowLines
+const COLOR_WINDOW = 5;
+
+// Uma das duas telas (main/sub) da linha em composição, com cores BGR555 da CGRAM
+interface ScreenLine {
+    color: Uint16Array;
+    layer: Uint8Array;
+    math: Uint8Array;   // Pixel participa da color math (só usado na main screen)
+}
+
+// Pixels de uma camada na linha: índice na CGRAM (0 = transparente) e prioridade
+interface LayerLine {
+    color: Uint8Array;
+    priority: Uint8Array;
+}
+
+// Entradas das tabelas de prioridade: camada nos bits 2-4, prioridade nos bits 0-1
+const bg = (layer: number, priority: number) => (layer << 2) | priority;
+const obj = (priority: number) => (Layer.OBJ << 2) | priority;
+
+// Ordem das camadas de cada modo, da frente para trás
+const PRIORITY_MODE0 = [obj(3), bg(0, 1), bg(1, 1), obj(2), bg(0, 0), bg(1, 0), obj(1), bg(2, 1), bg(3, 1), obj(0), bg(2, 0), bg(3, 0)];
+const PRIORITY_MODE1 = [obj(3), bg(0, 1), bg(1, 1), obj(2), bg(0, 0), bg(1, 0), obj(1), bg(2, 1), obj(0), bg(2, 0)];
+const PRIORITY_MODE1_BG3 = [bg(2, 1), obj(3), bg(0, 1), bg(1, 1), obj(2), bg(0, 0), bg(1, 0), obj(1), obj(0), bg(2, 0)];
+const PRIORITY_MODE2 = [obj(3), bg(0, 1), obj(2), bg(1, 1), obj(1), bg(0, 0), obj(0), bg(1, 0)]; // Modos 2-5
+const PRIORITY_MODE6 = [obj(3), bg(0, 1), obj(2), obj(1), bg(0, 0), obj(0)];
+const PRIORITY_MODE7 = [obj(3), obj(2), obj(1), bg(0, 0), obj(0)];
+const PRIORITY_MODE7_EXTBG = [obj(3), obj(2), bg(1, 1), obj(1), bg(0, 0), obj(0), bg(1, 0)];
+
+// Tamanhos de OBJ de cada valor de OBSEL bits 7-5: largura/altura pequena e grande
+const OBJ_SIZES = [
+    [8, 8, 16, 16], [8, 8, 32, 32], [8, 8, 64, 64], [16, 16, 32, 32],
+    [16, 16, 64, 64], [32, 32, 64, 64], [16, 32, 32, 64], [16, 32, 32, 32]
+];
+
+// Por linha o hardware avalia até 32 sprites e busca até 34 tiles de 8 pixels
+const OBJ_RANGE_LIMIT = 32;
+const OBJ_TIME_LIMIT = 34;
+
+// Profundidade de cor dos BGs de cada modo (o Mode 7 tem renderização própria)
+const MODE_BPP = [[2, 2, 2, 2], [4, 4, 2], [4, 4], [8, 4], [8, 2], [4, 2], [4], []];
+
 export class PPU {
     private vram: Uint16Array;
     private cgram: Uint8Array;
@@ -18,8 +73,22 @@ export class PPU {
     private vramAddress = 0;
     private cgramAddress = 0;
     private oamAddress = 0;
-    private cgramFirstWrite = true;
-    private oamFirstWrite = true;
+    private cgramFirstWrite = true; // Flip-flop compartilhado por $2122 e $213B
+    private oamLatch = 0;           // Byte par das escritas na tabela baixa da OAM
+    private oamReload = 0;          // OAMADD (endereço em palavras), recarregado no início do VBlank
+    private oamPriorityRotation = false;
+    private vramReadLatch = 0;      // Prefetch de $2139/$213A
+
+    // Open bus dos dois chips: último valor lido de um registrador de cada um
+    private ppu1OpenBus = 0;
+    private ppu2OpenBus = 0;
+
+    // Contadores H/V travados por SLHV ($2137) ou WRIO, lidos em $213C/$213D
+    private hCounterLatch = 0;
+    private vCounterLatch = 0;
+    private hCounterHigh = false;
+    private vCounterHigh = false;
+    private countersLatched = false;
 
     // Background Mode e configurações
     private bgMode = 0; // $2105
@@ -28,15 +97,32 @@ export class PPU {
 
     // Endereços de Tilemap e Character data
     private bgTilemapAddr = new Uint16Array(4);
+    private bgTilemapSize = new Uint8Array(4); // BGnSC bits 1-0: bit 0 largura 64, bit 1 altura 64
     private bgCharAddr = new Uint16Array(4);
     private bgHScroll = new Uint16Array(4);
     private bgVScroll = new Uint16Array(4);
     private bgScrollPrev = new Uint8Array(4);
 
-    // Window e masking
-    private windowMask = new Uint8Array(4);
+    // Janelas: W12SEL/W34SEL/WOBJSEL guardam 4 bits por camada (BG1-4, OBJ, cor)
+    private windowSettings = new Uint8Array(3);
+    private windowPositions = new Uint8Array(4); // WH0-WH3: esquerda/direita das janelas 1 e 2
+    private windowLogic = 0;                     // WBGLOG | WOBJLOG << 8, 2 bits por camada
     private mainScreenDesignation = 0x1F; // TM
     private subScreenDesignation = 0; // TS
+    private mainWindowDesignation = 0; // TMW
+    private subWindowDesignation = 0; // TSW
+
+    // Color math
+    private cgwsel = 0;
+    private cgadsub = 0;
+    private fixedColor = 0; // COLDATA em BGR555
+
+    // Sprites
+    private obsel = 0;          // $2101: tamanhos (bits 7-5), intervalo da 2ª tabela (4-3), base (2-0)
+    private rangeOver = false;  // STAT77 bit 6: mais de 32 sprites numa linha
+    private timeOver = false;   // STAT77 bit 7: mais de 34 tiles numa linha
+    private spriteLimit = true; // Opção do emulador, não salva no estado
+    private objInRange = new Uint8Array(128);
 
     // Mosaic
     private mosaicSize = 1;
@@ -46,23 +132,48 @@ export class PPU {
     private mode7Matrix = new Int16Array(8);
     private mode7CenterX = 0;
     private mode7CenterY = 0;
+    private mode7Latch = 0; // Byte anterior das escritas duplas de $210D/$210E e $211B-$2120
+    private mode7HScroll = 0; // M7HOFS/M7VOFS: 13 bits com sinal, como o centro
+    private mode7VScroll = 0;
+    private m7sel = 0;      // $211A: bits 7-6 fora da área, bit 1 flip V, bit 0 flip H
+    private extbg = false;  // SETINI bit 6: BG2 do Mode 7 com prioridade por pixel
 
     // Estado
     private scanline = 0;
     private frameCounter = 0;
     private vblank = false;
-
-    // Prioridade de layers para renderização
-    private layerBuffer: Uint8Array;
-    private priorityBuffer: Uint8Array;
+    private interrupts: InterruptController | null = null;
+
+    // A linha é composta em lineBuffer e copiada para a tela em trechos: cada
+    // escrita em registrador durante a linha visível primeiro desenha só os
+    // pixels que o feixe passou desde o último trecho, com os valores antigos
+    private lineBuffer: Uint8ClampedArray;
+    private renderedX = 0;
+    private readonly firstPixelDot = 20; // Pixel 0 sai no ponto H=20, o último termina em H=276
+
+    // Cada camada é desenhada uma vez por linha; main e sub screen escolhem
+    // pixel a pixel a camada da frente pela tabela de prioridade do modo
+    private bgLines: LayerLine[] = [];
+    private objLine: LayerLine;
+    private mainScreen: ScreenLine;
+    private subScreen: ScreenLine;
+    private windowLines: Uint8Array[] = [];
 
     constructor(vram: Uint8Array, cgram: Uint8Array, oam: Uint8Array) {
         this.vram = new Uint16Array(vram.buffer);
         this.cgram = cgram;
         this.oam = oam;
         this.screenBuffer = new Uint8ClampedArray(this.screenWidth * this.screenHeight * 4);
-        this.layerBuffer = new Uint8Array(this.screenWidth * this.screenHeight);
-        this.priorityBuffer = new Uint8Array(this.screenWidth * this.screenHeight);
+        this.lineBuffer = new Uint8ClampedArray(this.screenWidth * 4);
+        for (let i = 0; i < 4; i++) {
+            this.bgLines.push(this.createLayerLine());
+        }
+        this.objLine = this.createLayerLine();
+        this.mainScreen = this.createScreenLine();
+        this.subScreen = this.createScreenLine();
+        for (let i = 0; i <= COLOR_WINDOW; i++) {
+            this.windowLines.push(new Uint8Array(this.screenWidth));
+        }
         this.reset();
     }
 
@@ -73,28 +184,150 @@ export class PPU {
         this.vramAddress = 0;
         this.cgramAddress = 0;
         this.oamAddress = 0;
+        this.vramReadLatch = 0;
+        this.ppu1OpenBus = 0;
+        this.ppu2OpenBus = 0;
+        this.hCounterLatch = 0;
+        this.vCounterLatch = 0;
+        this.hCounterHigh = false;
+        this.vCounterHigh = false;
+        this.countersLatched = false;
         this.bgMode = 0;
+        this.renderedX = 0;
         this.screenBuffer.fill(0);
-        this.layerBuffer.fill(0);
-        this.priorityBuffer.fill(0);
+        this.lineBuffer.fill(0);
         console.log('🖼️ PPU Reset - All modes ready');
     }
 
+    public setInterruptController(interrupts: InterruptController): void { this.interrupts = interrupts; }
+
+    // VRAM, CGRAM e OAM pertencem à Memory e são salvos por ela
+    public saveState(writer: StateWriter): void {
+        writer.section('PPU ');
+        writer.u8(this.brightness);
+        writer.u8(this.vmain);
+        writer.u16(this.vramAddress);
+        writer.u8(this.cgramAddress);
+        writer.u16(this.oamAddress);
+        writer.bool(this.cgramFirstWrite);
+        writer.u8(this.oamLatch);
+        writer.u16(this.oamReload);
+        writer.bool(this.oamPriorityRotation);
+        writer.u8(this.obsel);
+        writer.bool(this.rangeOver);
+        writer.bool(this.timeOver);
+        writer.u8(this.bgMode);
+        writer.bool(this.bg3Priority);
+        writer.array(this.bgTileSize);
+        writer.array(this.bgTilemapAddr);
+        writer.array(this.bgTilemapSize);
+        writer.array(this.bgCharAddr);
+        writer.array(this.bgHScroll);
+        writer.array(this.bgVScroll);
+        writer.array(this.bgScrollPrev);
+        writer.array(this.windowSettings);
+        writer.array(this.windowPositions);
+        writer.u16(this.windowLogic);
+        writer.u8(this.mainScreenDesignation);
+        writer.u8(this.subScreenDesignation);
+        writer.u8(this.mainWindowDesignation);
+        writer.u8(this.subWindowDesignation);
+        writer.u8(this.cgwsel);
+        writer.u8(this.cgadsub);
+        writer.u16(this.fixedColor);
+        writer.u8(this.mosaicSize);
+        writer.u8(this.mosaicEnable);
+        writer.array(this.mode7Matrix);
+        writer.u16(this.mode7CenterX);
+        writer.u16(this.mode7CenterY);
+        writer.u8(this.mode7Latch);
+        writer.u16(this.mode7HScroll);
+        writer.u16(this.mode7VScroll);
+        writer.u8(this.m7sel);
+        writer.bool(this.extbg);
+        writer.u16(this.scanline);
+        writer.u32(this.frameCounter);
+        writer.bool(this.vblank);
+        writer.u16(this.vramReadLatch);
+        writer.u8(this.ppu1OpenBus);
+        writer.u8(this.ppu2OpenBus);
+        writer.u16(this.hCounterLatch);
+        writer.u16(this.vCounterLatch);
+        writer.bool(this.hCounterHigh);
+        writer.bool(this.vCounterHigh);
+        writer.bool(this.countersLatched);
+    }
+
+    public loadState(reader: StateReader): void {
+        reader.section('PPU ');
+        this.brightness = reader.u8();
+        this.vmain = reader.u8();
+        this.vramAddress = reader.u16();
+        this.cgramAddress = reader.u8();
+        this.oamAddress = reader.u16();
+        this.cgramFirstWrite = reader.bool();
+        this.oamLatch = reader.u8();
+        this.oamReload = reader.u16();
+        this.oamPriorityRotation = reader.bool();
+        this.obsel = reader.u8();
+        this.rangeOver = reader.bool();
+        this.timeOver = reader.bool();
+        this.bgMode = reader.u8();
+        this.bg3Priority = reader.bool();
+        reader.array(this.bgTileSize);
+        reader.array(this.bgTilemapAddr);
+        reader.array(this.bgTilemapSize);
+        reader.array(this.bgCharAddr);
+        reader.array(this.bgHScroll);
+        reader.array(this.bgVScroll);
+        reader.array(this.bgScrollPrev);
+        reader.array(this.windowSettings);
+        reader.array(this.windowPositions);
+        this.windowLogic = reader.u16();
+        this.mainScreenDesignation = reader.u8();
+        this.subScreenDesignation = reader.u8();
+        this.mainWindowDesignation = reader.u8();
+        this.subWindowDesignation = reader.u8();
+        this.cgwsel = reader.u8();
+        this.cgadsub = reader.u8();
+        this.fixedColor = reader.u16();
+        this.mosaicSize = reader.u8();
+        this.mosaicEnable = reader.u8();
+        reader.array(this.mode7Matrix);
+        this.mode7CenterX = reader.u16();
+        this.mode7CenterY = reader.u16();
+        this.mode7Latch = reader.u8();
+        this.mode7HScroll = reader.u16();
+        this.mode7VScroll = reader.u16();
+        this.m7sel = reader.u8();
+        this.extbg = reader.bool();
+        this.scanline = reader.u16();
+        this.frameCounter = reader.u32();
+        this.vblank = reader.bool();
+        this.vramReadLatch = reader.u16();
+        this.ppu1OpenBus = reader.u8();
+        this.ppu2OpenBus = reader.u8();
+        this.hCounterLatch = reader.u16();
+        this.vCounterLatch = reader.u16();
+        this.hCounterHigh = reader.bool();
+        this.vCounterHigh = reader.bool();
+        this.countersLatched = reader.bool();
+    }
+
     public getScanline(): number { return this.scanline; }
     public getScreenBuffer(): Uint8ClampedArray { return this.screenBuffer; }
     public isVBlank(): boolean { return this.vblank; }
 
     public writeRegister(address: number, value: number): void {
         const reg = address & 0xFFFF;
+        this.catchUp();
 
         switch (reg) {
             case 0x2100: // INIDISP - Screen display
                 this.brightness = value & 0x0F;
                 break;
 
-            case 0x2101: // OBSEL - Object size and data area
-                // Implementar seleção de tamanho de sprites
-                break;
+            case 0x2101: this.obsel = value; break; // OBSEL - Object size and data area
 
             case 0x2105: // BGMODE - BG mode and character size
                 this.bgMode = value & 0x07;
@@ -110,10 +343,12 @@ export class PPU {
                 this.mosaicEnable = value & 0x0F;
                 break;
 
-            case 0x2107: this.bgTilemapAddr[0] = (value & 0xFC) << 8; break;
-            case 0x2108: this.bgTilemapAddr[1] = (value & 0xFC) << 8; break;
-            case 0x2109: this.bgTilemapAddr[2] = (value & 0xFC) << 8; break;
-            case 0x210A: this.bgTilemapAddr[3] = (value & 0xFC) << 8; break;
+            // BG1SC-BG4SC: base do tilemap e tamanho em telas de 32x32
+            case 0x2107: case 0x2108:
+            case 0x2109: case 0x210A:
+                this.bgTilemapAddr[reg - 0x2107] = (value & 0xFC) << 8;
+                this.bgTilemapSize[reg - 0x2107] = value & 0x03;
+                break;
 
             case 0x210B:
                 this.bgCharAddr[0] = (value & 0x0F) << 12;
@@ -126,13 +361,17 @@ export class PPU {
                 break;
 
             // BG Scroll registers (escrita dupla)
-            case 0x210D: // BG1HOFS
+            case 0x210D: // BG1HOFS / M7HOFS
                 this.bgHScroll[0] = ((value << 8) | this.bgScrollPrev[0]) & 0x3FF;
                 this.bgScrollPrev[0] = value;
+                this.mode7HScroll = ((value << 8) | this.mode7Latch) & 0x1FFF;
+                this.mode7Latch = value;
                 break;
-            case 0x210E: // BG1VOFS
+            case 0x210E: // BG1VOFS / M7VOFS
                 this.bgVScroll[0] = ((value << 8) | this.bgScrollPrev[0]) & 0x3FF;
                 this.bgScrollPrev[0] = value;
+                this.mode7VScroll = ((value << 8) | this.mode7Latch) & 0x1FFF;
+                this.mode7Latch = value;
                 break;
             case 0x210F: // BG2HOFS
                 this.bgHScroll[1] = ((value << 8) | this.bgScrollPrev[1]) & 0x3FF;
@@ -161,8 +400,14 @@ export class PPU {
 
             // VRAM Access
             case 0x2115: this.vmain = value; break;
-            case 0x2116: this.vramAddress = (this.vramAddress & 0xFF00) | value; break;
-            case 0x2117: this.vramAddress = ((value & 0xFF) << 8) | (this.vramAddress & 0x00FF); break;
+            case 0x2116:
+                this.vramAddress = (this.vramAddress & 0xFF00) | value;
+                this.vramReadLatch = this.vram[this.vramAddress & 0x7FFF];
+                break;
+            case 0x2117:
+                this.vramAddress = ((value & 0xFF) << 8) | (this.vramAddress & 0x00FF);
+                this.vramReadLatch = this.vram[this.vramAddress & 0x7FFF];
+                break;
             case 0x2118: this.vramWrite(0, value); break;
             case 0x2119: this.vramWrite(1, value); break;
 
@@ -185,36 +430,195 @@ export class PPU {
 
             // OAM Access
             case 0x2102: // OAMADDL
-                this.oamAddress = (this.oamAddress & 0x0200) | value;
-                this.oamFirstWrite = true;
+                this.oamReload = (this.oamReload & 0x100) | value;
+                this.oamAddress = this.oamReload << 1;
                 break;
-            case 0x2103: // OAMADDH
-                this.oamAddress = ((value & 0x01) << 9) | (this.oamAddress & 0x01FF);
-                this.oamFirstWrite = true;
+            case 0x2103: // OAMADDH: bit 0 escolhe a tabela alta, bit 7 liga a rotação de prioridade
+                this.oamReload = ((value & 0x01) << 8) | (this.oamReload & 0xFF);
+                this.oamAddress = this.oamReload << 1;
+                this.oamPriorityRotation = (value & 0x80) !== 0;
                 break;
-            case 0x2104: // OAMDATA
-                this.oam[this.oamAddress] = value;
-                this.oamAddress = (this.oamAddress + 1) & 0x21F;
+            case 0x2104: // OAMDATA: a tabela baixa é escrita em palavras, a alta byte a byte
+                if (this.oamAddress >= 0x200) {
+                    this.oam[this.oamIndex()] = value;
+                } else if (!(this.oamAddress & 1)) {
+                    this.oamLatch = value;
+                } else {
+                    this.oam[this.oamAddress - 1] = this.oamLatch;
+                    this.oam[this.oamAddress] = value;
+                }
+                this.oamAddress = (this.oamAddress + 1) & 0x3FF;
                 break;
 
             // Mode 7 registers
-            case 0x211A: // M7SEL
-                // Mode 7 settings
+            case 0x211A: this.m7sel = value; break; // M7SEL
+            case 0x211B: // M7A (também multiplicando de $2134-$2136)
+                this.mode7Matrix[0] = (value << 8) | this.mode7Latch;
+                this.mode7Latch = value;
+                break;
+            case 0x211C: // M7B (o último byte escrito é o multiplicador)
+                this.mode7Matrix[1] = (value << 8) | this.mode7Latch;
+                this.mode7Latch = value;
                 break;
-            case 0x211B: case 0x211C: case 0x211D: case 0x211E:
-            case 0x211F: case 0x2120:
-                // Mode 7 matrix
+            case 0x211D: // M7C
+                this.mode7Matrix[2] = (value << 8) | this.mode7Latch;
+                this.mode7Latch = value;
+                break;
+            case 0x211E: // M7D
+                this.mode7Matrix[3] = (value << 8) | this.mode7Latch;
+                this.mode7Latch = value;
+                break;
+            case 0x211F: // M7X
+                this.mode7CenterX = ((value << 8) | this.mode7Latch) & 0x1FFF;
+                this.mode7Latch = value;
+                break;
+            case 0x2120: // M7Y
+                this.mode7CenterY = ((value << 8) | this.mode7Latch) & 0x1FFF;
+                this.mode7Latch = value;
                 break;
 
             // Window masking
-            case 0x2123: case 0x2124: case 0x2125:
-                // Window settings
+            case 0x2123: this.windowSettings[0] = value; break; // W12SEL
+            case 0x2124: this.windowSettings[1] = value; break; // W34SEL
+            case 0x2125: this.windowSettings[2] = value; break; // WOBJSEL
+            case 0x2126: case 0x2127:
+            case 0x2128: case 0x2129:
+                this.windowPositions[reg - 0x2126] = value;
                 break;
+            case 0x212A: this.windowLogic = (this.windowLogic & 0xFF00) | value; break;
+            case 0x212B: this.windowLogic = ((value & 0x0F) << 8) | (this.windowLogic & 0xFF); break;
 
             // Screen designation
             case 0x212C: this.mainScreenDesignation = value; break;
             case 0x212D: this.subScreenDesignation = value; break;
+            case 0x212E: this.mainWindowDesignation = value; break;
+            case 0x212F: this.subWindowDesignation = value; break;
+
+            // Color math
+            case 0x2130: this.cgwsel = value; break;
+            case 0x2131: this.cgadsub = value; break;
+            case 0x2132: { // COLDATA: bits 5-7 escolhem os canais que recebem a intensidade
+                const intensity = value & 0x1F;
+                if (value & 0x20) this.fixedColor = (this.fixedColor & ~0x001F) | intensity;
+                if (value & 0x40) this.fixedColor = (this.fixedColor & ~0x03E0) | (intensity << 5);
+                if (value & 0x80) this.fixedColor = (this.fixedColor & ~0x7C00) | (intensity << 10);
+                break;
+            }
+
+            case 0x2133: // SETINI
+                this.extbg = (value & 0x40) !== 0;
+                break;
+        }
+    }
+
+    /**
+     * Leitura de $2134-$213F (exceto $2137, tratado pela Memory). Cada leitura
+     * atualiza o open bus do chip que responde: PPU1 ($2134-$213A, $213E) ou
+     * PPU2 ($213B-$213D, $213F).
+     */
+    public readRegister(address: number): number {
+        let value: number;
+
+        switch (address & 0xFFFF) {
+            // MPYL/MPYM/MPYH: M7A (16 bits com sinal) × último byte de M7B (8 bits com sinal)
+            case 0x2134: value = this.multiplyResult() & 0xFF; break;
+            case 0x2135: value = (this.multiplyResult() >> 8) & 0xFF; break;
+            case 0x2136: value = (this.multiplyResult() >> 16) & 0xFF; break;
+
+            case 0x2138: // RDOAM
+                value = this.oam[this.oamIndex()];
+                this.oamAddress = (this.oamAddress + 1) & 0x3FF;
+                break;
+
+            // RDVRAML/H: devolve o prefetch e recarrega ao incrementar
+            case 0x2139:
+                value = this.vramReadLatch & 0xFF;
+                if (!(this.vmain & 0x80)) this.vramPrefetch();
+                break;
+            case 0x213A:
+                value = this.vramReadLatch >> 8;
+                if (this.vmain & 0x80) this.vramPrefetch();
+                break;
+
+            case 0x213B: { // RDCGRAM: byte baixo, depois alto (bit 7 é open bus da PPU2)
+                const addr = (this.cgramAddress << 1) & 0x1FF;
+                if (this.cgramFirstWrite) {
+                    value = this.cgram[addr];
+                    this.cgramFirstWrite = false;
+                } else {
+                    value = (this.cgram[addr + 1] & 0x7F) | (this.ppu2OpenBus & 0x80);
+                    this.cgramFirstWrite = true;
+                    this.cgramAddress = (this.cgramAddress + 1) & 0xFF;
+                }
+                break;
+            }
+
+            // OPHCT/OPVCT: 9 bits em duas leituras, bits 1-7 do byte alto são open bus
+            case 0x213C:
+                value = this.hCounterHigh
+                    ? ((this.hCounterLatch >> 8) & 0x01) | (this.ppu2OpenBus & 0xFE)
+                    : this.hCounterLatch & 0xFF;
+                this.hCounterHigh = !this.hCounterHigh;
+                break;
+            case 0x213D:
+                value = this.vCounterHigh
+                    ? ((this.vCounterLatch >> 8) & 0x01) | (this.ppu2OpenBus & 0xFE)
+                    : this.vCounterLatch & 0xFF;
+                this.vCounterHigh = !this.vCounterHigh;
+                break;
+
+            case 0x213E: // STAT77: time over, range over, bit 4 open bus, versão 1
+                value = (this.timeOver ? 0x80 : 0) | (this.rangeOver ? 0x40 : 0) | (this.ppu1OpenBus & 0x10) | 0x01;
+                break;
+
+            case 0x213F: // STAT78: campo, contadores travados, bit 5 open bus, NTSC, versão 2
+                value = ((this.frameCounter & 1) << 7) | (this.countersLatched ? 0x40 : 0) | (this.ppu2OpenBus & 0x20) | 0x02;
+                this.countersLatched = false;
+                this.hCounterHigh = false;
+                this.vCounterHigh = false;
+                break;
+
+            default:
+                return this.ppu1OpenBus;
+        }
+
+        const reg = address & 0xFFFF;
+        if (reg <= 0x213A || reg === 0x213E) {
+            this.ppu1OpenBus = value;
+        } else {
+            this.ppu2OpenBus = value;
         }
+        return value;
+    }
+
+    // Leituras de registradores só de escrita da PPU1 ($21x4-$21x6, $21x8-$21xA)
+    public getPPU1OpenBus(): number { return this.ppu1OpenBus; }
+
+    // Desligar o limite de 32 sprites/34 tiles por linha remove o flicker dos jogos
+    public setSpriteLimit(enabled: boolean): void { this.spriteLimit = enabled; }
+    public isSpriteLimitEnabled(): boolean { return this.spriteLimit; }
+
+    // SLHV ou borda de descida de WRIO bit 7
+    public latchCounters(h: number, v: number): void {
+        this.hCounterLatch = h & 0x1FF;
+        this.vCounterLatch = v & 0x1FF;
+        this.countersLatched = true;
+    }
+
+    // Endereços $200-$3FF espelham os 32 bytes da tabela alta
+    private oamIndex(): number {
+        return this.oamAddress < 0x200 ? this.oamAddress : 0x200 | (this.oamAddress & 0x1F);
+    }
+
+    private vramPrefetch(): void {
+        this.vramReadLatch = this.vram[this.vramAddress & 0x7FFF];
+        const steps = [1, 32, 128, 128];
+        this.vramAddress = (this.vramAddress + steps[this.vmain & 0x03]) & 0xFFFF;
+    }
+
+    private multiplyResult(): number {
+        const multiplier = (this.mode7Matrix[1] >> 8);
+        return (this.mode7Matrix[0] * multiplier) & 0xFFFFFF;
     }
 
     private vramWrite(byteSel: number, value: number): void {
@@ -238,174 +642,337 @@ export class PPU {
     // 🎨 RENDERIZAÇÃO PRINCIPAL
     // ==========================================
 
-    public renderScanline(): void {
-        if (this.scanline < this.screenHeight) {
-            // Limpa buffers de prioridade
-            const start = this.scanline * this.screenWidth;
-            this.layerBuffer.fill(0, start, start + this.screenWidth);
-            this.priorityBuffer.fill(0, start, start + this.screenWidth);
-
-            // Renderiza backdrop
-            this.clearScanlineToBackdrop(this.scanline);
+    // Chamado pelo scheduler no ponto H=0 de cada linha
+    public beginScanline(): void {
+        // Transições de VBlank acontecem no início da linha
+        if (this.scanline === 0) {
+            this.vblank = false;
+            this.interrupts?.leaveVBlank();
+            this.rangeOver = false;
+            this.timeOver = false;
+        } else if (this.scanline === this.screenHeight) {
+            this.vblank = true;
+            this.interrupts?.enterVBlank();
+            this.oamAddress = this.oamReload << 1;
+        }
+        this.renderedX = 0;
+    }
 
-            // Renderiza baseado no modo
-            this.renderMode(this.scanline);
+    /**
+     * Desenha os pixels da linha atual de onde parou até `toX` com os
+     * registradores atuais. O scheduler chama sem argumento ao fim da parte
+     * visível da linha.
+     */
+    public renderPixels(toX = this.screenWidth): void {
+        if (this.scanline >= this.screenHeight || toX <= this.renderedX) return;
 
-            // Renderiza sprites (OAM)
-            this.renderSprites(this.scanline);
+        this.composeLine(this.scanline, this.renderedX, toX);
 
-            // Aplica brightness
-            this.applyBrightness(this.scanline);
-        }
+        const row = this.scanline * this.screenWidth * 4;
+        this.screenBuffer.set(this.lineBuffer.subarray(this.renderedX * 4, toX * 4), row + this.renderedX * 4);
+        this.renderedX = toX;
+    }
 
+    // Chamado pelo scheduler no fim da linha
+    public endScanline(): void {
+        this.renderPixels();
         this.scanline++;
 
-        if (this.scanline === this.screenHeight) {
-            this.vblank = true;
-        }
-
         if (this.scanline >= 262) {
             this.scanline = 0;
-            this.vblank = false;
             this.frameCounter++;
         }
     }
 
-    private clearScanlineToBackdrop(y: number): void {
-        const color = this.getColor(0);
-        const start = y * this.screenWidth * 4;
-        for (let x = 0; x < this.screenWidth; x++) {
-            const i = start + x * 4;
-            this.screenBuffer[i] = color.r;
-            this.screenBuffer[i + 1] = color.g;
-            this.screenBuffer[i + 2] = color.b;
-            this.screenBuffer[i + 3] = 255;
+    // Antes de uma escrita: desenha o que o feixe já passou com os valores antigos
+    private catchUp(): void {
+        if (!this.interrupts || this.scanline >= this.screenHeight) return;
+        const x = this.interrupts.getBeamH() - this.firstPixelDot;
+        this.renderPixels(Math.max(0, Math.min(this.screenWidth, x)));
+    }
+
+    // Compõe os pixels [fromX, toX) da linha y
+    private composeLine(y: number, fromX: number, toX: number): void {
+        this.computeWindows(fromX, toX);
+
+        // Sub screen só entra com BGs/OBJ quando CGWSEL bit 1 a usa na color math
+        const subLayers = (this.cgwsel & 0x02) ? this.subScreenDesignation : 0;
+        const layers = this.mainScreenDesignation | subLayers;
+
+        this.renderBackgrounds(y, layers, fromX, toX);
+        // A avaliação de sprites roda mesmo com OBJ desligado, por causa das flags de STAT77
+        this.renderSprites(y, fromX, toX);
+
+        // Main screen sobre a cor 0 da CGRAM, sub screen sobre a cor fixa
+        this.composeScreen(this.mainScreen, this.mainScreenDesignation, this.mainWindowDesignation, this.readCGRAM(0), fromX, toX);
+        this.composeScreen(this.subScreen, subLayers, this.subWindowDesignation, this.fixedColor, fromX, toX);
+
+        this.applyColorMath(fromX, toX);
+    }
+
+    /**
+     * Escolhe para cada pixel a primeira camada opaca na tabela de prioridade
+     * do modo que esteja ligada nessa tela e não escondida pela janela da
+     * camada (TMW/TSW).
+     */
+    private composeScreen(screen: ScreenLine, layers: number, windows: number, backdrop: number, fromX: number, toX: number): void {
+        const table = this.priorityTable();
+
+        for (let x = fromX; x < toX; x++) {
+            let color = backdrop;
+            let layer: number = Layer.BACKDROP;
+
+            for (const entry of table) {
+                const candidate = entry >> 2;
+                if (!((layers >> candidate) & 1)) continue;
+
+                const line = candidate === Layer.OBJ ? this.objLine : this.bgLines[candidate];
+                if (line.color[x] === 0 || line.priority[x] !== (entry & 0x03)) continue;
+                if ((windows >> candidate) & 1 && this.windowLines[candidate][x]) continue;
+
+                color = this.readCGRAM(line.color[x]);
+                layer = candidate;
+                break;
+            }
+
+            screen.color[x] = color;
+            screen.layer[x] = layer;
+            // OBJ de paletas 0-3 (cores 128-191) nunca entram na color math
+            const objWithoutMath = layer === Layer.OBJ && this.objLine.color[x] < 192;
+            screen.math[x] = objWithoutMath ? 0 : (this.cgadsub >> layer) & 1;
         }
     }
 
-    private renderMode(y: number): void {
+    private priorityTable(): number[] {
         switch (this.bgMode) {
-            case 0: this.renderMode0(y); break;
-            case 1: this.renderMode1(y); break;
-            case 2: this.renderMode2(y); break;
-            case 3: this.renderMode3(y); break;
-            case 4: this.renderMode4(y); break;
-            case 5: this.renderMode5(y); break;
-            case 6: this.renderMode6(y); break;
-            case 7: this.renderMode7(y); break;
+            case 0: return PRIORITY_MODE0;
+            case 1: return this.bg3Priority ? PRIORITY_MODE1_BG3 : PRIORITY_MODE1;
+            case 6: return PRIORITY_MODE6;
+            case 7: return this.extbg ? PRIORITY_MODE7_EXTBG : PRIORITY_MODE7;
+            default: return PRIORITY_MODE2;
         }
     }
 
-    // Mode 0: 4 layers, 2bpp each
-    private renderMode0(y: number): void {
-        for (let layer = 3; layer >= 0; layer--) {
-            if (this.mainScreenDesignation & (1 << layer)) {
-                this.renderLayer(layer, y, 2, 0);
+    /**
+     * Calcula onde cada janela de camada (e a janela de cor) cobre a linha.
+     * Cada camada habilita e inverte as janelas 1 e 2 e, usando as duas,
+     * combina com OR/AND/XOR/XNOR.
+     */
+    private computeWindows(fromX: number, toX: number): void {
+        const [left1, right1, left2, right2] = this.windowPositions;
+
+        for (let layer = 0; layer <= COLOR_WINDOW; layer++) {
+            const settings = (this.windowSettings[layer >> 1] >> ((layer & 1) * 4)) & 0x0F;
+            const logic = (this.windowLogic >> (layer * 2)) & 0x03;
+            const line = this.windowLines[layer];
+
+            const enable1 = (settings & 0x02) !== 0;
+            const enable2 = (settings & 0x08) !== 0;
+            if (!enable1 && !enable2) {
+                line.fill(0, fromX, toX);
+                continue;
+            }
+
+            for (let x = fromX; x < toX; x++) {
+                const in1 = (x >= left1 && x <= right1) !== ((settings & 0x01) !== 0);
+                const in2 = (x >= left2 && x <= right2) !== ((settings & 0x04) !== 0);
+
+                let inside: boolean;
+                if (!enable2) {
+                    inside = in1;
+                } else if (!enable1) {
+                    inside = in2;
+                } else {
+                    switch (logic) {
+                        case 0: inside = in1 || in2; break;
+                        case 1: inside = in1 && in2; break;
+                        case 2: inside = in1 !== in2; break;
+                        default: inside = in1 === in2; break;
+                    }
+                }
+                line[x] = inside ? 1 : 0;
             }
         }
     }
 
-    // Mode 1: BG1/BG2 4bpp, BG3 2bpp
-    private renderMode1(y: number): void {
-        // BG3 (2bpp) - lowest priority
-        if (this.mainScreenDesignation & 0x04) {
-            this.renderLayer(2, y, 2, 0);
-        }
-        // BG2 (4bpp)
-        if (this.mainScreenDesignation & 0x02) {
-            this.renderLayer(1, y, 4, 1);
-        }
-        // BG1 (4bpp) - highest priority
-        if (this.mainScreenDesignation & 0x01) {
-            this.renderLayer(0, y, 4, 2);
+    /**
+     * Combina main e sub screen e aplica o brilho, gerando a linha RGBA.
+     * CGWSEL decide onde a janela de cor força a main screen a preto (bits
+     * 7-6) e onde impede a color math (bits 5-4); CGADSUB escolhe soma ou
+     * subtração, metade e as camadas afetadas.
+     */
+    private applyColorMath(fromX: number, toX: number): void {
+        const subtract = (this.cgadsub & 0x80) !== 0;
+        const half = (this.cgadsub & 0x40) !== 0;
+        const useSubScreen = (this.cgwsel & 0x02) !== 0;
+        const colorWindow = this.windowLines[COLOR_WINDOW];
+        const brightnessScale = this.brightness / 15.0;
+
+        for (let x = fromX; x < toX; x++) {
+            const inside = colorWindow[x] !== 0;
+            const black = this.inWindowRegion(this.cgwsel >> 6, inside);
+            let color = black ? 0 : this.mainScreen.color[x];
+
+            if (this.mainScreen.math[x] && !this.inWindowRegion((this.cgwsel >> 4) & 0x03, inside)) {
+                // Sem pixel na sub screen (backdrop = cor fixa) a metade não se aplica
+                const subTransparent = useSubScreen && this.subScreen.layer[x] === Layer.BACKDROP;
+                const operand = useSubScreen ? this.subScreen.color[x] : this.fixedColor;
+                color = this.blendColors(color, operand, subtract, half && !black && !subTransparent);
+            }
+
+            const i = x * 4;
+            this.lineBuffer[i] = Math.floor(((color & 0x1F) << 3) * brightnessScale);
+            this.lineBuffer[i + 1] = Math.floor((((color >> 5) & 0x1F) << 3) * brightnessScale);
+            this.lineBuffer[i + 2] = Math.floor((((color >> 10) & 0x1F) << 3) * brightnessScale);
+            this.lineBuffer[i + 3] = 255;
         }
     }
 
-    // Mode 2: BG1/BG2 4bpp (offset-per-tile)
-    private renderMode2(y: number): void {
-        if (this.mainScreenDesignation & 0x02) {
-            this.renderLayer(1, y, 4, 0);
-        }
-        if (this.mainScreenDesignation & 0x01) {
-            this.renderLayer(0, y, 4, 1);
+    // Regiões de CGWSEL: 0 nunca, 1 fora da janela de cor, 2 dentro, 3 sempre
+    private inWindowRegion(region: number, inside: boolean): boolean {
+        switch (region & 0x03) {
+            case 0: return false;
+            case 1: return !inside;
+            case 2: return inside;
+            default: return true;
         }
     }
 
-    // Mode 3: BG1 8bpp, BG2 4bpp
-    private renderMode3(y: number): void {
-        if (this.mainScreenDesignation & 0x02) {
-            this.renderLayer(1, y, 4, 0);
-        }
-        if (this.mainScreenDesignation & 0x01) {
-            this.renderLayer(0, y, 8, 1);
+    private blendColors(a: number, b: number, subtract: boolean, half: boolean): number {
+        let result = 0;
+        for (let shift = 0; shift <= 10; shift += 5) {
+            const ca = (a >> shift) & 0x1F;
+            const cb = (b >> shift) & 0x1F;
+            let c = subtract ? Math.max(0, ca - cb) : ca + cb;
+            if (half) c >>= 1;
+            result |= Math.min(0x1F, c) << shift;
         }
+        return result;
     }
 
-    // Mode 4: BG1 8bpp (offset-per-tile), BG2 2bpp
-    private renderMode4(y: number): void {
-        if (this.mainScreenDesignation & 0x02) {
-            this.renderLayer(1, y, 2, 0);
-        }
-        if (this.mainScreenDesignation & 0x01) {
-            this.renderLayer(0, y, 8, 1);
+    // Desenha os BGs do modo usados por alguma das telas
+    private renderBackgrounds(y: number, layers: number, fromX: number, toX: number): void {
+        for (const line of this.bgLines) {
+            line.color.fill(0, fromX, toX);
         }
-    }
 
-    // Mode 5: BG1 4bpp, BG2 2bpp (high-res)
-    private renderMode5(y: number): void {
-        if (this.mainScreenDesignation & 0x02) {
-            this.renderLayer(1, y, 2, 0);
+        // Mode 7: BG1 com rotação/escala; com EXTBG, BG2 usa os mesmos pixels com bit 7 de prioridade
+        if (this.bgMode === 7) {
+            if (layers & 0x01) this.renderMode7Layer(0, y, fromX, toX);
+            if (this.extbg && (layers & 0x02)) this.renderMode7Layer(1, y, fromX, toX);
+            return;
         }
-        if (this.mainScreenDesignation & 0x01) {
-            this.renderLayer(0, y, 4, 1);
+
+        const bpp = MODE_BPP[this.bgMode];
+        for (let bgIndex = 0; bgIndex < bpp.length; bgIndex++) {
+            if (layers & (1 << bgIndex)) {
+                this.renderLayer(bgIndex, y, bpp[bgIndex], fromX, toX);
+            }
         }
     }
 
-    // Mode 6: BG1 4bpp (high-res, offset-per-tile)
-    private renderMode6(y: number): void {
-        if (this.mainScreenDesignation & 0x01) {
-            this.renderLayer(0, y, 4, 0);
+    /**
+     * Transformação afim do Mode 7. A VRAM é intercalada: o byte baixo de cada
+     * palavra é o tilemap 128x128, o alto os pixels 8bpp dos 256 tiles. A
+     * origem da linha segue o arredondamento do hardware (produtos truncados
+     * em múltiplos de 64) e cada pixel soma A e C.
+     */
+    private renderMode7Layer(bgIndex: number, y: number, fromX: number, toX: number): void {
+        const a = this.mode7Matrix[0];
+        const b = this.mode7Matrix[1];
+        const c = this.mode7Matrix[2];
+        const d = this.mode7Matrix[3];
+        const centerX = this.signExtend13(this.mode7CenterX);
+        const centerY = this.signExtend13(this.mode7CenterY);
+        const scrollX = this.clipMode7(this.signExtend13(this.mode7HScroll) - centerX);
+        const scrollY = this.clipMode7(this.signExtend13(this.mode7VScroll) - centerY);
+
+        const screenY = (this.m7sel & 0x02) ? 255 - y : y;
+        const flipX = (this.m7sel & 0x01) !== 0;
+        const outside = this.m7sel >> 6;
+        const line = this.bgLines[bgIndex];
+
+        const originX = ((a * scrollX) & ~63) + ((b * scrollY) & ~63) + ((b * screenY) & ~63) + (centerX << 8);
+        const originY = ((c * scrollX) & ~63) + ((d * scrollY) & ~63) + ((d * screenY) & ~63) + (centerY << 8);
+
+        for (let x = fromX; x < toX; x++) {
+            const screenX = flipX ? 255 - x : x;
+            const pixelX = (originX + a * screenX) >> 8;
+            const pixelY = (originY + c * screenX) >> 8;
+
+            let tile: number;
+            if ((pixelX | pixelY) & ~0x3FF) {
+                // Fora do plano de 1024x1024: repete (0/1), transparente (2) ou tile 0 (3)
+                if (outside === 2) continue;
+                tile = outside === 3 ? 0 : this.vram[((pixelY >> 3) & 127) * 128 + ((pixelX >> 3) & 127)] & 0xFF;
+            } else {
+                tile = this.vram[(pixelY >> 3) * 128 + (pixelX >> 3)] & 0xFF;
+            }
+
+            const colorIndex = this.vram[tile * 64 + (pixelY & 7) * 8 + (pixelX & 7)] >> 8;
+
+            if (bgIndex === 0) {
+                line.color[x] = colorIndex;
+                line.priority[x] = 0;
+            } else {
+                // EXTBG: 7 bits de cor, bit 7 põe o BG2 na frente ou atrás do BG1
+                line.color[x] = colorIndex & 0x7F;
+                line.priority[x] = colorIndex >> 7;
+            }
         }
     }
 
-    // Mode 7: Single layer, rotation/scaling
-    private renderMode7(y: number): void {
-        // Mode 7 implementation (complex)
-        // Simplified version
-        if (this.mainScreenDesignation & 0x01) {
-            this.renderLayer(0, y, 8, 0);
-        }
+    private signExtend13(value: number): number {
+        return (value << 19) >> 19;
+    }
+
+    // Deslocamentos do Mode 7 ficam em 10 bits com sinal
+    private clipMode7(value: number): number {
+        return (value & 0x2000) ? (value | ~0x3FF) : (value & 0x3FF);
     }
 
-    private renderLayer(bgIndex: number, y: number, bpp: number, priority: number): void {
+    private renderLayer(bgIndex: number, y: number, bpp: number, fromX: number, toX: number): void {
         const scrollX = this.bgHScroll[bgIndex];
         const scrollY = this.bgVScroll[bgIndex];
         const mapBase = this.bgTilemapAddr[bgIndex];
         const charBase = this.bgCharAddr[bgIndex];
-        const tileSize = this.bgTileSize[bgIndex];
+        const line = this.bgLines[bgIndex];
+
+        // Tiles de 16x16 são 2x2 caracteres: tile, tile+1, tile+16, tile+17
+        const tileShift = this.bgTileSize[bgIndex] === 16 ? 4 : 3;
+        const tileMask = (1 << tileShift) - 1;
+
+        // Tilemaps de 64 tiles de largura ou altura juntam telas de 32x32 (0x400 palavras)
+        const size = this.bgTilemapSize[bgIndex];
+        const wide = (size & 0x01) !== 0;
+        const tall = (size & 0x02) !== 0;
 
         const vY = (y + scrollY) & 0x3FF;
+        const tileY = (vY >> tileShift) & (tall ? 63 : 31);
+        const screenY = tileY >= 32 ? (wide ? 0x800 : 0x400) : 0;
 
-        for (let x = 0; x < this.screenWidth; x++) {
+        for (let x = fromX; x < toX; x++) {
             const vX = (x + scrollX) & 0x3FF;
+            const tileX = (vX >> tileShift) & (wide ? 63 : 31);
+            const screenX = tileX >= 32 ? 0x400 : 0;
 
-            const tileX = (vX >> 3) & 31;
-            const tileY = (vY >> 3) & 31;
-
-            const mapAddr = mapBase + (tileY * 32) + tileX;
+            const mapAddr = mapBase + screenY + screenX + ((tileY & 31) * 32) + (tileX & 31);
             const tileEntry = this.vram[mapAddr & 0x7FFF];
 
-            const tileNum = tileEntry & 0x03FF;
             const palette = (tileEntry >> 10) & 7;
             const tilePriority = (tileEntry >> 13) & 1;
             const flipX = (tileEntry >> 14) & 1;
             const flipY = (tileEntry >> 15) & 1;
 
-            let row = vY & 7;
-            let col = vX & 7;
+            let row = vY & tileMask;
+            let col = vX & tileMask;
 
-            if (flipY) row = 7 - row;
-            if (flipX) col = 7 - col;
+            if (flipY) row = tileMask - row;
+            if (flipX) col = tileMask - col;
+
+            const tileNum = ((tileEntry & 0x03FF) + ((row >> 3) << 4) + (col >> 3)) & 0x03FF;
+            row &= 7;
+            col &= 7;
 
             let colorIndex = 0;
 
@@ -418,22 +985,8 @@ export class PPU {
             }
 
             if (colorIndex !== 0) {
-                const bufferIndex = y * this.screenWidth + x;
-                const currentPriority = this.priorityBuffer[bufferIndex];
-
-                if (priority >= currentPriority) {
-                    const finalColorIndex = (palette * (1 << bpp)) + colorIndex;
-                    const color = this.getColor(finalColorIndex);
-
-                    const pixelIndex = (y * this.screenWidth + x) * 4;
-                    this.screenBuffer[pixelIndex] = color.r;
-                    this.screenBuffer[pixelIndex + 1] = color.g;
-                    this.screenBuffer[pixelIndex + 2] = color.b;
-                    this.screenBuffer[pixelIndex + 3] = 255;
-
-                    this.priorityBuffer[bufferIndex] = priority;
-                    this.layerBuffer[bufferIndex] = bgIndex;
-                }
+                line.color[x] = (palette * (1 << bpp)) + colorIndex;
+                line.priority[x] = tilePriority;
             }
         }
     }
@@ -483,80 +1036,116 @@ export class PPU {
         return p0 | (p1 << 1) | (p2 << 2) | (p3 << 3) | (p4 << 4) | (p5 << 5) | (p6 << 6) | (p7 << 7);
     }
 
-    private renderSprites(y: number): void {
-        // Renderiza sprites da OAM
-        // 128 sprites, cada um com 4 bytes na OAM principal + 2 bits na OAM alta
+    /**
+     * Sprites da linha como no hardware: a avaliação de range percorre a OAM
+     * (a partir do sprite da rotação de prioridade) guardando até 32 sprites
+     * da linha, e a de time busca os tiles de 8 pixels deles, do último para
+     * o primeiro, até 34. Sprites de índice menor ficam na frente, por isso
+     * são desenhados por último.
+     */
+    private renderSprites(y: number, fromX: number, toX: number): void {
+        this.objLine.color.fill(0, fromX, toX);
+
+        const sizes = OBJ_SIZES[this.obsel >> 5];
+        const base = (this.obsel & 0x07) << 13;
+        const secondTable = (((this.obsel >> 3) & 0x03) + 1) << 12;
+        const first = this.oamPriorityRotation ? (this.oamAddress >> 2) & 0x7F : 0;
+
+        let count = 0;
+        for (let i = 0; i < 128; i++) {
+            const sprite = (first + i) & 0x7F;
+            const high = (this.oam[0x200 + (sprite >> 2)] >> ((sprite & 3) * 2)) & 0x03;
+            const width = sizes[(high & 0x02) ? 2 : 0];
+            const height = sizes[(high & 0x02) ? 3 : 1];
+            const x = this.spriteX(sprite, high);
+
+            // Y dá a volta em 256; X = -256 conta como na tela
+            const row = (y - this.oam[sprite * 4 + 1]) & 0xFF;
+            if (row >= height || (x <= -width && x !== -256)) continue;
+
+            if (count === OBJ_RANGE_LIMIT) {
+                this.rangeOver = true;
+                if (this.spriteLimit) break;
+            }
+            this.objInRange[count++] = sprite;
+        }
 
-        for (let sprite = 127; sprite >= 0; sprite--) {
+        let tiles = 0;
+        for (let i = count - 1; i >= 0; i--) {
+            const sprite = this.objInRange[i];
             const oamIndex = sprite * 4;
-
-            const spriteX = this.oam[oamIndex];
-            const spriteY = this.oam[oamIndex + 1];
+            const high = (this.oam[0x200 + (sprite >> 2)] >> ((sprite & 3) * 2)) & 0x03;
+            const width = sizes[(high & 0x02) ? 2 : 0];
+            const height = sizes[(high & 0x02) ? 3 : 1];
+            const x = this.spriteX(sprite, high);
             const tile = this.oam[oamIndex + 2];
             const attr = this.oam[oamIndex + 3];
 
             // Atributos
-            const palette = ((attr >> 1) & 0x07) + 8; // Paletas 8-15 para sprites
+            const palette = 128 + ((attr >> 1) & 0x07) * 16; // Paletas 8-15 da CGRAM
             const priority = (attr >> 4) & 0x03;
             const flipX = (attr & 0x40) !== 0;
             const flipY = (attr & 0x80) !== 0;
+            const table = base + ((attr & 0x01) ? secondTable : 0);
 
-            // Tamanho do sprite (simplificado: 8x8)
-            const spriteHeight = 8;
+            let row = (y - this.oam[oamIndex + 1]) & 0xFF;
+            if (flipY) row = height - 1 - row;
 
-            if (y >= spriteY && y < spriteY + spriteHeight) {
-                const row = y - spriteY;
+            for (let column = 0; column < width; column += 8) {
+                const tileX = x + (flipX ? width - 8 - column : column);
+                if (tileX <= -8 || tileX >= this.screenWidth) continue;
 
-                for (let col = 0; col < 8; col++) {
-                    const x = spriteX + col;
-                    if (x >= this.screenWidth) continue;
+                if (tiles === OBJ_TIME_LIMIT) {
+                    this.timeOver = true;
+                    if (this.spriteLimit) return;
+                }
+                tiles++;
 
-                    const colorIndex = this.getTilePixel4bpp(0x6000, tile, row, col); // Sprites usam área específica da VRAM
+                // Fora do trecho em composição o tile só conta para o limite
+                if (tileX + 8 <= fromX || tileX >= toX) continue;
 
-                    if (colorIndex !== 0) {
-                        const bufferIndex = y * this.screenWidth + x;
-                        const currentPriority = this.priorityBuffer[bufferIndex];
+                // Tiles do sprite formam uma grade de 16 por linha na tabela de caracteres
+                const name = ((tile + ((row >> 3) << 4)) & 0xF0) | ((tile + (column >> 3)) & 0x0F);
+                const charAddr = (table + name * 16) & 0x7FFF;
 
-                        if (priority >= currentPriority) {
-                            const finalColorIndex = (palette * 16) + colorIndex;
-                            const color = this.getColor(finalColorIndex);
-
-                            const pixelIndex = (y * this.screenWidth + x) * 4;
-                            this.screenBuffer[pixelIndex] = color.r;
-                            this.screenBuffer[pixelIndex + 1] = color.g;
-                            this.screenBuffer[pixelIndex + 2] = color.b;
-                            this.screenBuffer[pixelIndex + 3] = 255;
+                for (let col = 0; col < 8; col++) {
+                    const screenX = tileX + (flipX ? 7 - col : col);
+                    if (screenX < fromX || screenX >= toX) continue;
 
-                            this.priorityBuffer[bufferIndex] = priority + 10; // Sprites têm alta prioridade
-                        }
+                    const colorIndex = this.getTilePixel4bpp(charAddr, 0, row & 7, col);
+                    if (colorIndex !== 0) {
+                        this.objLine.color[screenX] = palette + colorIndex;
+                        this.objLine.priority[screenX] = priority;
                     }
                 }
             }
         }
     }
 
-    private applyBrightness(y: number): void {
-        const brightnessScale = this.brightness / 15.0;
-        const start = y * this.screenWidth * 4;
-
-        for (let x = 0; x < this.screenWidth; x++) {
-            const i = start + x * 4;
-            this.screenBuffer[i] = Math.floor(this.screenBuffer[i] * brightnessScale);
-            this.screenBuffer[i + 1] = Math.floor(this.screenBuffer[i + 1] * brightnessScale);
-            this.screenBuffer[i + 2] = Math.floor(this.screenBuffer[i + 2] * brightnessScale);
-        }
+    // X de 9 bits com sinal: byte baixo na OAM, bit 8 na tabela alta
+    private spriteX(sprite: number, high: number): number {
+        const x = this.oam[sprite * 4] | ((high & 0x01) << 8);
+        return x >= 256 ? x - 512 : x;
     }
 
-    private getColor(index: number): { r: number, g: number, b: number } {
+    // Cor BGR555 de uma entrada da CGRAM
+    private readCGRAM(index: number): number {
         const addr = (index * 2) & 0x1FF;
-        const low = this.cgram[addr];
-        const high = this.cgram[addr + 1];
-        const word = low | (high << 8);
+        return (this.cgram[addr] | (this.cgram[addr + 1] << 8)) & 0x7FFF;
+    }
 
-        const r = (word & 0x1F) << 3;
-        const g = ((word >> 5) & 0x1F) << 3;
-        const b = ((word >> 10) & 0x1F) << 3;
+    private createScreenLine(): ScreenLine {
+        return {
+            color: new Uint16Array(this.screenWidth),
+            layer: new Uint8Array(this.screenWidth),
+            math: new Uint8Array(this.screenWidth)
+        };
+    }
 
-        return { r, g, b };
+    private createLayerLine(): LayerLine {
+        return {
+            color: new Uint8Array(this.screenWidth),
+            priority: new Uint8Array(this.screenWidth)
+        };
     }
 }
\ No newline at end of file
@@ -0,0 +1,234 @@
+// SNES system tests: save states, the headless core and the scanline scheduler
+
+import { describe, expect, it, vi } from 'vitest';
+import { APU_SAMPLE_RATE } from './APU';
+import { SNESButton } from './Input';
+import { SNES } from './SNES';
+import { SAVE_STATE_VERSION, SaveStateError } from './SaveState';
+
+// 32KB LoROM whose reset vector points at `program` in $00:8000
+function buildROM(program: number[], fill = 0xEA): Uint8Array {
+    const rom = new Uint8Array(0x8000).fill(fill);
+    rom.set(program, 0);
+    rom[0x7FFC] = 0x00;
+    rom[0x7FFD] = 0x80;
+    return rom;
+}
+
+// Strobes $4016, shifts controller 1's 16 bits into $00-$01 and stops
+const READ_JOYPAD = [
+    0xA9, 0x01, 0x8D, 0x16, 0x40, 0x9C, 0x16, 0x40, 0xA2, 0x10,
+    0xAD, 0x16, 0x40, 0x4A, 0x26, 0x00, 0x26, 0x01, 0xCA, 0xD0, 0xF5,
+    0xDB
+];
+
+// Sets an H-IRQ at HTIME=100 on every line with IRQs masked, then waits for
+// it with WAI, acknowledging through TIMEUP ($4211)
+const WAIT_FOR_HIRQ = [
+    0x78, 0xA9, 0x64, 0x8D, 0x07, 0x42, 0x9C, 0x08, 0x42, 0xA9, 0x10, 0x8D, 0x00, 0x42,
+    0xCB, 0xAD, 0x11, 0x42, 0x80, 0xFA
+];
+
+// Same H-IRQ, polled by a busy loop that keeps acknowledging it
+const POLL_HIRQ = [
+    0x78, 0xA9, 0x64, 0x8D, 0x07, 0x42, 0x9C, 0x08, 0x42, 0xA9, 0x10, 0x8D, 0x00, 0x42,
+    0xAD, 0x11, 0x42, 0x80, 0xFB
+];
+
+// DMA of $1000 bytes from $00:8000 to VMDATAL, about 24 lines long, then STP
+const LONG_DMA = [
+    0xA9, 0x00, 0x8D, 0x00, 0x43, 0xA9, 0x18, 0x8D, 0x01, 0x43, 0x9C, 0x02, 0x43,
+    0xA9, 0x80, 0x8D, 0x03, 0x43, 0x9C, 0x04, 0x43, 0x9C, 0x05, 0x43, 0xA9, 0x10,
+    0x8D, 0x06, 0x43, 0xA9, 0x01, 0x8D, 0x0B, 0x42, 0xDB
+];
+
+const MASTER_CLOCK_HZ = 21477272;
+const MASTER_CYCLES_PER_SCANLINE = 1364;
+const HTIME = 100;
+
+// The scheduler's line events, numbered as in SNES.ts
+const HDMA_INIT = 0;
+const DRAM_REFRESH = 1;
+const RENDER = 2;
+const HDMA_RUN = 3;
+
+function createSNES(rom = buildROM([0x80, 0xFE])): SNES {
+    const snes = new SNES();
+    snes.loadROM(rom);
+    return snes;
+}
+
+// Records [line, master cycle, event] for each line event the scheduler runs
+function recordLineEvents(snes: SNES): [number, number, number][] {
+    const scheduler = snes as unknown as { runEvent(line: number, cyclesRun: number, type: number): number };
+    return vi.spyOn(scheduler, 'runEvent').mock.calls;
+}
+
+// Records [line, dot before, dot after] of the beam step that raised the timer IRQ
+function recordIRQs(snes: SNES): [number, number, number][] {
+    const cpu = snes.getCPU();
+    const interrupts = snes.getInterruptController();
+    const raised: [number, number, number][] = [];
+    let step: [number, number, number] = [0, 0, 0];
+
+    const advanceBeam = interrupts.advanceBeam.bind(interrupts);
+    vi.spyOn(interrupts, 'advanceBeam').mockImplementation((v, hFrom, hTo) => {
+        step = [v, hFrom, hTo];
+        advanceBeam(v, hFrom, hTo);
+    });
+    const setIRQ = cpu.setIRQ.bind(cpu);
+    vi.spyOn(cpu, 'setIRQ').mockImplementation((active) => {
+        if (active) raised.push(step);
+        setIRQ(active);
+    });
+    return raised;
+}
+
+describe('SNES save states', () => {
+    it('round-trips the whole system', () => {
+        const snes = createSNES();
+        snes.getMemory().write(0x7E0100, 0x42);
+        const state = snes.saveState();
+
+        snes.getMemory().write(0x7E0100, 0x99);
+        snes.loadState(state);
+
+        expect(snes.getMemory().read(0x7E0100)).toBe(0x42);
+        expect(snes.saveState()).toEqual(state);
+    });
+
+    // [description, corrupts a valid state, expected error message]
+    const rejected: [string, (state: Uint8Array) => Uint8Array, RegExp][] = [
+        ['a state from another ROM', () => createSNES(buildROM([0x80, 0xFE], 0x00)).saveState(), /different ROM/],
+        ['a state from another format version', (state) => {
+            const copy = state.slice();
+            new DataView(copy.buffer).setUint16(4, SAVE_STATE_VERSION + 1, true);
+            return copy;
+        }, /version/],
+        ['a state without the header', () => new Uint8Array(4), /Not a save state/],
+        ['a truncated state', (state) => state.slice(0, state.length - 16), /truncated/],
+        ['a state with a damaged section tag', (state) => {
+            const copy = state.slice();
+            const tag = [...copy.keys()].find((i) => String.fromCharCode(...copy.subarray(i, i + 4)) === 'MATH');
+            copy[tag!] = 0;
+            return copy;
+        }, /expected section MATH/]
+    ];
+
+    for (const [description, corrupt, message] of rejected) {
+        it(`rejects ${description} and keeps the current state`, () => {
+            const snes = createSNES();
+            snes.getMemory().write(0x7E0100, 0x42);
+            const state = corrupt(snes.saveState());
+
+            snes.getMemory().write(0x7E0100, 0x99);
+            const before = snes.saveState();
+
+            expect(() => snes.loadState(state)).toThrow(SaveStateError);
+            expect(() => snes.loadState(state)).toThrow(message);
+            expect(snes.getMemory().read(0x7E0100)).toBe(0x99);
+            expect(snes.saveState()).toEqual(before);
+        });
+    }
+});
+
+describe('SNES headless core', () => {
+    it('runs frames and returns the picture and the audio they produced', () => {
+        const snes = createSNES();
+        const output = snes.runFrames(3);
+
+        expect(snes.getFrameCount()).toBe(3);
+        expect(output.framebuffer.length).toBe(256 * 224 * 4);
+
+        // Interleaved stereo at 32kHz for the master cycles that ran
+        const expected = snes.getMasterClock() * APU_SAMPLE_RATE / MASTER_CLOCK_HZ;
+        expect(output.audio.length % 2).toBe(0);
+        expect(Math.abs(output.audio.length / 2 - expected)).toBeLessThanOrEqual(2);
+        expect(snes.takeAudioSamples().length).toBe(0);
+    });
+
+    it('caps the audio kept when nobody collects it', () => {
+        const snes = createSNES();
+        for (let i = 0; i < 130; i++) snes.runFrame();
+
+        const audio = snes.takeAudioSamples();
+        expect(snes.getFrameCount()).toBe(130);
+        expect(audio.length).toBeGreaterThan(0);
+        expect(audio.length).toBeLessThanOrEqual(65536);
+    });
+
+    // [buttons pressed on controller 1, value the ROM reads from $4016]
+    const inputs: [number, number][] = [
+        [0, 0x0000],
+        [SNESButton.B | SNESButton.A, 0x8080],
+        [SNESButton.START | SNESButton.LEFT | SNESButton.R, 0x1210]
+    ];
+
+    for (const [buttons, expected] of inputs) {
+        it(`feeds injected buttons $${expected.toString(16)} to the game`, () => {
+            const snes = createSNES(buildROM(READ_JOYPAD));
+            snes.getInput().setButtons(1, buttons);
+            snes.runFrames(1);
+
+            const memory = snes.getMemory();
+            expect(memory.read(0x7E0000) | (memory.read(0x7E0001) << 8)).toBe(expected);
+        });
+    }
+});
+
+describe('SNES scheduler', () => {
+    it('runs the line events in order at their cycles', () => {
+        const snes = createSNES(buildROM([0xDB]));
+        const events = recordLineEvents(snes);
+        snes.runFrame();
+
+        // STP idles exactly up to each event, so none of them runs late
+        const lines = (line: number) => events.filter(([v]) => v === line);
+        expect(lines(0)).toEqual([[0, 0, HDMA_INIT], [0, 536, DRAM_REFRESH], [0, 1104, RENDER], [0, 1104, HDMA_RUN]]);
+        expect(lines(1)).toEqual([[1, 536, DRAM_REFRESH], [1, 1104, RENDER], [1, 1104, HDMA_RUN]]);
+        expect(lines(223)).toEqual([[223, 536, DRAM_REFRESH], [223, 1104, RENDER], [223, 1104, HDMA_RUN]]);
+        expect(lines(224)).toEqual([[224, 536, DRAM_REFRESH]]);
+        expect(lines(261)).toEqual([[261, 536, DRAM_REFRESH]]);
+    });
+
+    it('raises the H-IRQ as the beam crosses HTIME', () => {
+        const snes = createSNES(buildROM(POLL_HIRQ));
+        const raised = recordIRQs(snes);
+        snes.runFrame();
+
+        expect(raised.map(([v]) => v)).toEqual(Array.from({ length: 262 }, (_, v) => v));
+        for (const [, hFrom, hTo] of raised) {
+            expect(hFrom).toBeLessThanOrEqual(HTIME);
+            expect(hTo).toBeGreaterThan(HTIME);
+            expect(hTo - hFrom).toBeLessThanOrEqual(8);
+        }
+    });
+
+    it('wakes WAI on the dot after HTIME', () => {
+        const snes = createSNES(buildROM(WAIT_FOR_HIRQ));
+        const raised = recordIRQs(snes);
+        snes.runFrame();
+
+        // The sleeping CPU idles straight to the IRQ instead of to the next line event
+        expect(raised.map(([v, , hTo]) => [v, hTo])).toEqual(Array.from({ length: 262 }, (_, v) => [v, HTIME + 1]));
+    });
+
+    it('carries a DMA that runs past the end of the line into the next lines', () => {
+        const snes = createSNES(buildROM(LONG_DMA));
+        const events = recordLineEvents(snes);
+        snes.runFrame();
+
+        // Events of the lines the DMA covers run as soon as it ends; every line
+        // still takes its 40 cycles of DRAM refresh
+        const refreshes = events.filter(([, , type]) => type === DRAM_REFRESH);
+        expect(refreshes[0][1]).toBeGreaterThan(0x1000 * 8);
+        for (let line = 1; line < 30; line++) {
+            const carried = refreshes[line - 1][1] + 40 - MASTER_CYCLES_PER_SCANLINE;
+            expect(refreshes[line]).toEqual([line, Math.max(536, carried), DRAM_REFRESH]);
+        }
+        expect(refreshes[29][1]).toBe(536);
+
+        // No cycle is lost or counted twice across the lines
+        expect(snes.getCPU().getMasterCycles()).toBe(262 * MASTER_CYCLES_PER_SCANLINE);
+    });
+});
@@ -3,6 +3,28 @@ import { Memory } from './Memory';
 import { PPU } from './PPU';
 import { APU } from './APU';
 import { Input } from './Input';
+import { InterruptController } from './InterruptController';
+import { MathUnit } from './MathUnit';
+import { StateReader, StateWriter } from './SaveState';
+
+export interface FrameOutput {
+    framebuffer: Uint8ClampedArray; // RGBA 256x224, reutilizado entre frames
+    audio: Int16Array;              // Estéreo intercalado a 32kHz
+}
+
+// Pontos fixos de cada scanline tratados pelo scheduler
+const LineEventType = {
+    HDMA_INIT: 0,     // Só na linha 0
+    DRAM_REFRESH: 1,
+    RENDER: 2,        // Fim da parte visível: completa os pixels da linha
+    HDMA_RUN: 3
+} as const;
+type LineEventType = typeof LineEventType[keyof typeof LineEventType];
+
+interface LineEvent {
+    cycle: number;
+    type: LineEventType;
+}
 
 export class SNES {
     private cpu: CPU65816;
@@ -10,18 +32,32 @@ export class SNES {
     private ppu: PPU;
     private apu: APU;
     private input: Input;
+    private interrupts: InterruptController;
+    private mathUnit: MathUnit;
 
-    private running: boolean = false;
     private masterClock: number = 0;
     private frameCount: number = 0;
 
+    // Ciclos que a última instrução (ou DMA) avançou além do fim da linha anterior
+    private lineCarry: number = 0;
+
     private readonly SCANLINES_PER_FRAME = 262;
     private readonly MASTER_CYCLES_PER_SCANLINE = 1364;
-    private readonly CPU_CYCLES_PER_SCANLINE = 227;
-
-    private frameCallback: ((buffer: Uint8ClampedArray) => void) | null = null;
-    private animationFrameId: number = 0;
-    private lastFrameTime: number = 0;
+    private readonly MASTER_CYCLES_PER_DOT = 4;
+    private readonly HDMA_START_CYCLE = 1104; // H=276, início do HBlank
+    private readonly DRAM_REFRESH_CYCLE = 536; // H=134
+    private readonly DRAM_REFRESH_CYCLES = 40;
+    private readonly VISIBLE_SCANLINES = 224;
+
+    // Eventos de cada tipo de linha, em ciclos master desde H=0 e na ordem de disparo
+    private readonly firstLineEvents: LineEvent[] = [
+        { cycle: 0, type: LineEventType.HDMA_INIT },
+        { cycle: this.DRAM_REFRESH_CYCLE, type: LineEventType.DRAM_REFRESH },
+        { cycle: this.HDMA_START_CYCLE, type: LineEventType.RENDER },
+        { cycle: this.HDMA_START_CYCLE, type: LineEventType.HDMA_RUN }
+    ];
+    private readonly visibleLineEvents: LineEvent[] = this.firstLineEvents.slice(1);
+    private readonly vblankLineEvents: LineEvent[] = this.firstLineEvents.slice(1, 2);
 
     constructor() {
         this.memory = new Memory();
@@ -32,13 +68,20 @@ export class SNES {
         );
         this.apu = new APU();
         this.input = new Input();
+        this.interrupts = new InterruptController();
+        this.mathUnit = new MathUnit();
 
         // Conectar componentes
         this.memory.setPPU(this.ppu);
         this.memory.setAPU(this.apu);
         this.memory.setInput(this.input);
+        this.memory.setInterruptController(this.interrupts);
+        this.memory.setMathUnit(this.mathUnit);
+        this.ppu.setInterruptController(this.interrupts);
 
         this.cpu = new CPU65816(this.memory);
+        this.interrupts.setCPU(this.cpu);
+        this.mathUnit.setClock(() => this.cpu.getBusCycle());
 
         console.log('🎮 SNES System Initialized');
         console.log('📺 PPU: All 8 modes + sprites ready');
@@ -52,122 +95,166 @@ export class SNES {
     }
 
     reset(): void {
+        this.interrupts.reset();
+        this.memory.reset();
         this.cpu.reset();
+        this.mathUnit.reset();
         this.ppu.reset();
         this.apu.reset();
         this.masterClock = 0;
         this.frameCount = 0;
+        this.lineCarry = 0;
         console.log('🔄 System Reset Complete');
     }
 
-    init(): void {
-        this.apu.init();
+    /**
+     * Executa um frame NTSC completo (262 scanlines). O núcleo não depende de
+     * APIs do navegador: o ritmo de execução fica a cargo de quem o chama.
+     */
+    runFrame(): void {
+        for (let scanline = 0; scanline < this.SCANLINES_PER_FRAME; scanline++) {
+            this.runScanline();
+        }
+        this.frameCount++;
     }
 
-    start(): void {
-        if (!this.running) {
-            this.running = true;
-            this.lastFrameTime = performance.now();
-            console.log('▶️  Emulation Started');
+    // Executa `count` frames e devolve a imagem final e todo o áudio gerado
+    runFrames(count: number): FrameOutput {
+        for (let i = 0; i < count; i++) {
             this.runFrame();
         }
+        return {
+            framebuffer: this.ppu.getScreenBuffer(),
+            audio: this.apu.takeSamples()
+        };
     }
 
-    stop(): void {
-        this.running = false;
-        if (this.animationFrameId) {
-            cancelAnimationFrame(this.animationFrameId);
-            this.animationFrameId = 0;
-        }
-        console.log('⏹️  Emulation Stopped');
+    // Amostras estéreo intercaladas (16 bits, 32kHz) desde a última chamada.
+    // Quem usa runFrame() deve coletá-las: a APU guarda só o último segundo
+    takeAudioSamples(): Int16Array {
+        return this.apu.takeSamples();
     }
 
-    pause(): void {
-        this.running = false;
-        if (this.animationFrameId) {
-            cancelAnimationFrame(this.animationFrameId);
-            this.animationFrameId = 0;
-        }
-        this.apu.suspend();
-        console.log('⏸️  Emulation Paused');
-    }
+    /**
+     * Executa uma scanline no relógio master: a CPU roda entre os eventos da
+     * linha (refresh da DRAM, fim dos pixels visíveis, HDMA), e o feixe, os
+     * timers de IRQ e a APU avançam junto com ela. Erros da CPU propagam para
+     * quem chamou.
+     */
+    private runScanline(): void {
+        const line = this.ppu.getScanline();
+        let cyclesRun = this.lineCarry;
 
-    resume(): void {
-        if (!this.running) {
-            this.running = true;
-            this.apu.resume();
-            this.lastFrameTime = performance.now();
-            console.log('▶️  Emulation Resumed');
-            this.runFrame();
-        }
-    }
+        this.ppu.beginScanline();
+        this.interrupts.advanceBeam(line, 0, this.dotAt(Math.min(cyclesRun, this.MASTER_CYCLES_PER_SCANLINE)));
 
-    private runFrame(): void {
-        if (!this.running) return;
+        // Primeira linha do VBlank: leitura automática dos controles
+        if (line === this.VISIBLE_SCANLINES && this.interrupts.isAutoJoypadEnabled()) {
+            this.memory.autoJoypadRead();
+        }
 
-        const frameStartTime = performance.now();
+        for (const event of this.eventsFor(line)) {
+            cyclesRun = this.runCPU(line, cyclesRun, event.cycle);
+            cyclesRun = this.runEvent(line, cyclesRun, event.type);
+        }
+        cyclesRun = this.runCPU(line, cyclesRun, this.MASTER_CYCLES_PER_SCANLINE);
 
-        try {
-            // Executa 262 scanlines (1 frame NTSC)
-            for (let scanline = 0; scanline < this.SCANLINES_PER_FRAME; scanline++) {
-                this.runScanline();
-            }
+        this.ppu.endScanline();
+        this.lineCarry = cyclesRun - this.MASTER_CYCLES_PER_SCANLINE;
+        this.masterClock += this.MASTER_CYCLES_PER_SCANLINE;
+    }
 
-            this.frameCount++;
+    private eventsFor(line: number): LineEvent[] {
+        if (line === 0) return this.firstLineEvents;
+        return line < this.VISIBLE_SCANLINES ? this.visibleLineEvents : this.vblankLineEvents;
+    }
 
-            // Callback com buffer renderizado
-            if (this.frameCallback) {
-                this.frameCallback(this.ppu.getScreenBuffer());
+    // Roda a CPU até `until`; a última instrução pode passar um pouco do ponto
+    private runCPU(line: number, cyclesRun: number, until: number): number {
+        while (cyclesRun < until) {
+            let cycles: number;
+            if (this.cpu.isStopped() || (this.cpu.isWaiting() && !this.cpu.hasPendingInterrupt())) {
+                // WAI/STP: avança o relógio até o próximo evento sem buscar instruções
+                cycles = this.idleCycles(line, cyclesRun, until);
+                this.cpu.idle(cycles);
+            } else {
+                cycles = this.cpu.step();
+
+                // DMA disparado pela instrução ($420B) para a CPU logo em seguida
+                const stall = this.memory.takeStallCycles();
+                if (stall > 0) {
+                    this.cpu.idle(stall);
+                    cycles += stall;
+                }
             }
 
-            // Log de performance a cada 60 frames
-            if (this.frameCount % 60 === 0) {
-                const fps = 1000 / (frameStartTime - this.lastFrameTime);
-                console.log(`📊 Frame ${this.frameCount}: ${fps.toFixed(1)} FPS`);
-                this.lastFrameTime = frameStartTime;
-            }
+            cyclesRun = this.advance(line, cyclesRun, cycles);
+        }
+        return cyclesRun;
+    }
 
-        } catch (error) {
-            console.error('❌ Frame execution error:', error);
+    private runEvent(line: number, cyclesRun: number, type: LineEventType): number {
+        switch (type) {
+            case LineEventType.HDMA_INIT:
+                // V=0: HDMA recarrega as tabelas e faz a primeira transferência
+                return this.stall(line, cyclesRun, this.memory.hdmaInit() + this.memory.hdmaRun());
+            case LineEventType.DRAM_REFRESH:
+                return this.stall(line, cyclesRun, this.DRAM_REFRESH_CYCLES);
+            case LineEventType.RENDER:
+                this.ppu.renderPixels();
+                return cyclesRun;
+            case LineEventType.HDMA_RUN:
+                // HDMA no HBlank: a CPU fica parada durante as transferências
+                return this.stall(line, cyclesRun, this.memory.hdmaRun());
         }
+    }
 
-        // Agenda próximo frame
-        const elapsed = performance.now() - frameStartTime;
-        const targetFrameTime = 1000 / 60.0988; // NTSC timing preciso
-        const delay = Math.max(0, targetFrameTime - elapsed);
+    // CPU parada por `cycles` enquanto o resto do sistema anda
+    private stall(line: number, cyclesRun: number, cycles: number): number {
+        this.cpu.idle(cycles);
+        return this.advance(line, cyclesRun, cycles);
+    }
 
-        setTimeout(() => {
-            this.animationFrameId = requestAnimationFrame(() => this.runFrame());
-        }, delay);
+    // Avança timers de IRQ (posição do feixe) e APU junto com a CPU
+    private advance(line: number, cyclesRun: number, cycles: number): number {
+        const end = cyclesRun + cycles;
+        this.interrupts.advanceBeam(line, this.dotAt(cyclesRun), this.dotAt(end));
+        this.apu.step(cycles);
+        return end;
     }
 
-    private runScanline(): void {
-        // Renderiza scanline na PPU
-        this.ppu.renderScanline();
+    // Ciclos até o IRQ de timer (WAI), o HDMA ou o fim da linha (STP / sem IRQ)
+    private idleCycles(line: number, cyclesRun: number, targetCycles: number): number {
+        const remaining = targetCycles - cyclesRun;
+        if (this.cpu.isStopped()) return remaining;
 
-        // Executa CPU por uma scanline
-        let cyclesRun = 0;
-        const targetCycles = this.CPU_CYCLES_PER_SCANLINE;
+        const irqDot = this.interrupts.nextIRQDot(line, this.dotAt(cyclesRun));
+        if (irqDot < 0) return remaining;
 
-        while (cyclesRun < targetCycles && this.running) {
-            try {
-                const cycles = this.cpu.step();
-                cyclesRun += cycles;
+        const irqCycle = (irqDot + 1) * this.MASTER_CYCLES_PER_DOT;
+        return Math.max(1, Math.min(remaining, irqCycle - cyclesRun));
+    }
 
-                // Executa APU em paralelo
-                this.apu.step(cycles);
+    private dotAt(cycles: number): number {
+        return Math.floor(cycles / this.MASTER_CYCLES_PER_DOT);
+    }
 
-            } catch (error) {
-                // Silencia erros de CPU para evitar crashes
-                cyclesRun = targetCycles;
-            }
-        }
+    // SRAM do cartucho no formato .srm
+    hasSRAM(): boolean {
+        return this.memory.getSRAM().length > 0;
+    }
 
-        this.masterClock += cyclesRun;
+    exportSRAM(): Uint8Array {
+        return this.memory.getSRAM().slice();
     }
 
-    setFrameCallback(callback: (buffer: Uint8ClampedArray) => void): void {
-        this.frameCallback = callback;
+    importSRAM(data: Uint8Array): void {
+        this.memory.loadSRAM(data);
+    }
+
+    // Notificado a cada escrita do jogo na SRAM
+    setSRAMWriteCallback(callback: (() => void) | null): void {
+        this.memory.setSRAMWriteCallback(callback);
     }
 
     // Getters
@@ -176,24 +263,61 @@ export class SNES {
     getPPU(): PPU { return this.ppu; }
     getAPU(): APU { return this.apu; }
     getInput(): Input { return this.input; }
-    isRunning(): boolean { return this.running; }
+    getInterruptController(): InterruptController { return this.interrupts; }
     getMasterClock(): number { return this.masterClock; }
     getFrameCount(): number { return this.frameCount; }
 
-    // Save states
-    saveState(): any {
-        return {
-            cpu: this.cpu.getRegisters(),
-            flags: this.cpu.getFlags(),
-            masterClock: this.masterClock,
-            frameCount: this.frameCount,
-            wram: Array.from(this.memory['wram']).slice(0, 1000) // Sample
-        };
+    /**
+     * Snapshot binário de todo o sistema (ver SaveState.ts).
+     * O cabeçalho leva a versão do formato e o CRC32 da ROM carregada.
+     */
+    saveState(): Uint8Array {
+        const writer = new StateWriter(this.memory.getROMChecksum());
+
+        writer.section('SNES');
+        writer.f64(this.masterClock);
+        writer.u32(this.frameCount);
+        writer.u32(this.lineCarry);
+
+        this.cpu.saveState(writer);
+        this.memory.saveState(writer);
+        this.ppu.saveState(writer);
+        this.apu.saveState(writer);
+        this.input.saveState(writer);
+        this.interrupts.saveState(writer);
+        this.mathUnit.saveState(writer);
+
+        return writer.finish();
+    }
+
+    /**
+     * Lança SaveStateError para estados de outra ROM, de outra versão ou corrompidos.
+     * Atômico: se a leitura falhar no meio, o sistema volta ao estado anterior.
+     */
+    loadState(data: Uint8Array): void {
+        const backup = this.saveState();
+        try {
+            this.applyState(data);
+        } catch (error) {
+            this.applyState(backup);
+            throw error;
+        }
     }
 
-    loadState(state: any): void {
-        this.masterClock = state.masterClock || 0;
-        this.frameCount = state.frameCount || 0;
-        // Restaurar registradores seria mais complexo
+    private applyState(data: Uint8Array): void {
+        const reader = new StateReader(data, this.memory.getROMChecksum());
+
+        reader.section('SNES');
+        this.masterClock = reader.f64();
+        this.frameCount = reader.u32();
+        this.lineCarry = reader.u32();
+
+        this.cpu.loadState(reader);
+        this.memory.loadState(reader);
+        this.ppu.loadState(reader);
+        this.apu.loadState(reader);
+        this.input.loadState(reader);
+        this.interrupts.loadState(reader);
+        this.mathUnit.loadState(reader);
     }
 }
\ No newline at end of file
@@ -0,0 +1,705 @@
+// Sony SPC700 Sound CPU
+// The 8-bit processor inside the APU. It runs from its own 64KB ARAM at
+// 1.024MHz and talks to the 65816 only through four I/O ports.
+// All 256 opcodes are implemented with their documented cycle counts.
+
+import type { StateReader, StateWriter } from './SaveState';
+
+export interface SPCBus {
+    read(address: number): number;
+    write(address: number, value: number): void;
+}
+
+export interface SPC700Registers {
+    A: number;
+    X: number;
+    Y: number;
+    SP: number;
+    PC: number;
+    PSW: number;
+}
+
+// PSW bits
+const FLAG_N = 0x80;
+const FLAG_V = 0x40;
+const FLAG_P = 0x20; // Direct page at $0100 instead of $0000
+const FLAG_B = 0x10;
+const FLAG_H = 0x08;
+const FLAG_I = 0x04;
+const FLAG_Z = 0x02;
+const FLAG_C = 0x01;
+
+// Base cycles per opcode; taken branches add 2
+const CYCLES = [
+    /* 0x */ 2, 8, 4, 5, 3, 4, 3, 6, 2, 6, 5, 4, 5, 4, 6, 8,
+    /* 1x */ 2, 8, 4, 5, 4, 5, 5, 6, 5, 5, 6, 5, 2, 2, 4, 6,
+    /* 2x */ 2, 8, 4, 5, 3, 4, 3, 6, 2, 6, 5, 4, 5, 4, 5, 4,
+    /* 3x */ 2, 8, 4, 5, 4, 5, 5, 6, 5, 5, 6, 5, 2, 2, 3, 8,
+    /* 4x */ 2, 8, 4, 5, 3, 4, 3, 6, 2, 6, 4, 4, 5, 4, 6, 6,
+    /* 5x */ 2, 8, 4, 5, 4, 5, 5, 6, 5, 5, 4, 5, 2, 2, 4, 3,
+    /* 6x */ 2, 8, 4, 5, 3, 4, 3, 6, 2, 6, 4, 4, 5, 4, 5, 5,
+    /* 7x */ 2, 8, 4, 5, 4, 5, 5, 6, 5, 5, 5, 5, 2, 2, 3, 6,
+    /* 8x */ 2, 8, 4, 5, 3, 4, 3, 6, 2, 6, 5, 4, 5, 2, 4, 5,
+    /* 9x */ 2, 8, 4, 5, 4, 5, 5, 6, 5, 5, 5, 5, 2, 2, 12, 5,
+    /* Ax */ 3, 8, 4, 5, 3, 4, 3, 6, 2, 6, 4, 4, 5, 2, 4, 4,
+    /* Bx */ 2, 8, 4, 5, 4, 5, 5, 6, 5, 5, 5, 5, 2, 2, 3, 4,
+    /* Cx */ 3, 8, 4, 5, 4, 5, 4, 7, 2, 5, 6, 4, 5, 2, 4, 9,
+    /* Dx */ 2, 8, 4, 5, 5, 6, 6, 7, 4, 5, 5, 5, 2, 2, 6, 3,
+    /* Ex */ 2, 8, 4, 5, 3, 4, 3, 6, 2, 4, 5, 3, 4, 3, 4, 3,
+    /* Fx */ 2, 8, 4, 5, 4, 5, 5, 6, 3, 4, 5, 4, 2, 2, 4, 3
+];
+
+// Arithmetic/logic operations shared by the regular opcode grid (rows 0-B, columns 4-9)
+const AluOp = {
+    OR: 0,
+    AND: 1,
+    EOR: 2,
+    CMP: 3,
+    ADC: 4,
+    SBC: 5
+} as const;
+
+type AluOp = typeof AluOp[keyof typeof AluOp];
+
+export class SPC700 {
+    private bus: SPCBus;
+
+    private a = 0;
+    private x = 0;
+    private y = 0;
+    private sp = 0xEF;
+    private pc = 0xFFC0;
+    private psw = 0x02;
+
+    private cycles = 0;
+    private stopped = false; // SLEEP/STOP: only a reset wakes the SPC700
+
+    constructor(bus: SPCBus) {
+        this.bus = bus;
+    }
+
+    // Starts at the IPL ROM through the reset vector
+    reset(): void {
+        this.a = 0;
+        this.x = 0;
+        this.y = 0;
+        this.sp = 0xEF;
+        this.psw = 0x02;
+        this.pc = this.read16(0xFFFE);
+        this.cycles = 0;
+        this.stopped = false;
+    }
+
+    // Executes one instruction and returns the SPC700 cycles it took
+    step(): number {
+        if (this.stopped) {
+            this.cycles += 2;
+            return 2;
+        }
+
+        const opcode = this.fetch();
+        let cycles = CYCLES[opcode];
+        if (this.execute(opcode)) cycles += 2;
+
+        this.cycles += cycles;
+        return cycles;
+    }
+
+    isStopped(): boolean {
+        return this.stopped;
+    }
+
+    getCycles(): number {
+        return this.cycles;
+    }
+
+    getRegisters(): SPC700Registers {
+        return { A: this.a, X: this.x, Y: this.y, SP: this.sp, PC: this.pc, PSW: this.psw };
+    }
+
+    // Restores a snapshot, as stored in .spc files
+    setRegisters(registers: SPC700Registers): void {
+        this.a = registers.A & 0xFF;
+        this.x = registers.X & 0xFF;
+        this.y = registers.Y & 0xFF;
+        this.sp = registers.SP & 0xFF;
+        this.pc = registers.PC & 0xFFFF;
+        this.psw = registers.PSW & 0xFF;
+        this.stopped = false;
+    }
+
+    saveState(writer: StateWriter): void {
+        writer.section('SMP ');
+        writer.u8(this.a);
+        writer.u8(this.x);
+        writer.u8(this.y);
+        writer.u8(this.sp);
+        writer.u16(this.pc);
+        writer.u8(this.psw);
+        writer.f64(this.cycles);
+        writer.bool(this.stopped);
+    }
+
+    loadState(reader: StateReader): void {
+        reader.section('SMP ');
+        this.a = reader.u8();
+        this.x = reader.u8();
+        this.y = reader.u8();
+        this.sp = reader.u8();
+        this.pc = reader.u16();
+        this.psw = reader.u8();
+        this.cycles = reader.f64();
+        this.stopped = reader.bool();
+    }
+
+    // ==========================================
+    // Bus helpers
+    // ==========================================
+
+    private read(address: number): number {
+        return this.bus.read(address & 0xFFFF);
+    }
+
+    private write(address: number, value: number): void {
+        this.bus.write(address & 0xFFFF, value & 0xFF);
+    }
+
+    private read16(address: number): number {
+        return this.read(address) | (this.read(address + 1) << 8);
+    }
+
+    private fetch(): number {
+        const value = this.read(this.pc);
+        this.pc = (this.pc + 1) & 0xFFFF;
+        return value;
+    }
+
+    private fetch16(): number {
+        const low = this.fetch();
+        return low | (this.fetch() << 8);
+    }
+
+    // Direct page address; the page is selected by the P flag and offsets wrap inside it
+    private dp(offset: number): number {
+        return ((this.psw & FLAG_P) << 3) | (offset & 0xFF);
+    }
+
+    private readDp(offset: number): number {
+        return this.read(this.dp(offset));
+    }
+
+    private writeDp(offset: number, value: number): void {
+        this.write(this.dp(offset), value);
+    }
+
+    // 16-bit direct page word; the high byte wraps inside the page
+    private readDpWord(offset: number): number {
+        return this.readDp(offset) | (this.readDp(offset + 1) << 8);
+    }
+
+    private writeDpWord(offset: number, value: number): void {
+        this.writeDp(offset, value & 0xFF);
+        this.writeDp(offset + 1, value >> 8);
+    }
+
+    private push(value: number): void {
+        this.write(0x0100 | this.sp, value);
+        this.sp = (this.sp - 1) & 0xFF;
+    }
+
+    private pop(): number {
+        this.sp = (this.sp + 1) & 0xFF;
+        return this.read(0x0100 | this.sp);
+    }
+
+    private push16(value: number): void {
+        this.push(value >> 8);
+        this.push(value & 0xFF);
+    }
+
+    private pop16(): number {
+        const low = this.pop();
+        return low | (this.pop() << 8);
+    }
+
+    // ==========================================
+    // Flags
+    // ==========================================
+
+    private flag(mask: number): boolean {
+        return (this.psw & mask) !== 0;
+    }
+
+    private setFlag(mask: number, value: boolean): void {
+        if (value) this.psw |= mask;
+        else this.psw &= ~mask;
+    }
+
+    private setNZ(value: number): number {
+        this.setFlag(FLAG_N, (value & 0x80) !== 0);
+        this.setFlag(FLAG_Z, (value & 0xFF) === 0);
+        return value & 0xFF;
+    }
+
+    private setNZ16(value: number): number {
+        this.setFlag(FLAG_N, (value & 0x8000) !== 0);
+        this.setFlag(FLAG_Z, (value & 0xFFFF) === 0);
+        return value & 0xFFFF;
+    }
+
+    // ==========================================
+    // Operations
+    // ==========================================
+
+    private adc(a: number, b: number): number {
+        const carry = this.flag(FLAG_C) ? 1 : 0;
+        const result = a + b + carry;
+        this.setFlag(FLAG_V, (~(a ^ b) & (a ^ result) & 0x80) !== 0);
+        this.setFlag(FLAG_H, ((a & 0x0F) + (b & 0x0F) + carry) > 0x0F);
+        this.setFlag(FLAG_C, result > 0xFF);
+        return this.setNZ(result);
+    }
+
+    private compare(a: number, b: number): void {
+        const result = a - b;
+        this.setFlag(FLAG_C, result >= 0);
+        this.setNZ(result);
+    }
+
+    // Returns the new destination value (unchanged for CMP)
+    private alu(op: AluOp, a: number, b: number): number {
+        switch (op) {
+            case AluOp.OR: return this.setNZ(a | b);
+            case AluOp.AND: return this.setNZ(a & b);
+            case AluOp.EOR: return this.setNZ(a ^ b);
+            case AluOp.CMP: this.compare(a, b); return a;
+            case AluOp.ADC: return this.adc(a, b);
+            case AluOp.SBC: return this.adc(a, b ^ 0xFF);
+        }
+    }
+
+    private asl(value: number): number {
+        this.setFlag(FLAG_C, (value & 0x80) !== 0);
+        return this.setNZ(value << 1);
+    }
+
+    private rol(value: number): number {
+        const carry = this.flag(FLAG_C) ? 1 : 0;
+        this.setFlag(FLAG_C, (value & 0x80) !== 0);
+        return this.setNZ((value << 1) | carry);
+    }
+
+    private lsr(value: number): number {
+        this.setFlag(FLAG_C, (value & 0x01) !== 0);
+        return this.setNZ(value >> 1);
+    }
+
+    private ror(value: number): number {
+        const carry = this.flag(FLAG_C) ? 0x80 : 0;
+        this.setFlag(FLAG_C, (value & 0x01) !== 0);
+        return this.setNZ((value >> 1) | carry);
+    }
+
+    // Read-modify-write on a memory byte
+    private modify(address: number, operation: (value: number) => number): void {
+        this.write(address, operation(this.read(address)));
+    }
+
+    private branch(condition: boolean): boolean {
+        const offset = this.fetch();
+        if (!condition) return false;
+        this.pc = (this.pc + ((offset << 24) >> 24)) & 0xFFFF;
+        return true;
+    }
+
+    // Operand of the bit instructions: 13-bit address and bit number in the top 3 bits
+    private memoryBit(): { address: number; bit: number } {
+        const operand = this.fetch16();
+        return { address: operand & 0x1FFF, bit: operand >> 13 };
+    }
+
+    private addw(value: number, subtract: boolean): void {
+        const ya = (this.y << 8) | this.a;
+        const b = subtract ? value ^ 0xFFFF : value;
+        const carry = subtract ? 1 : 0;
+        const result = ya + b + carry;
+
+        this.setFlag(FLAG_C, result > 0xFFFF);
+        this.setFlag(FLAG_V, (~(ya ^ b) & (ya ^ result) & 0x8000) !== 0);
+        this.setFlag(FLAG_H, ((ya & 0x0FFF) + (b & 0x0FFF) + carry) > 0x0FFF);
+
+        const word = this.setNZ16(result);
+        this.a = word & 0xFF;
+        this.y = word >> 8;
+    }
+
+    // Hardware DIV: exact for quotients up to 511, with the documented overflow behaviour
+    private divide(): void {
+        const ya = (this.y << 8) | this.a;
+        const x = this.x;
+
+        this.setFlag(FLAG_V, this.y >= x);
+        this.setFlag(FLAG_H, (this.y & 0x0F) >= (x & 0x0F));
+
+        if (this.y < (x << 1)) {
+            this.a = Math.floor(ya / x) & 0xFF;
+            this.y = (ya % x) & 0xFF;
+        } else {
+            this.a = (255 - Math.floor((ya - (x << 9)) / (256 - x))) & 0xFF;
+            this.y = (x + ((ya - (x << 9)) % (256 - x))) & 0xFF;
+        }
+        this.setNZ(this.a);
+    }
+
+    // Decodes the ALU grid: columns 4-9 of rows 0-B
+    private executeAlu(opcode: number): void {
+        const op = (opcode >> 5) as AluOp;
+        const odd = (opcode & 0x10) !== 0;
+
+        switch (opcode & 0x0F) {
+            case 0x04: {
+                const offset = this.fetch();
+                this.a = this.alu(op, this.a, this.readDp(odd ? offset + this.x : offset));
+                return;
+            }
+            case 0x05: {
+                const address = this.fetch16();
+                this.a = this.alu(op, this.a, this.read(odd ? address + this.x : address));
+                return;
+            }
+            case 0x06: {
+                const value = odd ? this.read(this.fetch16() + this.y) : this.readDp(this.x);
+                this.a = this.alu(op, this.a, value);
+                return;
+            }
+            case 0x07: {
+                const offset = this.fetch();
+                const address = odd
+                    ? this.readDpWord(offset) + this.y
+                    : this.readDpWord(offset + this.x);
+                this.a = this.alu(op, this.a, this.read(address));
+                return;
+            }
+            case 0x08: {
+                if (!odd) {
+                    this.a = this.alu(op, this.a, this.fetch());
+                    return;
+                }
+                const immediate = this.fetch();
+                const dest = this.fetch();
+                const result = this.alu(op, this.readDp(dest), immediate);
+                if (op !== AluOp.CMP) this.writeDp(dest, result);
+                return;
+            }
+            case 0x09: {
+                if (odd) {
+                    const source = this.readDp(this.y);
+                    const result = this.alu(op, this.readDp(this.x), source);
+                    if (op !== AluOp.CMP) this.writeDp(this.x, result);
+                    return;
+                }
+                const source = this.readDp(this.fetch());
+                const dest = this.fetch();
+                const result = this.alu(op, this.readDp(dest), source);
+                if (op !== AluOp.CMP) this.writeDp(dest, result);
+                return;
+            }
+        }
+    }
+
+    // Returns true when a conditional branch was taken
+    private execute(opcode: number): boolean {
+        const low = opcode & 0x0F;
+        const row = opcode >> 4;
+
+        if (row <= 0x0B && low >= 0x04 && low <= 0x09) {
+            this.executeAlu(opcode);
+            return false;
+        }
+
+        // TCALL n
+        if (low === 0x01) {
+            this.push16(this.pc);
+            this.pc = this.read16(0xFFDE - (row << 1));
+            return false;
+        }
+
+        // SET1 / CLR1 d.bit
+        if (low === 0x02) {
+            const mask = 1 << (row >> 1);
+            const address = this.dp(this.fetch());
+            this.modify(address, (value) => (row & 1) ? value & ~mask : value | mask);
+            return false;
+        }
+
+        // BBS / BBC d.bit, rel
+        if (low === 0x03) {
+            const set = (this.readDp(this.fetch()) & (1 << (row >> 1))) !== 0;
+            return this.branch((row & 1) ? !set : set);
+        }
+
+        switch (opcode) {
+            // Branches and flag operations (column 0)
+            case 0x00: return false; // NOP
+            case 0x10: return this.branch(!this.flag(FLAG_N)); // BPL
+            case 0x20: this.setFlag(FLAG_P, false); return false; // CLRP
+            case 0x30: return this.branch(this.flag(FLAG_N)); // BMI
+            case 0x40: this.setFlag(FLAG_P, true); return false; // SETP
+            case 0x50: return this.branch(!this.flag(FLAG_V)); // BVC
+            case 0x60: this.setFlag(FLAG_C, false); return false; // CLRC
+            case 0x70: return this.branch(this.flag(FLAG_V)); // BVS
+            case 0x80: this.setFlag(FLAG_C, true); return false; // SETC
+            case 0x90: return this.branch(!this.flag(FLAG_C)); // BCC
+            case 0xA0: this.setFlag(FLAG_I, true); return false; // EI
+            case 0xB0: return this.branch(this.flag(FLAG_C)); // BCS
+            case 0xC0: this.setFlag(FLAG_I, false); return false; // DI
+            case 0xD0: return this.branch(!this.flag(FLAG_Z)); // BNE
+            case 0xE0: this.psw &= ~(FLAG_V | FLAG_H); return false; // CLRV
+            case 0xF0: return this.branch(this.flag(FLAG_Z)); // BEQ
+
+            // MOV to memory (columns 4-9 of rows C-D)
+            case 0xC4: this.writeDp(this.fetch(), this.a); return false;
+            case 0xD4: this.writeDp(this.fetch() + this.x, this.a); return false;
+            case 0xC5: this.write(this.fetch16(), this.a); return false;
+            case 0xD5: this.write(this.fetch16() + this.x, this.a); return false;
+            case 0xC6: this.writeDp(this.x, this.a); return false;
+            case 0xD6: this.write(this.fetch16() + this.y, this.a); return false;
+            case 0xC7: this.write(this.readDpWord(this.fetch() + this.x), this.a); return false;
+            case 0xD7: this.write(this.readDpWord(this.fetch()) + this.y, this.a); return false;
+            case 0xC8: this.compare(this.x, this.fetch()); return false; // CMP X,#i
+            case 0xD8: this.writeDp(this.fetch(), this.x); return false;
+            case 0xC9: this.write(this.fetch16(), this.x); return false;
+            case 0xD9: this.writeDp(this.fetch() + this.y, this.x); return false;
+
+            // MOV to registers (columns 4-9 of rows E-F)
+            case 0xE4: this.a = this.setNZ(this.readDp(this.fetch())); return false;
+            case 0xF4: this.a = this.setNZ(this.readDp(this.fetch() + this.x)); return false;
+            case 0xE5: this.a = this.setNZ(this.read(this.fetch16())); return false;
+            case 0xF5: this.a = this.setNZ(this.read(this.fetch16() + this.x)); return false;
+            case 0xE6: this.a = this.setNZ(this.readDp(this.x)); return false;
+            case 0xF6: this.a = this.setNZ(this.read(this.fetch16() + this.y)); return false;
+            case 0xE7: this.a = this.setNZ(this.read(this.readDpWord(this.fetch() + this.x))); return false;
+            case 0xF7: this.a = this.setNZ(this.read(this.readDpWord(this.fetch()) + this.y)); return false;
+            case 0xE8: this.a = this.setNZ(this.fetch()); return false;
+            case 0xF8: this.x = this.setNZ(this.readDp(this.fetch())); return false;
+            case 0xE9: this.x = this.setNZ(this.read(this.fetch16())); return false;
+            case 0xF9: this.x = this.setNZ(this.readDp(this.fetch() + this.y)); return false;
+
+            // Bit operations on absolute memory (column A)
+            case 0x0A: { const m = this.memoryBit(); if ((this.read(m.address) >> m.bit) & 1) this.psw |= FLAG_C; return false; } // OR1 C,m.b
+            case 0x2A: { const m = this.memoryBit(); if (!((this.read(m.address) >> m.bit) & 1)) this.psw |= FLAG_C; return false; } // OR1 C,/m.b
+            case 0x4A: { const m = this.memoryBit(); if (!((this.read(m.address) >> m.bit) & 1)) this.psw &= ~FLAG_C; return false; } // AND1 C,m.b
+            case 0x6A: { const m = this.memoryBit(); if ((this.read(m.address) >> m.bit) & 1) this.psw &= ~FLAG_C; return false; } // AND1 C,/m.b
+            case 0x8A: { const m = this.memoryBit(); if ((this.read(m.address) >> m.bit) & 1) this.psw ^= FLAG_C; return false; } // EOR1 C,m.b
+            case 0xAA: { const m = this.memoryBit(); this.setFlag(FLAG_C, ((this.read(m.address) >> m.bit) & 1) !== 0); return false; } // MOV1 C,m.b
+            case 0xCA: { // MOV1 m.b,C
+                const m = this.memoryBit();
+                const mask = 1 << m.bit;
+                this.modify(m.address, (value) => this.flag(FLAG_C) ? value | mask : value & ~mask);
+                return false;
+            }
+            case 0xEA: { // NOT1 m.b
+                const m = this.memoryBit();
+                this.modify(m.address, (value) => value ^ (1 << m.bit));
+                return false;
+            }
+
+            // 16-bit operations (column A)
+            case 0x1A: { // DECW d
+                const offset = this.fetch();
+                this.writeDpWord(offset, this.setNZ16(this.readDpWord(offset) - 1));
+                return false;
+            }
+            case 0x3A: { // INCW d
+                const offset = this.fetch();
+                this.writeDpWord(offset, this.setNZ16(this.readDpWord(offset) + 1));
+                return false;
+            }
+            case 0x5A: { // CMPW YA,d
+                const result = ((this.y << 8) | this.a) - this.readDpWord(this.fetch());
+                this.setFlag(FLAG_C, result >= 0);
+                this.setNZ16(result);
+                return false;
+            }
+            case 0x7A: this.addw(this.readDpWord(this.fetch()), false); return false; // ADDW YA,d
+            case 0x9A: this.addw(this.readDpWord(this.fetch()), true); return false;  // SUBW YA,d
+            case 0xBA: { // MOVW YA,d
+                const word = this.setNZ16(this.readDpWord(this.fetch()));
+                this.a = word & 0xFF;
+                this.y = word >> 8;
+                return false;
+            }
+            case 0xDA: this.writeDpWord(this.fetch(), (this.y << 8) | this.a); return false; // MOVW d,YA
+            case 0xFA: { // MOV dd,ds
+                const value = this.readDp(this.fetch());
+                this.writeDp(this.fetch(), value);
+                return false;
+            }
+
+            // Shifts, INC/DEC and MOV with Y (column B)
+            case 0x0B: { const a = this.dp(this.fetch()); this.modify(a, (v) => this.asl(v)); return false; }
+            case 0x1B: { const a = this.dp(this.fetch() + this.x); this.modify(a, (v) => this.asl(v)); return false; }
+            case 0x2B: { const a = this.dp(this.fetch()); this.modify(a, (v) => this.rol(v)); return false; }
+            case 0x3B: { const a = this.dp(this.fetch() + this.x); this.modify(a, (v) => this.rol(v)); return false; }
+            case 0x4B: { const a = this.dp(this.fetch()); this.modify(a, (v) => this.lsr(v)); return false; }
+            case 0x5B: { const a = this.dp(this.fetch() + this.x); this.modify(a, (v) => this.lsr(v)); return false; }
+            case 0x6B: { const a = this.dp(this.fetch()); this.modify(a, (v) => this.ror(v)); return false; }
+            case 0x7B: { const a = this.dp(this.fetch() + this.x); this.modify(a, (v) => this.ror(v)); return false; }
+            case 0x8B: { const a = this.dp(this.fetch()); this.modify(a, (v) => this.setNZ(v - 1)); return false; }
+            case 0x9B: { const a = this.dp(this.fetch() + this.x); this.modify(a, (v) => this.setNZ(v - 1)); return false; }
+            case 0xAB: { const a = this.dp(this.fetch()); this.modify(a, (v) => this.setNZ(v + 1)); return false; }
+            case 0xBB: { const a = this.dp(this.fetch() + this.x); this.modify(a, (v) => this.setNZ(v + 1)); return false; }
+            case 0xCB: this.writeDp(this.fetch(), this.y); return false;
+            case 0xDB: this.writeDp(this.fetch() + this.x, this.y); return false;
+            case 0xEB: this.y = this.setNZ(this.readDp(this.fetch())); return false;
+            case 0xFB: this.y = this.setNZ(this.readDp(this.fetch() + this.x)); return false;
+
+            // Absolute shifts and accumulator/register operations (column C)
+            case 0x0C: { const a = this.fetch16(); this.modify(a, (v) => this.asl(v)); return false; }
+            case 0x1C: this.a = this.asl(this.a); return false;
+            case 0x2C: { const a = this.fetch16(); this.modify(a, (v) => this.rol(v)); return false; }
+            case 0x3C: this.a = this.rol(this.a); return false;
+            case 0x4C: { const a = this.fetch16(); this.modify(a, (v) => this.lsr(v)); return false; }
+            case 0x5C: this.a = this.lsr(this.a); return false;
+            case 0x6C: { const a = this.fetch16(); this.modify(a, (v) => this.ror(v)); return false; }
+            case 0x7C: this.a = this.ror(this.a); return false;
+            case 0x8C: { const a = this.fetch16(); this.modify(a, (v) => this.setNZ(v - 1)); return false; }
+            case 0x9C: this.a = this.setNZ(this.a - 1); return false;
+            case 0xAC: { const a = this.fetch16(); this.modify(a, (v) => this.setNZ(v + 1)); return false; }
+            case 0xBC: this.a = this.setNZ(this.a + 1); return false;
+            case 0xCC: this.write(this.fetch16(), this.y); return false;
+            case 0xDC: this.y = this.setNZ(this.y - 1); return false;
+            case 0xEC: this.y = this.setNZ(this.read(this.fetch16())); return false;
+            case 0xFC: this.y = this.setNZ(this.y + 1); return false;
+
+            // Stack and register transfers (column D)
+            case 0x0D: this.push(this.psw); return false;
+            case 0x1D: this.x = this.setNZ(this.x - 1); return false;
+            case 0x2D: this.push(this.a); return false;
+            case 0x3D: this.x = this.setNZ(this.x + 1); return false;
+            case 0x4D: this.push(this.x); return false;
+            case 0x5D: this.x = this.setNZ(this.a); return false;
+            case 0x6D: this.push(this.y); return false;
+            case 0x7D: this.a = this.setNZ(this.x); return false;
+            case 0x8D: this.y = this.setNZ(this.fetch()); return false;
+            case 0x9D: this.x = this.setNZ(this.sp); return false;
+            case 0xAD: this.compare(this.y, this.fetch()); return false;
+            case 0xBD: this.sp = this.x; return false;
+            case 0xCD: this.x = this.setNZ(this.fetch()); return false;
+            case 0xDD: this.a = this.setNZ(this.y); return false;
+            case 0xED: this.psw ^= FLAG_C; return false; // NOTC
+            case 0xFD: this.y = this.setNZ(this.a); return false;
+
+            // Column E
+            case 0x0E: case 0x4E: { // TSET1 / TCLR1 !a
+                const address = this.fetch16();
+                const value = this.read(address);
+                this.setNZ(this.a - value);
+                this.write(address, opcode === 0x0E ? value | this.a : value & ~this.a);
+                return false;
+            }
+            case 0x1E: this.compare(this.x, this.read(this.fetch16())); return false;
+            case 0x3E: this.compare(this.x, this.readDp(this.fetch())); return false;
+            case 0x5E: this.compare(this.y, this.read(this.fetch16())); return false;
+            case 0x7E: this.compare(this.y, this.readDp(this.fetch())); return false;
+            case 0x2E: { // CBNE d,rel
+                const value = this.readDp(this.fetch());
+                return this.branch(this.a !== value);
+            }
+            case 0xDE: { // CBNE d+X,rel
+                const value = this.readDp(this.fetch() + this.x);
+                return this.branch(this.a !== value);
+            }
+            case 0x6E: { // DBNZ d,rel
+                const address = this.dp(this.fetch());
+                const value = (this.read(address) - 1) & 0xFF;
+                this.write(address, value);
+                return this.branch(value !== 0);
+            }
+            case 0xFE: // DBNZ Y,rel
+                this.y = (this.y - 1) & 0xFF;
+                return this.branch(this.y !== 0);
+            case 0x8E: this.psw = this.pop(); return false;
+            case 0xAE: this.a = this.pop(); return false;
+            case 0xCE: this.x = this.pop(); return false;
+            case 0xEE: this.y = this.pop(); return false;
+            case 0x9E: this.divide(); return false;
+            case 0xBE: { // DAS
+                if (!this.flag(FLAG_C) || this.a > 0x99) {
+                    this.a = (this.a - 0x60) & 0xFF;
+                    this.psw &= ~FLAG_C;
+                }
+                if (!this.flag(FLAG_H) || (this.a & 0x0F) > 0x09) {
+                    this.a = (this.a - 0x06) & 0xFF;
+                }
+                this.setNZ(this.a);
+                return false;
+            }
+
+            // Column F
+            case 0x0F: // BRK
+                this.push16(this.pc);
+                this.push(this.psw);
+                this.psw = (this.psw | FLAG_B) & ~FLAG_I;
+                this.pc = this.read16(0xFFDE);
+                return false;
+            case 0x1F: this.pc = this.read16(this.fetch16() + this.x); return false; // JMP [!a+X]
+            case 0x2F: this.branch(true); return false; // BRA (taken cost is in the base count)
+            case 0x3F: { // CALL !a
+                const target = this.fetch16();
+                this.push16(this.pc);
+                this.pc = target;
+                return false;
+            }
+            case 0x4F: { // PCALL u
+                const target = 0xFF00 | this.fetch();
+                this.push16(this.pc);
+                this.pc = target;
+                return false;
+            }
+            case 0x5F: this.pc = this.fetch16(); return false; // JMP !a
+            case 0x6F: this.pc = this.pop16(); return false; // RET
+            case 0x7F: // RETI
+                this.psw = this.pop();
+                this.pc = this.pop16();
+                return false;
+            case 0x8F: { // MOV d,#i
+                const value = this.fetch();
+                this.writeDp(this.fetch(), value);
+                return false;
+            }
+            case 0x9F: this.a = this.setNZ((this.a >> 4) | (this.a << 4)); return false; // XCN
+            case 0xAF: // MOV (X)+,A
+                this.writeDp(this.x, this.a);
+                this.x = (this.x + 1) & 0xFF;
+                return false;
+            case 0xBF: // MOV A,(X)+
+                this.a = this.setNZ(this.readDp(this.x));
+                this.x = (this.x + 1) & 0xFF;
+                return false;
+            case 0xCF: { // MUL YA
+                const product = this.y * this.a;
+                this.a = product & 0xFF;
+                this.y = product >> 8;
+                this.setNZ(this.y);
+                return false;
+            }
+            case 0xDF: { // DAA
+                if (this.flag(FLAG_C) || this.a > 0x99) {
+                    this.a = (this.a + 0x60) & 0xFF;
+                    this.psw |= FLAG_C;
+                }
+                if (this.flag(FLAG_H) || (this.a & 0x0F) > 0x09) {
+                    this.a = (this.a + 0x06) & 0xFF;
+                }
+                this.setNZ(this.a);
+                return false;
+            }
+            case 0xEF: case 0xFF: // SLEEP / STOP
+                this.stopped = true;
+                return false;
+        }
+
+        return false;
+    }
+}
@@ -0,0 +1,208 @@
+// SNES Save States
+// Binary snapshot format: a header (magic, format version, ROM CRC32) followed
+// by one tagged section per component. Bump SAVE_STATE_VERSION whenever a
+// component adds, removes or reorders fields; older states are then rejected.
+
+export const SAVE_STATE_VERSION = 12;
+
+const MAGIC = 0x53454E53; // "SNES"
+
+export class SaveStateError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'SaveStateError';
+    }
+}
+
+type TypedArray = Uint8Array | Uint16Array | Int16Array | Uint32Array | Int32Array | Float32Array;
+
+function bytesOf(array: TypedArray): Uint8Array {
+    return new Uint8Array(array.buffer, array.byteOffset, array.byteLength);
+}
+
+export class StateWriter {
+    private buffer = new Uint8Array(256 * 1024);
+    private view = new DataView(this.buffer.buffer);
+    private length = 0;
+
+    constructor(romChecksum: number) {
+        this.u32(MAGIC);
+        this.u16(SAVE_STATE_VERSION);
+        this.u32(romChecksum);
+    }
+
+    // Starts a component section; the reader checks the tag to catch misaligned data
+    section(tag: string): void {
+        for (let i = 0; i < 4; i++) this.u8(tag.charCodeAt(i) & 0xFF);
+    }
+
+    u8(value: number): void {
+        this.reserve(1);
+        this.view.setUint8(this.length, value);
+        this.length += 1;
+    }
+
+    u16(value: number): void {
+        this.reserve(2);
+        this.view.setUint16(this.length, value, true);
+        this.length += 2;
+    }
+
+    u32(value: number): void {
+        this.reserve(4);
+        this.view.setUint32(this.length, value >>> 0, true);
+        this.length += 4;
+    }
+
+    i32(value: number): void {
+        this.reserve(4);
+        this.view.setInt32(this.length, value, true);
+        this.length += 4;
+    }
+
+    // Cycle counters outgrow 32 bits after a few minutes
+    f64(value: number): void {
+        this.reserve(8);
+        this.view.setFloat64(this.length, value, true);
+        this.length += 8;
+    }
+
+    bool(value: boolean): void {
+        this.u8(value ? 1 : 0);
+    }
+
+    // Length-prefixed copy of a typed array's bytes
+    array(array: TypedArray): void {
+        const bytes = bytesOf(array);
+        this.u32(bytes.length);
+        this.reserve(bytes.length);
+        this.buffer.set(bytes, this.length);
+        this.length += bytes.length;
+    }
+
+    finish(): Uint8Array {
+        return this.buffer.slice(0, this.length);
+    }
+
+    private reserve(count: number): void {
+        if (this.length + count <= this.buffer.length) return;
+
+        let size = this.buffer.length * 2;
+        while (size < this.length + count) size *= 2;
+
+        const grown = new Uint8Array(size);
+        grown.set(this.buffer.subarray(0, this.length));
+        this.buffer = grown;
+        this.view = new DataView(grown.buffer);
+    }
+}
+
+export class StateReader {
+    private data: Uint8Array;
+    private view: DataView;
+    private offset = 0;
+
+    /**
+     * Validates the header and throws SaveStateError when the data is not a
+     * save state, comes from another format version, or from another ROM.
+     */
+    constructor(data: Uint8Array, romChecksum: number) {
+        this.data = data;
+        this.view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+        if (data.length < 10 || this.u32() !== MAGIC) {
+            throw new SaveStateError('Not a save state');
+        }
+        const version = this.u16();
+        if (version !== SAVE_STATE_VERSION) {
+            throw new SaveStateError(`Save state version ${version} is not supported (expected ${SAVE_STATE_VERSION})`);
+        }
+        if (this.u32() !== romChecksum >>> 0) {
+            throw new SaveStateError('Save state was made with a different ROM');
+        }
+    }
+
+    section(tag: string): void {
+        let found = '';
+        for (let i = 0; i < 4; i++) found += String.fromCharCode(this.u8());
+        if (found !== tag) {
+            throw new SaveStateError(`Corrupt save state: expected section ${tag}, found ${found}`);
+        }
+    }
+
+    u8(): number {
+        this.need(1);
+        const value = this.view.getUint8(this.offset);
+        this.offset += 1;
+        return value;
+    }
+
+    u16(): number {
+        this.need(2);
+        const value = this.view.getUint16(this.offset, true);
+        this.offset += 2;
+        return value;
+    }
+
+    u32(): number {
+        this.need(4);
+        const value = this.view.getUint32(this.offset, true);
+        this.offset += 4;
+        return value;
+    }
+
+    i32(): number {
+        this.need(4);
+        const value = this.view.getInt32(this.offset, true);
+        this.offset += 4;
+        return value;
+    }
+
+    f64(): number {
+        this.need(8);
+        const value = this.view.getFloat64(this.offset, true);
+        this.offset += 8;
+        return value;
+    }
+
+    bool(): boolean {
+        return this.u8() !== 0;
+    }
+
+    // Fills `target` in place; the stored array must have exactly its size
+    array(target: TypedArray): void {
+        const bytes = bytesOf(target);
+        const length = this.u32();
+        if (length !== bytes.length) {
+            throw new SaveStateError(`Corrupt save state: array of ${length} bytes, expected ${bytes.length}`);
+        }
+        this.need(length);
+        bytes.set(this.data.subarray(this.offset, this.offset + length));
+        this.offset += length;
+    }
+
+    private need(count: number): void {
+        if (this.offset + count > this.data.length) {
+            throw new SaveStateError('Save state is truncated');
+        }
+    }
+}
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+// CRC-32 (IEEE), identifies the ROM a state belongs to
+export function crc32(data: Uint8Array): number {
+    let crc = 0xFFFFFFFF;
+    for (let i = 0; i < data.length; i++) {
+        crc = CRC_TABLE[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xFFFFFFFF) >>> 0;
+}
@@ -0,0 +1,197 @@
+// Audio Output Utility
+// Streams the APU's stereo samples to the speakers through an AudioWorklet ring
+// buffer. The worklet resamples to the device rate and adjusts that rate by up
+// to ±0.5% to keep the buffer near its target fill, absorbing frame-pacing jitter
+// without crackling (underruns) or growing latency (drift).
+
+import { APU_SAMPLE_RATE } from '../core/APU';
+
+const PROCESSOR_NAME = 'snes-audio-sink';
+
+const RING_FRAMES = 8192;     // ~250ms, the most audio that can be queued
+const TARGET_LATENCY = 0.04;  // Seconds of audio the worklet tries to keep queued
+const MAX_RATE_ADJUST = 0.005;
+
+// Runs on the audio rendering thread, so it is plain JavaScript loaded from a Blob
+const PROCESSOR_SOURCE = `
+class SNESAudioSink extends AudioWorkletProcessor {
+    constructor(options) {
+        super();
+        const { inputRate, capacity, target, maxAdjust } = options.processorOptions;
+        this.ring = new Float32Array(capacity * 2);
+        this.capacity = capacity;
+        this.target = target;
+        this.maxAdjust = maxAdjust;
+        this.step = inputRate / sampleRate;
+        this.readIndex = 0;
+        this.count = 0;
+        this.fraction = 0;
+        this.primed = false;
+
+        this.port.onmessage = (event) => {
+            if (event.data === 'clear') {
+                this.count = 0;
+                this.fraction = 0;
+                this.primed = false;
+            } else {
+                this.push(event.data);
+            }
+        };
+    }
+
+    // Appends interleaved stereo frames, dropping the oldest ones on overflow
+    push(samples) {
+        const frames = samples.length >> 1;
+        for (let i = 0; i < frames; i++) {
+            if (this.count === this.capacity) {
+                this.readIndex = (this.readIndex + 1) % this.capacity;
+                this.count--;
+            }
+            const slot = ((this.readIndex + this.count) % this.capacity) * 2;
+            this.ring[slot] = samples[i * 2];
+            this.ring[slot + 1] = samples[i * 2 + 1];
+            this.count++;
+        }
+    }
+
+    process(inputs, outputs) {
+        const left = outputs[0][0];
+        const right = outputs[0][1] || left;
+
+        // Wait for the target fill before starting, and again after an underrun
+        if (!this.primed && this.count >= this.target) this.primed = true;
+
+        // Full correction once the fill is half the target away from it
+        const error = (this.count - this.target) / this.target;
+        const adjust = Math.max(-this.maxAdjust, Math.min(this.maxAdjust, error * 2 * this.maxAdjust));
+        const step = this.step * (1 + adjust);
+
+        for (let i = 0; i < left.length; i++) {
+            if (!this.primed || this.count < 2) {
+                this.primed = false;
+                left[i] = 0;
+                right[i] = 0;
+                continue;
+            }
+
+            // Linear interpolation between the two oldest queued frames
+            const a = this.readIndex * 2;
+            const b = ((this.readIndex + 1) % this.capacity) * 2;
+            const f = this.fraction;
+            left[i] = this.ring[a] + (this.ring[b] - this.ring[a]) * f;
+            right[i] = this.ring[a + 1] + (this.ring[b + 1] - this.ring[a + 1]) * f;
+
+            this.fraction += step;
+            while (this.fraction >= 1 && this.count >= 2) {
+                this.fraction -= 1;
+                this.readIndex = (this.readIndex + 1) % this.capacity;
+                this.count--;
+            }
+        }
+        return true;
+    }
+}
+
+registerProcessor('${PROCESSOR_NAME}', SNESAudioSink);
+`;
+
+export class AudioOutput {
+    private audioContext: AudioContext | null = null;
+    private gainNode: GainNode | null = null;
+    private sinkNode: AudioWorkletNode | null = null;
+    private volume = 0.5; // 50% volume
+
+    // Must be called from a user gesture in most browsers. Samples passed to
+    // play() before the worklet has loaded are dropped.
+    async init(): Promise<void> {
+        if (typeof window === 'undefined' || !window.AudioContext) {
+            console.warn('Web Audio API not available');
+            return;
+        }
+
+        try {
+            const context = new AudioContext({ latencyHint: 'interactive' });
+            if (!context.audioWorklet) {
+                console.warn('AudioWorklet not available (requires a secure context)');
+                await context.close();
+                return;
+            }
+            this.audioContext = context;
+
+            this.gainNode = context.createGain();
+            this.gainNode.gain.value = this.volume;
+            this.gainNode.connect(context.destination);
+
+            const url = URL.createObjectURL(new Blob([PROCESSOR_SOURCE], { type: 'application/javascript' }));
+            try {
+                await context.audioWorklet.addModule(url);
+            } finally {
+                URL.revokeObjectURL(url);
+            }
+
+            // close() may have run while the module was loading
+            if (this.audioContext !== context) return;
+
+            this.sinkNode = new AudioWorkletNode(context, PROCESSOR_NAME, {
+                numberOfInputs: 0,
+                outputChannelCount: [2],
+                processorOptions: {
+                    inputRate: APU_SAMPLE_RATE,
+                    capacity: RING_FRAMES,
+                    target: Math.round(APU_SAMPLE_RATE * TARGET_LATENCY),
+                    maxAdjust: MAX_RATE_ADJUST
+                }
+            });
+            this.sinkNode.connect(this.gainNode);
+
+            console.log(`Audio output initialized: ${APU_SAMPLE_RATE}Hz -> ${context.sampleRate}Hz`);
+        } catch (error) {
+            console.error('Failed to initialize audio:', error);
+        }
+    }
+
+    // Queues interleaved stereo 16-bit samples in the worklet's ring buffer
+    play(samples: Int16Array): void {
+        if (!this.sinkNode || samples.length < 2) return;
+
+        const data = new Float32Array(samples.length);
+        for (let i = 0; i < samples.length; i++) {
+            data[i] = samples[i] / 32768;
+        }
+        this.sinkNode.port.postMessage(data, [data.buffer]);
+    }
+
+    setVolume(volume: number): void {
+        this.volume = Math.max(0, Math.min(1, volume));
+        if (this.gainNode) {
+            this.gainNode.gain.value = this.volume;
+        }
+    }
+
+    suspend(): void {
+        if (this.audioContext && this.audioContext.state === 'running') {
+            this.audioContext.suspend();
+        }
+    }
+
+    // Drops whatever was queued before the pause so playback resumes in sync
+    resume(): void {
+        this.sinkNode?.port.postMessage('clear');
+        if (this.audioContext && this.audioContext.state === 'suspended') {
+            this.audioContext.resume();
+        }
+    }
+
+    close(): void {
+        const context = this.audioContext;
+        this.audioContext = null;
+        this.gainNode = null;
+        this.sinkNode?.disconnect();
+        this.sinkNode = null;
+        context?.close();
+    }
+
+    isEnabled(): boolean {
+        return this.audioContext !== null;
+    }
+}
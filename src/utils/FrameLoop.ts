@@ -0,0 +1,122 @@
+// Frame Loop Utility
+// Drives the headless SNES core in real time in the browser: paces frames to
+// NTSC speed and forwards video and audio to the page.
+
+import type { SNES } from '../core/SNES';
+import type { AudioOutput } from './AudioOutput';
+
+const NTSC_FRAME_TIME = 1000 / 60.0988; // NTSC timing preciso
+
+export class FrameLoop {
+    private snes: SNES;
+    private audio: AudioOutput | null;
+
+    private running = false;
+    private animationFrameId = 0;
+    private timeoutId: ReturnType<typeof setTimeout> | null = null;
+    private lastFrameTime = 0;
+
+    private frameCallback: ((buffer: Uint8ClampedArray) => void) | null = null;
+    private errorCallback: ((error: unknown) => void) | null = null;
+
+    constructor(snes: SNES, audio: AudioOutput | null = null) {
+        this.snes = snes;
+        this.audio = audio;
+    }
+
+    setFrameCallback(callback: (buffer: Uint8ClampedArray) => void): void {
+        this.frameCallback = callback;
+    }
+
+    // Called when the core throws; the loop has already stopped by then
+    setErrorCallback(callback: (error: unknown) => void): void {
+        this.errorCallback = callback;
+    }
+
+    isRunning(): boolean {
+        return this.running;
+    }
+
+    start(): void {
+        if (!this.running) {
+            this.running = true;
+            this.lastFrameTime = performance.now();
+            console.log('▶️  Emulation Started');
+            this.runFrame();
+        }
+    }
+
+    stop(): void {
+        this.running = false;
+        this.cancel();
+        console.log('⏹️  Emulation Stopped');
+    }
+
+    pause(): void {
+        this.running = false;
+        this.cancel();
+        this.audio?.suspend();
+        console.log('⏸️  Emulation Paused');
+    }
+
+    resume(): void {
+        if (!this.running) {
+            this.running = true;
+            this.audio?.resume();
+            this.lastFrameTime = performance.now();
+            console.log('▶️  Emulation Resumed');
+            this.runFrame();
+        }
+    }
+
+    private runFrame(): void {
+        if (!this.running) return;
+
+        const frameStartTime = performance.now();
+
+        try {
+            this.snes.runFrame();
+            this.audio?.play(this.snes.takeAudioSamples());
+
+            // Callback com buffer renderizado
+            if (this.frameCallback) {
+                this.frameCallback(this.snes.getPPU().getScreenBuffer());
+            }
+
+            // Log de performance a cada 60 frames
+            const frameCount = this.snes.getFrameCount();
+            if (frameCount % 60 === 0) {
+                const fps = 1000 / (frameStartTime - this.lastFrameTime);
+                console.log(`📊 Frame ${frameCount}: ${fps.toFixed(1)} FPS`);
+                this.lastFrameTime = frameStartTime;
+            }
+
+        } catch (error) {
+            // The core state is unreliable after a CPU fault: stop instead of running on
+            console.error('❌ Frame execution error:', error);
+            this.pause();
+            this.errorCallback?.(error);
+            return;
+        }
+
+        // Agenda próximo frame
+        const elapsed = performance.now() - frameStartTime;
+        const delay = Math.max(0, NTSC_FRAME_TIME - elapsed);
+
+        this.timeoutId = setTimeout(() => {
+            this.timeoutId = null;
+            this.animationFrameId = requestAnimationFrame(() => this.runFrame());
+        }, delay);
+    }
+
+    private cancel(): void {
+        if (this.timeoutId !== null) {
+            clearTimeout(this.timeoutId);
+            this.timeoutId = null;
+        }
+        if (this.animationFrameId) {
+            cancelAnimationFrame(this.animationFrameId);
+            this.animationFrameId = 0;
+        }
+    }
+}
@@ -0,0 +1,63 @@
+// Keyboard Input Utility
+// Feeds browser key events into controller 1 of the emulated Input
+
+import { SNESButton } from '../core/Input';
+import type { Input } from '../core/Input';
+
+export class KeyboardInput {
+    private input: Input;
+
+    // Keyboard mapping
+    private keyMap: Map<string, SNESButton> = new Map([
+        ['ArrowUp', SNESButton.UP],
+        ['ArrowDown', SNESButton.DOWN],
+        ['ArrowLeft', SNESButton.LEFT],
+        ['ArrowRight', SNESButton.RIGHT],
+        ['KeyZ', SNESButton.B],
+        ['KeyX', SNESButton.A],
+        ['KeyA', SNESButton.Y],
+        ['KeyS', SNESButton.X],
+        ['KeyQ', SNESButton.L],
+        ['KeyW', SNESButton.R],
+        ['Enter', SNESButton.START],
+        ['ShiftRight', SNESButton.SELECT]
+    ]);
+
+    constructor(input: Input) {
+        this.input = input;
+    }
+
+    attach(target: Window = window): void {
+        target.addEventListener('keydown', this.handleKeyDown);
+        target.addEventListener('keyup', this.handleKeyUp);
+    }
+
+    detach(target: Window = window): void {
+        target.removeEventListener('keydown', this.handleKeyDown);
+        target.removeEventListener('keyup', this.handleKeyUp);
+    }
+
+    setKeyMapping(key: string, button: SNESButton): void {
+        this.keyMap.set(key, button);
+    }
+
+    getKeyMapping(): Map<string, SNESButton> {
+        return new Map(this.keyMap);
+    }
+
+    private handleKeyDown = (event: KeyboardEvent): void => {
+        const button = this.keyMap.get(event.code);
+        if (button !== undefined) {
+            event.preventDefault();
+            this.input.pressButton(1, button);
+        }
+    };
+
+    private handleKeyUp = (event: KeyboardEvent): void => {
+        const button = this.keyMap.get(event.code);
+        if (button !== undefined) {
+            event.preventDefault();
+            this.input.releaseButton(1, button);
+        }
+    };
+}
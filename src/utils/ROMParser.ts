@@ -33,7 +33,7 @@ export class ROMParser {
     }
 
     private static parseHeader(data: Uint8Array, offset: number): ROMInfo {
-        if (offset + 0x30 > data.length) {
+        if (offset + 0x20 > data.length) {
             return this.getEmptyInfo();
         }
 
@@ -49,30 +49,30 @@ export class ROMParser {
         }
         name = name.trim();
 
-        // ROM makeup byte (offset+0x25)
-        const makeup = data[offset + 0x25];
+        // ROM makeup byte (offset+0x15)
+        const makeup = data[offset + 0x15];
         const isLoROM = (makeup & 0x01) === 0;
 
-        // ROM size (offset+0x27)
-        const romSizeCode = data[offset + 0x27];
+        // ROM size (offset+0x17)
+        const romSizeCode = data[offset + 0x17];
         const romSize = 1024 << romSizeCode;
 
-        // RAM size (offset+0x28)
-        const ramSizeCode = data[offset + 0x28];
+        // RAM size (offset+0x18)
+        const ramSizeCode = data[offset + 0x18];
         const ramSize = ramSizeCode > 0 ? 1024 << ramSizeCode : 0;
 
-        // Region (offset+0x29)
-        const regionCode = data[offset + 0x29];
+        // Region (offset+0x19)
+        const regionCode = data[offset + 0x19];
         const region = this.getRegionName(regionCode);
 
-        // Version (offset+0x2B)
-        const version = data[offset + 0x2B];
+        // Version (offset+0x1B)
+        const version = data[offset + 0x1B];
 
-        // Checksum complement (offset+0x2C-0x2D)
-        const checksumComplement = data[offset + 0x2C] | (data[offset + 0x2D] << 8);
+        // Checksum complement (offset+0x1C-0x1D)
+        const checksumComplement = data[offset + 0x1C] | (data[offset + 0x1D] << 8);
 
-        // Checksum (offset+0x2E-0x2F)
-        const checksum = data[offset + 0x2E] | (data[offset + 0x2F] << 8);
+        // Checksum (offset+0x1E-0x1F)
+        const checksum = data[offset + 0x1E] | (data[offset + 0x1F] << 8);
 
         // Validate checksum
         const valid = (checksum ^ checksumComplement) === 0xFFFF;
@@ -0,0 +1,116 @@
+// SPC Parser Utility
+// Parses .spc sound snapshots: the SPC700 registers, 64KB ARAM and DSP
+// registers of a running APU, plus the ID666 tag describing the track
+
+import type { APUSnapshot } from '../core/APU';
+
+export interface ID666Tags {
+    songTitle: string;
+    gameTitle: string;
+    artist: string;
+    dumper: string;
+    comments: string;
+    date: string;
+    lengthSeconds: number; // Play time before the fade, 0 when unknown
+    fadeMs: number;
+}
+
+export interface SPCFile extends APUSnapshot {
+    tags: ID666Tags;
+}
+
+const SIGNATURE = 'SNES-SPC700 Sound File Data';
+const MIN_FILE_SIZE = 0x10200;
+
+export class SPCParser {
+    /**
+     * Parses an .spc file. Throws an Error when the signature is missing or
+     * the file is too short to hold a full snapshot.
+     */
+    static parse(data: Uint8Array): SPCFile {
+        if (data.length < MIN_FILE_SIZE || this.readText(data, 0, SIGNATURE.length) !== SIGNATURE) {
+            throw new Error('Not an SPC file');
+        }
+
+        // Byte $23 is 26 when the header carries an ID666 tag, 27 when it does not
+        const hasTags = data[0x23] === 26;
+
+        return {
+            registers: {
+                PC: data[0x25] | (data[0x26] << 8),
+                A: data[0x27],
+                X: data[0x28],
+                Y: data[0x29],
+                PSW: data[0x2A],
+                SP: data[0x2B]
+            },
+            ram: data.slice(0x100, 0x10100),
+            dspRegisters: data.slice(0x10100, 0x10180),
+            extraRAM: data.slice(0x101C0, 0x10200),
+            tags: hasTags ? this.parseTags(data) : this.getEmptyTags()
+        };
+    }
+
+    // ID666 comes in a text and a binary flavour that differ from $9E onwards
+    private static parseTags(data: Uint8Array): ID666Tags {
+        const tags = this.getEmptyTags();
+        tags.songTitle = this.readText(data, 0x2E, 32);
+        tags.gameTitle = this.readText(data, 0x4E, 32);
+        tags.dumper = this.readText(data, 0x6E, 16);
+        tags.comments = this.readText(data, 0x7E, 32);
+
+        if (this.isTextTag(data)) {
+            tags.date = this.readText(data, 0x9E, 11);
+            tags.lengthSeconds = parseInt(this.readText(data, 0xA9, 3), 10) || 0;
+            tags.fadeMs = parseInt(this.readText(data, 0xAC, 5), 10) || 0;
+            tags.artist = this.readText(data, 0xB1, 32);
+        } else {
+            const day = data[0x9E];
+            const month = data[0x9F];
+            const year = data[0xA0] | (data[0xA1] << 8);
+            tags.date = year ? `${month}/${day}/${year}` : '';
+            tags.lengthSeconds = data[0xA9] | (data[0xAA] << 8) | (data[0xAB] << 16);
+            tags.fadeMs = (data[0xAC] | (data[0xAD] << 8) | (data[0xAE] << 16) | (data[0xAF] << 24)) >>> 0;
+            tags.artist = this.readText(data, 0xB0, 32);
+        }
+
+        return tags;
+    }
+
+    // Text tags store the date, length and fade as ASCII digits
+    private static isTextTag(data: Uint8Array): boolean {
+        for (let i = 0x9E; i < 0xA9; i++) {
+            const c = data[i];
+            const isDate = c === 0 || (c >= 0x30 && c <= 0x39) || c === 0x2F || c === 0x2D;
+            if (!isDate) return false;
+        }
+        for (let i = 0xA9; i < 0xB1; i++) {
+            const c = data[i];
+            if (c !== 0 && (c < 0x30 || c > 0x39)) return false;
+        }
+        return true;
+    }
+
+    private static readText(data: Uint8Array, offset: number, length: number): string {
+        let text = '';
+        for (let i = 0; i < length; i++) {
+            const char = data[offset + i];
+            if (char === 0) break;
+            text += String.fromCharCode(char);
+        }
+        return text.trim();
+    }
+
+    private static getEmptyTags(): ID666Tags {
+        return {
+            songTitle: '',
+            gameTitle: '',
+            artist: '',
+            dumper: '',
+            comments: '',
+            date: '',
+            lengthSeconds: 0,
+            fadeMs: 0
+        };
+    }
+}
@@ -0,0 +1,188 @@
+// SPC Player Utility
+// Plays .spc snapshots on a standalone APU, without a ROM or the rest of the
+// console, and renders them to WAV. Playback follows the ID666 length and
+// fade; tracks without one use the defaults below.
+
+import { APU, APU_SAMPLE_RATE, MASTER_CLOCK_HZ } from '../core/APU';
+import type { AudioOutput } from './AudioOutput';
+import type { SPCFile } from './SPCParser';
+import { encodeWAV } from './WAVEncoder';
+
+const DEFAULT_LENGTH_SECONDS = 180;
+const DEFAULT_FADE_MS = 10000;
+
+const TICK_MS = 10;
+const MAX_TICK_SECONDS = 0.1; // Catch up at most this much after a stall
+
+// Audio rendered per chunk while exporting, between yields to the page
+const EXPORT_CHUNK_SECONDS = 2;
+
+export class SPCPlayer {
+    private apu = new APU();
+    private audio: AudioOutput | null;
+    private file: SPCFile | null = null;
+
+    private playing = false;
+    private timeoutId: ReturnType<typeof setTimeout> | null = null;
+    private lastTickTime = 0;
+    private framesPlayed = 0; // Stereo frames since the start of the track
+    private masterCycleDebt = 0;
+
+    private endCallback: (() => void) | null = null;
+
+    constructor(audio: AudioOutput | null = null) {
+        this.audio = audio;
+    }
+
+    load(file: SPCFile): void {
+        this.stop();
+        this.file = file;
+        this.rewind();
+    }
+
+    // Called when playback reaches the end of the fade
+    setEndCallback(callback: () => void): void {
+        this.endCallback = callback;
+    }
+
+    play(): void {
+        if (!this.file || this.playing) return;
+
+        this.playing = true;
+        this.audio?.resume();
+        this.lastTickTime = performance.now();
+        this.tick();
+    }
+
+    pause(): void {
+        this.playing = false;
+        this.cancel();
+        this.audio?.suspend();
+    }
+
+    // Pauses and goes back to the start of the track
+    stop(): void {
+        this.pause();
+        if (this.file) this.rewind();
+    }
+
+    isPlaying(): boolean {
+        return this.playing;
+    }
+
+    getPositionSeconds(): number {
+        return this.framesPlayed / APU_SAMPLE_RATE;
+    }
+
+    // Length including the fade
+    getDurationSeconds(): number {
+        if (!this.file) return 0;
+        const { length, fade } = this.playLength(this.file);
+        return (length + fade) / APU_SAMPLE_RATE;
+    }
+
+    getAPU(): APU { return this.apu; }
+
+    /**
+     * Renders the whole track, fade included, to a 16-bit stereo WAV file.
+     * Runs on a separate APU so playback is not disturbed, yielding to the
+     * page between chunks.
+     */
+    async exportWAV(onProgress?: (fraction: number) => void): Promise<Uint8Array> {
+        if (!this.file) throw new Error('No SPC file loaded');
+
+        const { length, fade } = this.playLength(this.file);
+        const total = length + fade;
+        const output = new Int16Array(total * 2);
+
+        const apu = new APU();
+        apu.loadSnapshot(this.file);
+
+        const chunkFrames = APU_SAMPLE_RATE * EXPORT_CHUNK_SECONDS;
+        let frames = 0;
+        let debt = 0;
+
+        while (frames < total) {
+            const wanted = Math.min(chunkFrames, total - frames);
+            debt += wanted * MASTER_CLOCK_HZ / APU_SAMPLE_RATE;
+            const cycles = Math.floor(debt);
+            debt -= cycles;
+            apu.step(cycles);
+
+            const samples = apu.takeSamples();
+            const count = Math.min(samples.length, (total - frames) * 2);
+            output.set(samples.subarray(0, count), frames * 2);
+            this.applyFade(output.subarray(frames * 2, frames * 2 + count), frames, length, fade);
+            frames += count >> 1;
+
+            onProgress?.(frames / total);
+            await new Promise((resolve) => setTimeout(resolve, 0));
+        }
+
+        return encodeWAV(output, APU_SAMPLE_RATE);
+    }
+
+    private rewind(): void {
+        if (!this.file) return;
+        this.apu.loadSnapshot(this.file);
+        this.framesPlayed = 0;
+        this.masterCycleDebt = 0;
+    }
+
+    // Produces as much audio as real time has advanced since the last tick
+    private tick(): void {
+        if (!this.playing || !this.file) return;
+
+        const now = performance.now();
+        const elapsed = Math.min(MAX_TICK_SECONDS, (now - this.lastTickTime) / 1000);
+        this.lastTickTime = now;
+
+        this.masterCycleDebt += elapsed * MASTER_CLOCK_HZ;
+        const cycles = Math.floor(this.masterCycleDebt);
+        this.masterCycleDebt -= cycles;
+        this.apu.step(cycles);
+
+        const { length, fade } = this.playLength(this.file);
+        const samples = this.apu.takeSamples();
+        this.applyFade(samples, this.framesPlayed, length, fade);
+        this.framesPlayed += samples.length >> 1;
+        this.audio?.play(samples);
+
+        if (this.framesPlayed >= length + fade) {
+            this.stop();
+            this.endCallback?.();
+            return;
+        }
+
+        this.timeoutId = setTimeout(() => this.tick(), TICK_MS);
+    }
+
+    // Length and fade in stereo frames
+    private playLength(file: SPCFile): { length: number; fade: number } {
+        const seconds = file.tags.lengthSeconds || DEFAULT_LENGTH_SECONDS;
+        const fadeMs = file.tags.lengthSeconds ? file.tags.fadeMs : DEFAULT_FADE_MS;
+        return {
+            length: seconds * APU_SAMPLE_RATE,
+            fade: Math.round(fadeMs * APU_SAMPLE_RATE / 1000)
+        };
+    }
+
+    // Linear fade-out over `fade` frames starting at frame `length`
+    private applyFade(samples: Int16Array, startFrame: number, length: number, fade: number): void {
+        for (let i = 0; i < samples.length; i += 2) {
+            const frame = startFrame + (i >> 1);
+            if (frame < length) continue;
+
+            const gain = fade > 0 ? Math.max(0, 1 - (frame - length) / fade) : 0;
+            samples[i] = Math.round(samples[i] * gain);
+            samples[i + 1] = Math.round(samples[i + 1] * gain);
+        }
+    }
+
+    private cancel(): void {
+        if (this.timeoutId !== null) {
+            clearTimeout(this.timeoutId);
+            this.timeoutId = null;
+        }
+    }
+}
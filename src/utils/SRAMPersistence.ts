@@ -0,0 +1,62 @@
+// SRAM Persistence Utility
+// Keeps battery-backed cartridge saves (.srm) across sessions. Writes from the
+// game are batched and flushed once they have been quiet for a while.
+
+import type { SNES } from '../core/SNES';
+import type { BinaryStore } from './Storage';
+
+export class SRAMPersistence {
+    private store: BinaryStore;
+    private quietPeriod: number;
+
+    private snes: SNES | null = null;
+    private key = '';
+    private timer: ReturnType<typeof setTimeout> | null = null;
+
+    constructor(store: BinaryStore, quietPeriodMs = 1000) {
+        this.store = store;
+        this.quietPeriod = quietPeriodMs;
+    }
+
+    /**
+     * Restores the save stored under `key` into the loaded cartridge and
+     * starts persisting its writes. Does nothing for cartridges without SRAM.
+     */
+    async attach(snes: SNES, key: string): Promise<void> {
+        await this.detach();
+        if (!snes.hasSRAM()) return;
+
+        const saved = await this.store.load(key);
+        if (saved) {
+            snes.importSRAM(saved);
+        }
+
+        this.snes = snes;
+        this.key = key;
+        snes.setSRAMWriteCallback(() => this.scheduleFlush());
+    }
+
+    // Writes any pending changes and stops listening
+    async detach(): Promise<void> {
+        if (!this.snes) return;
+
+        this.snes.setSRAMWriteCallback(null);
+        await this.flush();
+        this.snes = null;
+    }
+
+    async flush(): Promise<void> {
+        if (this.timer === null || !this.snes) return;
+
+        clearTimeout(this.timer);
+        this.timer = null;
+        await this.store.save(this.key, this.snes.exportSRAM());
+    }
+
+    private scheduleFlush(): void {
+        if (this.timer !== null) clearTimeout(this.timer);
+        this.timer = setTimeout(() => {
+            this.flush().catch((error) => console.error('❌ Failed to save SRAM:', error));
+        }, this.quietPeriod);
+    }
+}
@@ -0,0 +1,101 @@
+// Binary Storage Utility
+// Key/value stores for battery saves and save states, in the browser
+// (IndexedDB) or headless (an injected file system).
+
+export interface BinaryStore {
+    load(key: string): Promise<Uint8Array | null>;
+    save(key: string, data: Uint8Array): Promise<void>;
+}
+
+export type StoreName = 'sram' | 'states';
+
+const DB_NAME = 'snes-emulator';
+const DB_VERSION = 2;
+const STORE_NAMES: StoreName[] = ['sram', 'states'];
+
+// Browser storage: one IndexedDB record per key
+export class IndexedDBStore implements BinaryStore {
+    private storeName: StoreName;
+    private db: Promise<IDBDatabase> | null = null;
+
+    constructor(storeName: StoreName) {
+        this.storeName = storeName;
+    }
+
+    async load(key: string): Promise<Uint8Array | null> {
+        const db = await this.open();
+        const result = await this.request<unknown>(
+            db.transaction(this.storeName, 'readonly').objectStore(this.storeName).get(key)
+        );
+        return result instanceof Uint8Array ? result : null;
+    }
+
+    async save(key: string, data: Uint8Array): Promise<void> {
+        const db = await this.open();
+        await this.request(
+            db.transaction(this.storeName, 'readwrite').objectStore(this.storeName).put(data, key)
+        );
+    }
+
+    private open(): Promise<IDBDatabase> {
+        if (!this.db) {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                for (const name of STORE_NAMES) {
+                    if (!request.result.objectStoreNames.contains(name)) {
+                        request.result.createObjectStore(name);
+                    }
+                }
+            };
+            this.db = this.request(request);
+        }
+        return this.db;
+    }
+
+    private request<T>(request: IDBRequest<T>): Promise<T> {
+        return new Promise((resolve, reject) => {
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+    }
+}
+
+// The subset of a file system the headless store needs (e.g. node:fs/promises)
+export interface FileSystemLike {
+    readFile(path: string): Promise<Uint8Array>;
+    writeFile(path: string, data: Uint8Array): Promise<void>;
+}
+
+// Headless storage: `<directory>/<key><extension>` files
+export class FileStore implements BinaryStore {
+    private fs: FileSystemLike;
+    private directory: string;
+    private extension: string;
+
+    constructor(fs: FileSystemLike, directory: string, extension: string) {
+        this.fs = fs;
+        this.directory = directory;
+        this.extension = extension;
+    }
+
+    async load(key: string): Promise<Uint8Array | null> {
+        try {
+            return new Uint8Array(await this.fs.readFile(this.pathFor(key)));
+        } catch {
+            return null; // Nothing saved yet
+        }
+    }
+
+    save(key: string, data: Uint8Array): Promise<void> {
+        return this.fs.writeFile(this.pathFor(key), data);
+    }
+
+    private pathFor(key: string): string {
+        return `${this.directory}/${key.replace(/[^\w.-]+/g, '_')}${this.extension}`;
+    }
+}
+
+// Key for everything stored per cartridge: its title plus header checksum
+export function storageKey(name: string, checksum: number): string {
+    return `${name || 'untitled'}-${checksum.toString(16).padStart(4, '0')}`;
+}
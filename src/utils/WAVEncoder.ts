@@ -0,0 +1,33 @@
+// WAV Encoder Utility
+// Wraps interleaved 16-bit PCM samples in a RIFF/WAVE container
+
+export function encodeWAV(samples: Int16Array, sampleRate: number, channels = 2): Uint8Array {
+    const dataSize = samples.length * 2;
+    const data = new Uint8Array(44 + dataSize);
+    const view = new DataView(data.buffer);
+
+    const writeTag = (offset: number, tag: string) => {
+        for (let i = 0; i < 4; i++) view.setUint8(offset + i, tag.charCodeAt(i));
+    };
+
+    writeTag(0, 'RIFF');
+    view.setUint32(4, 36 + dataSize, true);
+    writeTag(8, 'WAVE');
+
+    writeTag(12, 'fmt ');
+    view.setUint32(16, 16, true);                          // Chunk size
+    view.setUint16(20, 1, true);                           // PCM
+    view.setUint16(22, channels, true);
+    view.setUint32(24, sampleRate, true);
+    view.setUint32(28, sampleRate * channels * 2, true);   // Byte rate
+    view.setUint16(32, channels * 2, true);                // Block align
+    view.setUint16(34, 16, true);                          // Bits per sample
+
+    writeTag(36, 'data');
+    view.setUint32(40, dataSize, true);
+    for (let i = 0; i < samples.length; i++) {
+        view.setInt16(44 + i * 2, samples[i], true);
+    }
+
+    return data;
+}